@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import { parseAamva, parseAamvaScan, isAamvaScan, normalizeAamvaDate, calculateAge } from './aamva';
+import type { ScanEvent } from '../types';
+
+/**
+ * Build an AAMVA payload with correct subfile designators
+ */
+function buildAamva(version: string, subfiles: Array<[string, string[]]>, jurisdictionVersion = '00'): string {
+  const header = `@\n\x1e\rANSI 636014${version}${version === '01' ? '' : jurisdictionVersion}${String(subfiles.length).padStart(2, '0')}`;
+  const bodies = subfiles.map(([type, elements]) => `${type}${elements.join('\n')}\r`);
+
+  let offset = header.length + subfiles.length * 10;
+  const designators = subfiles.map(([type], i) => {
+    const designator = `${type}${String(offset).padStart(4, '0')}${String(bodies[i].length).padStart(4, '0')}`;
+    offset += bodies[i].length;
+    return designator;
+  });
+  return header + designators.join('') + bodies.join('');
+}
+
+const CALIFORNIA = buildAamva(
+  '08',
+  [
+    [
+      'DL',
+      [
+        'DCAC',
+        'DCBNONE',
+        'DBA01152030',
+        'DCSPUBLIC',
+        'DACJOHN',
+        'DADQUINCY',
+        'DBD01152022',
+        'DBB01151990',
+        'DBC1',
+        'DAG123 MAIN ST',
+        'DAISACRAMENTO',
+        'DAJCA',
+        'DAK958140000  ',
+        'DAQD1234567',
+        'DCGUSA',
+      ],
+    ],
+    ['ZC', ['ZCAGRN']],
+  ],
+  '01'
+);
+
+describe('parseAamva', () => {
+  it('should parse the header, subfiles and typed fields', () => {
+    const license = parseAamva(CALIFORNIA);
+
+    expect(license.valid).toBe(true);
+    expect(license.header).toEqual({ issuerId: '636014', version: 8, jurisdictionVersion: 1, entries: 2 });
+    expect(license.subfiles.map((subfile) => subfile.type)).toEqual(['DL', 'ZC']);
+    expect(license.subfiles[1].elements).toEqual({ ZCA: 'GRN' });
+    expect(license).toMatchObject({
+      documentType: 'DL',
+      licenseNumber: 'D1234567',
+      lastName: 'PUBLIC',
+      firstName: 'JOHN',
+      middleName: 'QUINCY',
+      dateOfBirth: '1990-01-15',
+      expiryDate: '2030-01-15',
+      issueDate: '2022-01-15',
+      sex: 'male',
+      jurisdiction: 'CA',
+      country: 'USA',
+      address: { street: '123 MAIN ST', city: 'SACRAMENTO', state: 'CA', postalCode: '95814' },
+    });
+    expect(license.elements.DCB).toBeUndefined();
+  });
+
+  it('should read version 1 names and CCYYMMDD dates', () => {
+    const license = parseAamva(
+      buildAamva('01', [['DL', ['DAQ123456789', 'DAAPUBLIC,JANE,Q', 'DBB19851231', 'DBA20281231', 'DBC2', 'DAJNY']]])
+    );
+
+    expect(license.valid).toBe(true);
+    expect(license.header).toMatchObject({ version: 1, jurisdictionVersion: null });
+    expect(license).toMatchObject({
+      lastName: 'PUBLIC',
+      firstName: 'JANE',
+      middleName: 'Q',
+      dateOfBirth: '1985-12-31',
+      expiryDate: '2028-12-31',
+      sex: 'female',
+    });
+  });
+
+  it('should read version 2 given names and Canadian dates', () => {
+    const license = parseAamva(
+      buildAamva('02', [['ID', ['DAQ1234-56789', 'DCSTREMBLAY', 'DCTMARIE,CLAIRE', 'DBB19900102', 'DAJQC']]])
+    );
+
+    expect(license).toMatchObject({
+      documentType: 'ID',
+      firstName: 'MARIE',
+      middleName: 'CLAIRE',
+      dateOfBirth: '1990-01-02',
+    });
+  });
+
+  it('should find subfiles whose declared offset is wrong', () => {
+    const payload = CALIFORNIA.replace(/DL\d{4}/, 'DL0099');
+
+    expect(parseAamva(payload)).toMatchObject({ valid: true, licenseNumber: 'D1234567' });
+  });
+
+  it('should report missing headers, subfiles and invalid dates', () => {
+    expect(parseAamva('hello').errors).toEqual(['No AAMVA header found']);
+    expect(parseAamva(buildAamva('08', [['DL', ['DAQX1', 'DBB13401990']]])).errors).toEqual([
+      'DBB date of birth is not a valid date',
+    ]);
+    expect(parseAamva(buildAamva('08', [['ZC', ['ZCAGRN']]])).errors).toEqual(['No DL or ID subfile found']);
+  });
+});
+
+describe('parseAamvaScan', () => {
+  const scan = (overrides: Partial<ScanEvent>): ScanEvent => ({
+    type: 'scan',
+    id: 'scan-1',
+    timestamp: new Date(),
+    data: '',
+    symbology: 'pdf417',
+    source: 'imager',
+    vendor: 'test',
+    ...overrides,
+  });
+
+  it('should prefer bytesHex, which keeps the separators', () => {
+    const bytesHex = Array.from(CALIFORNIA, (char) => char.charCodeAt(0).toString(16).padStart(2, '0')).join('');
+    const event = scan({
+      data: CALIFORNIA.replace(/[\n\r\x1e]/g, ''),
+      raw: { bytesHex, symbologyId: 'r', aimId: ']L2', signalStrength: null, scanDurationMs: 40 },
+    });
+
+    expect(isAamvaScan(event)).toBe(true);
+    expect(parseAamvaScan(event)).toMatchObject({ valid: true, lastName: 'PUBLIC' });
+  });
+
+  it('should return null for other PDF417 payloads', () => {
+    expect(parseAamvaScan(scan({ data: 'SHIPMENT 12345' }))).toBeNull();
+  });
+});
+
+describe('dates', () => {
+  it('should normalize US and Canadian dates', () => {
+    expect(normalizeAamvaDate('07041976')).toBe('1976-07-04');
+    expect(normalizeAamvaDate('19760704')).toBe('1976-07-04');
+    expect(normalizeAamvaDate('20010203', 'CAN')).toBe('2001-02-03');
+    expect(normalizeAamvaDate('02302001')).toBeNull();
+    expect(normalizeAamvaDate('0704')).toBeNull();
+  });
+
+  it('should calculate age in whole years', () => {
+    expect(calculateAge('2000-06-15', new Date(2021, 5, 14))).toBe(20);
+    expect(calculateAge('2000-06-15', new Date(2021, 5, 15))).toBe(21);
+    expect(calculateAge('2000-02-29', new Date(2021, 1, 28))).toBe(20);
+    expect(calculateAge('2000-02-29', new Date(2021, 2, 1))).toBe(21);
+    expect(calculateAge('15/06/2000')).toBeNull();
+  });
+});
@@ -0,0 +1,281 @@
+import { decodeBytes, hexToBytes } from './bytes';
+import type { AamvaAddress, AamvaHeader, AamvaLicense, ScanEvent } from '../types';
+
+/** File type that follows the compliance indicator and separators: 'ANSI ' since 2000, 'AAMVA' in early files */
+const FILE_TYPE = /ANSI |AAMVA/;
+
+/** Compliance indicator, data element separator, record separator and segment terminator */
+const DEFAULT_PREAMBLE = '@\n\x1e\r';
+
+/** Length of one subfile designator: type (2), offset (4), length (4) */
+const DESIGNATOR_LENGTH = 10;
+
+/** Province and territory codes, whose cards use CCYYMMDD dates */
+const CANADIAN_JURISDICTIONS = ['AB', 'BC', 'MB', 'NB', 'NL', 'NS', 'NT', 'NU', 'ON', 'PE', 'QC', 'SK', 'YT'];
+
+/** Values jurisdictions put in elements they do not have */
+const EMPTY_VALUES = ['NONE', 'UNAVL', 'UNAVAILABLE', 'N/A'];
+
+/**
+ * Whether text is an AAMVA card payload (header with the 'ANSI ' or 'AAMVA' file type)
+ */
+export function isAamvaData(text: string): boolean {
+  const start = text.indexOf('@');
+  return start !== -1 && start < 8 && FILE_TYPE.test(text.substring(start, start + 12));
+}
+
+/**
+ * Whether a scan carries an AAMVA card payload
+ */
+export function isAamvaScan(event: ScanEvent): boolean {
+  return isAamvaData(scanText(event));
+}
+
+/**
+ * Parse the PDF417 payload of a US or Canadian driver's license or ID card (AAMVA versions 1 to 10).
+ * Dates are normalized to YYYY-MM-DD whether the card uses the US (MMDDCCYY) or Canadian (CCYYMMDD) order.
+ *
+ * @example
+ * ```typescript
+ * const license = parseAamva(event.data);
+ * license.lastName;    // "PUBLIC"
+ * license.dateOfBirth; // "1990-01-15"
+ * calculateAge(license.dateOfBirth!); // 35
+ * ```
+ */
+export function parseAamva(input: string): AamvaLicense {
+  const result: AamvaLicense = { header: null, subfiles: [], elements: {}, valid: false, errors: [] };
+
+  const start = input.indexOf('@');
+  const fileType = start === -1 ? null : FILE_TYPE.exec(input.substring(start));
+  if (start === -1 || !fileType) {
+    result.errors.push('No AAMVA header found');
+    return result;
+  }
+  // Offsets in the designators count from the compliance indicator; some scanners drop the separators
+  const text = input.substring(start);
+  const shift = fileType.index - DEFAULT_PREAMBLE.length;
+
+  const header = parseHeader(text.substring(fileType.index), result.errors);
+  if (!header) return result;
+  result.header = header;
+
+  const designatorsStart = fileType.index + (header.version <= 1 ? 15 : 17);
+  const afterDesignators = designatorsStart + header.entries * DESIGNATOR_LENGTH;
+  for (let i = 0; i < header.entries; i++) {
+    const at = designatorsStart + i * DESIGNATOR_LENGTH;
+    const match = /^([A-Z]{2})(\d{4})(\d{4})$/.exec(text.substring(at, at + DESIGNATOR_LENGTH));
+    if (!match) {
+      result.errors.push(`Subfile designator ${i + 1} is malformed`);
+      break;
+    }
+    const [, type, offset, length] = match;
+    const body = locateSubfile(text, type, Number(offset) + shift, Number(length), afterDesignators);
+    if (body === null) {
+      result.errors.push(`Subfile ${type} not found`);
+      continue;
+    }
+    result.subfiles.push({ type, offset: Number(offset), length: Number(length), elements: parseElements(body) });
+  }
+
+  const card = result.subfiles.find((subfile) => subfile.type === 'DL' || subfile.type === 'ID');
+  if (!card) {
+    result.errors.push('No DL or ID subfile found');
+    return result;
+  }
+  result.documentType = card.type as 'DL' | 'ID';
+  result.elements = card.elements;
+  applyElements(result, card.elements, header.version);
+
+  result.valid = result.errors.length === 0;
+  return result;
+}
+
+/**
+ * Decode the AAMVA payload of a scan, or return null if the scan is not a driver's license or ID card.
+ * Prefers `raw.bytesHex`, which keeps the separators some scanners strip from `data`.
+ */
+export function parseAamvaScan(event: ScanEvent): AamvaLicense | null {
+  const text = scanText(event);
+  return isAamvaData(text) ? parseAamva(text) : null;
+}
+
+/**
+ * Normalize an AAMVA date to YYYY-MM-DD, or return null if it is not a valid date.
+ * US cards use MMDDCCYY and Canadian cards CCYYMMDD; the other order is tried when the preferred one
+ * does not give a valid date.
+ */
+export function normalizeAamvaDate(value: string, country?: string): string | null {
+  const digits = value.trim();
+  if (!/^\d{8}$/.test(digits)) return null;
+
+  const us = toIsoDate(digits.substring(4, 8), digits.substring(0, 2), digits.substring(2, 4));
+  const canada = toIsoDate(digits.substring(0, 4), digits.substring(4, 6), digits.substring(6, 8));
+  return country === 'CAN' ? (canada ?? us) : (us ?? canada);
+}
+
+/**
+ * Age in whole years on a date (today by default) for a YYYY-MM-DD date of birth, or null if the date is
+ * invalid. People born on February 29 turn a year older on March 1 in common years.
+ */
+export function calculateAge(dateOfBirth: string, on: Date = new Date()): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dateOfBirth);
+  if (!match) return null;
+  const [year, month, day] = match.slice(1).map(Number);
+
+  let age = on.getFullYear() - year;
+  const monthNow = on.getMonth() + 1;
+  if (monthNow < month || (monthNow === month && on.getDate() < day)) age--;
+  return age;
+}
+
+function scanText(event: ScanEvent): string {
+  const bytes = event.raw?.bytesHex ? hexToBytes(event.raw.bytesHex) : null;
+  return (bytes && bytes.length > 0 && decodeBytes(bytes, 'binary')) || event.data;
+}
+
+function parseHeader(text: string, errors: string[]): AamvaHeader | null {
+  // 'ANSI ' + IIN (6) + version (2) + [jurisdiction version (2), since version 2] + entries (2)
+  const match = /^(?:ANSI |AAMVA)(\d{6})(\d{2})(\d{2})(\d{2})?/.exec(text);
+  if (!match) {
+    errors.push('AAMVA header is malformed');
+    return null;
+  }
+  const version = Number(match[2]);
+  if (version <= 1) {
+    return { issuerId: match[1], version, jurisdictionVersion: null, entries: Number(match[3]) };
+  }
+  if (match[4] === undefined) {
+    errors.push('AAMVA header is malformed');
+    return null;
+  }
+  return { issuerId: match[1], version, jurisdictionVersion: Number(match[3]), entries: Number(match[4]) };
+}
+
+/**
+ * Find a subfile's elements. Offsets are often wrong in the field, so when the declared offset does not
+ * point at the subfile type, the type is searched for after the designators.
+ */
+function locateSubfile(text: string, type: string, offset: number, length: number, searchFrom: number): string | null {
+  let start = text.substring(offset, offset + 2) === type ? offset : -1;
+  if (start === -1) {
+    const found = new RegExp(`${type}(?=[A-Z]{3})`).exec(text.substring(searchFrom));
+    if (!found) return null;
+    start = searchFrom + found.index;
+  }
+
+  const terminator = text.indexOf('\r', start);
+  const end = terminator !== -1 ? terminator : Math.min(text.length, start + length);
+  return text.substring(start + 2, end);
+}
+
+function parseElements(body: string): Record<string, string> {
+  const elements: Record<string, string> = {};
+  body.split(/[\n\r\x1e]/).forEach((line) => {
+    const match = /^([A-Z]{3})(.*)$/.exec(line.trim());
+    if (!match) return;
+    const value = match[2].trim();
+    if (value && !EMPTY_VALUES.includes(value.toUpperCase())) {
+      elements[match[1]] = value;
+    }
+  });
+  return elements;
+}
+
+function applyElements(result: AamvaLicense, elements: Record<string, string>, version: number): void {
+  result.licenseNumber = elements.DAQ;
+  result.jurisdiction = elements.DAJ;
+  result.country = elements.DCG;
+
+  // Version 1 has the full name in DAA ('LAST,FIRST,MIDDLE'); version 2 has given names in DCT
+  const fullName = elements.DAA ? splitNames(elements.DAA) : [];
+  const givenNames = elements.DCT ? splitNames(elements.DCT) : [];
+  result.lastName = elements.DCS ?? elements.DAB ?? fullName[0];
+  result.firstName = elements.DAC ?? givenNames[0] ?? fullName[1];
+  result.middleName = elements.DAD ?? joinNames(givenNames.slice(1)) ?? joinNames(fullName.slice(2));
+  result.suffix = elements.DCU;
+
+  // Version 1 files use CCYYMMDD like Canadian cards
+  const canadian = result.country === 'CAN' || (!result.country && CANADIAN_JURISDICTIONS.includes(elements.DAJ));
+  const dateOrder = version <= 1 || canadian ? 'CAN' : 'USA';
+  result.dateOfBirth = applyDate(result, elements, 'DBB', 'date of birth', dateOrder);
+  result.expiryDate = applyDate(result, elements, 'DBA', 'expiration date', dateOrder);
+  result.issueDate = applyDate(result, elements, 'DBD', 'issue date', dateOrder);
+
+  result.sex = parseSex(elements.DBC);
+
+  const address: AamvaAddress = {
+    street: elements.DAG,
+    street2: elements.DAH,
+    city: elements.DAI,
+    state: elements.DAJ,
+    postalCode: elements.DAK ? normalizePostalCode(elements.DAK) : undefined,
+  };
+  if (Object.values(address).some((value) => value !== undefined)) {
+    result.address = address;
+  }
+
+  if (!result.licenseNumber) result.errors.push('DAQ license number is missing');
+}
+
+function applyDate(
+  result: AamvaLicense,
+  elements: Record<string, string>,
+  id: string,
+  title: string,
+  country: string | undefined
+): string | undefined {
+  if (!elements[id]) return undefined;
+  const date = normalizeAamvaDate(elements[id], country);
+  if (!date) result.errors.push(`${id} ${title} is not a valid date`);
+  return date ?? undefined;
+}
+
+/**
+ * Split a name list on commas, or on spaces when it has no commas
+ */
+function splitNames(value: string): string[] {
+  return value
+    .split(value.includes(',') ? ',' : /\s+/)
+    .map((name) => name.trim())
+    .filter(Boolean);
+}
+
+function joinNames(names: string[]): string | undefined {
+  return names.length > 0 ? names.join(' ') : undefined;
+}
+
+function parseSex(value: string | undefined): AamvaLicense['sex'] {
+  switch (value?.toUpperCase()) {
+    case '1':
+    case 'M':
+      return 'male';
+    case '2':
+    case 'F':
+      return 'female';
+    case '9':
+    case 'X':
+      return 'unspecified';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * US postal codes are padded to 11 characters ('902230000  '); drop the padding and an empty ZIP+4
+ */
+function normalizePostalCode(value: string): string {
+  const code = value.trim();
+  const zip = /^(\d{5})(\d{4})?$/.exec(code);
+  if (!zip) return code;
+  return zip[2] && zip[2] !== '0000' ? `${zip[1]}-${zip[2]}` : zip[1];
+}
+
+function toIsoDate(year: string, month: string, day: string): string | null {
+  const y = Number(year);
+  const m = Number(month);
+  const d = Number(day);
+  if (y < 1900 || m < 1 || m > 12 || d < 1) return null;
+  if (d > new Date(Date.UTC(y, m, 0)).getUTCDate()) return null;
+  return `${year}-${month}-${day}`;
+}
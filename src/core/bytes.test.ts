@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { hexToBytes, detectCharset, decodeBytes, showControlCharacters, decodeScanBytes } from './bytes';
+import { CleverenceEdge } from './client';
+import { MockEdge } from '../testing/mockEdge';
+import type { ScanEvent } from '../types';
+
+function scan(bytesHex: string, data = ''): ScanEvent {
+  return {
+    type: 'scan',
+    id: 'scan-1',
+    timestamp: new Date(),
+    data,
+    symbology: 'datamatrix',
+    source: 'test',
+    vendor: 'test',
+    raw: { bytesHex, symbologyId: 'd', aimId: ']d1', signalStrength: null, scanDurationMs: 10 },
+  };
+}
+
+describe('hexToBytes', () => {
+  it('should convert hex with or without whitespace', () => {
+    expect(hexToBytes('41 42\n43')).toEqual(new Uint8Array([0x41, 0x42, 0x43]));
+    expect(hexToBytes('')).toEqual(new Uint8Array());
+    expect(hexToBytes('4')).toBeNull();
+    expect(hexToBytes('zz')).toBeNull();
+  });
+});
+
+describe('detectCharset', () => {
+  it('should detect UTF-8, Shift-JIS, Windows-1252 and binary data', () => {
+    expect(detectCharset(hexToBytes('48454c4c4f1d3132')!)).toBe('utf-8');
+    expect(detectCharset(new TextEncoder().encode('Grüße'))).toBe('utf-8');
+    // 日本 in Shift-JIS
+    expect(detectCharset(hexToBytes('93fa967b')!)).toBe('shift_jis');
+    // Müller and Café in Windows-1252
+    expect(detectCharset(hexToBytes('4dfc6c6c6572')!)).toBe('windows-1252');
+    expect(detectCharset(hexToBytes('436166e9')!)).toBe('windows-1252');
+    expect(detectCharset(hexToBytes('00ff1081')!)).toBe('binary');
+  });
+});
+
+describe('decodeBytes', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should decode with explicit and detected character sets', () => {
+    expect(decodeBytes(hexToBytes('93fa967b')!)).toBe('日本');
+    expect(decodeBytes(hexToBytes('4dfc6c6c6572')!, 'windows-1252')).toBe('Müller');
+    expect(decodeBytes(hexToBytes('80999f')!, 'windows-1252')).toBe('€™Ÿ');
+    expect(decodeBytes(hexToBytes('00ff')!, 'binary')).toBe('\x00\xff');
+  });
+
+  it('should fall back to raw bytes without a Shift-JIS decoder', () => {
+    vi.stubGlobal('TextDecoder', class extends TextDecoder {
+      constructor(label?: string, options?: TextDecoderOptions) {
+        if (label === 'shift_jis') throw new RangeError(`The "${label}" encoding is not supported`);
+        super(label, options);
+      }
+    });
+
+    expect(decodeBytes(hexToBytes('93fa967b')!)).toBe('\x93\xfa\x96\x7b');
+    expect(decodeScanBytes(scan('93fa967b'))).toMatchObject({ encoding: 'binary', text: '\x93\xfa\x96\x7b' });
+    expect(decodeBytes(hexToBytes('4dc3bc6c6c6572')!)).toBe('Müller');
+  });
+});
+
+describe('showControlCharacters', () => {
+  it('should render control characters by name', () => {
+    expect(showControlCharacters('[)>\x1e06\x1dP123\x1e\x04')).toBe('[)><RS>06<GS>P123<RS><EOT>');
+    expect(showControlCharacters('\x00\x7f\x85é')).toBe('<NUL><DEL><x85>é');
+  });
+});
+
+describe('decodeScanBytes', () => {
+  it('should decode raw scan bytes', () => {
+    const decoded = decodeScanBytes(scan('5b293e1e30361d50313233'));
+
+    expect(decoded).toMatchObject({ encoding: 'utf-8', text: '[)>\x1e06\x1dP123', display: '[)><RS>06<GS>P123' });
+    expect(decoded?.bytes).toBeInstanceOf(Uint8Array);
+    expect(decodeScanBytes(scan(''))).toBeNull();
+  });
+
+  it('should replace data with client-decoded text when enabled', async () => {
+    const mock = new MockEdge();
+    const edge = new CleverenceEdge({ autoConnect: false, transport: mock.transport, clientDecoding: 'auto' });
+    await edge.connect();
+    const scanPromise = edge.waitForScan();
+
+    mock.scan('??', {
+      raw: { bytesHex: '93fa967b', symbologyId: 'Q', aimId: ']Q1', signalStrength: null, scanDurationMs: 10 },
+    });
+
+    await expect(scanPromise).resolves.toMatchObject({ data: '日本', encoding: 'shift_jis' });
+    edge.disconnect();
+  });
+});
@@ -0,0 +1,143 @@
+import type { DecodedBytes, ScanCharset, ScanEncoding, ScanEvent } from '../types';
+
+const CONTROL_NAMES = [
+  'NUL', 'SOH', 'STX', 'ETX', 'EOT', 'ENQ', 'ACK', 'BEL', 'BS', 'HT', 'LF', 'VT', 'FF', 'CR', 'SO', 'SI',
+  'DLE', 'DC1', 'DC2', 'DC3', 'DC4', 'NAK', 'SYN', 'ETB', 'CAN', 'EM', 'SUB', 'ESC', 'FS', 'GS', 'RS', 'US',
+];
+
+/**
+ * Control characters that appear in text barcodes: tab, line breaks, ESC (ECI and macro sequences) and the
+ * EOT/FS/GS/RS/US separators of ISO 15434 and GS1 data. Any other control character marks binary data.
+ */
+const TEXT_CONTROLS = new Set([0x04, 0x09, 0x0a, 0x0d, 0x1b, 0x1c, 0x1d, 0x1e, 0x1f]);
+
+/** Bytes Windows-1252 leaves undefined */
+const WINDOWS_1252_UNDEFINED = new Set([0x81, 0x8d, 0x8f, 0x90, 0x9d]);
+
+/**
+ * Windows-1252 characters for 0x80-0x9F (undefined bytes keep their value). Mapped here because some
+ * TextDecoder implementations treat 'windows-1252' as ISO-8859-1.
+ */
+const WINDOWS_1252_HIGH =
+  '\u20ac\x81\u201a\u0192\u201e\u2026\u2020\u2021\u02c6\u2030\u0160\u2039\u0152\x8d\u017d\x8f' +
+  '\x90\u2018\u2019\u201c\u201d\u2022\u2013\u2014\u02dc\u2122\u0161\u203a\u0153\x9d\u017e\u0178';
+
+/**
+ * Convert a hex string (whitespace allowed) to bytes, or return null if it is not valid hex
+ */
+export function hexToBytes(hex: string): Uint8Array | null {
+  const clean = hex.replace(/\s+/g, '');
+  if (!/^([0-9a-fA-F]{2})*$/.test(clean)) return null;
+
+  const bytes = new Uint8Array(clean.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(clean.substring(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Guess the character set of scan bytes: binary if they contain control characters text barcodes
+ * do not use, otherwise UTF-8, Shift-JIS or Windows-1252, whichever the bytes are valid in first
+ */
+export function detectCharset(bytes: Uint8Array): ScanCharset {
+  let highBytes = false;
+  for (const byte of bytes) {
+    if ((byte < 0x20 && !TEXT_CONTROLS.has(byte)) || byte === 0x7f) return 'binary';
+    if (byte >= 0x80) highBytes = true;
+  }
+
+  if (!highBytes || isUtf8(bytes)) return 'utf-8';
+  if (isShiftJis(bytes)) return 'shift_jis';
+  return bytes.some((byte) => WINDOWS_1252_UNDEFINED.has(byte)) ? 'binary' : 'windows-1252';
+}
+
+/**
+ * Decode bytes with a character set, detecting it with 'auto'
+ */
+export function decodeBytes(bytes: Uint8Array, encoding: ScanEncoding = 'auto'): string {
+  const charset = encoding === 'auto' ? detectCharset(bytes) : encoding;
+  const decoder = charset === 'binary' || charset === 'windows-1252' ? null : createDecoder(charset);
+  if (decoder) {
+    return decoder.decode(bytes);
+  }
+
+  // Also used when the runtime cannot decode the charset: one character per byte
+  let text = '';
+  bytes.forEach((byte) => {
+    text += charset === 'windows-1252' && byte >= 0x80 && byte <= 0x9f
+      ? WINDOWS_1252_HIGH[byte - 0x80]
+      : String.fromCharCode(byte);
+  });
+  return text;
+}
+
+/**
+ * Show control characters as their names in angle brackets, e.g. `[)>\x1e06\x1d...` as `[)><RS>06<GS>...`.
+ * DEL is shown as `<DEL>` and C1 controls as their hex value, e.g. `<x85>`.
+ */
+export function showControlCharacters(text: string): string {
+  return text.replace(/[\x00-\x1f\x7f-\x9f]/g, (char) => {
+    const code = char.charCodeAt(0);
+    if (code < 0x20) return `<${CONTROL_NAMES[code]}>`;
+    if (code === 0x7f) return '<DEL>';
+    return `<x${code.toString(16).toUpperCase()}>`;
+  });
+}
+
+/**
+ * Decode the raw bytes of a scan (`raw.bytesHex`), or return null if it carries none
+ */
+export function decodeScanBytes(event: ScanEvent, encoding: ScanEncoding = 'auto'): DecodedBytes | null {
+  const bytes = event.raw?.bytesHex ? hexToBytes(event.raw.bytesHex) : null;
+  if (!bytes || bytes.length === 0) return null;
+
+  const detected = encoding === 'auto' ? detectCharset(bytes) : encoding;
+  // Without a decoder for the charset the text is the raw bytes, so report it as binary
+  const decodable = detected === 'binary' || detected === 'windows-1252' || createDecoder(detected) !== null;
+  const charset = decodable ? detected : 'binary';
+  const text = decodeBytes(bytes, charset);
+  return { bytes, encoding: charset, text, display: showControlCharacters(text) };
+}
+
+/**
+ * TextDecoder for a charset, or null when the runtime does not support it (e.g. Shift-JIS in Node
+ * builds with small ICU, where the constructor throws a RangeError)
+ */
+function createDecoder(charset: string): TextDecoder | null {
+  try {
+    return new TextDecoder(charset);
+  } catch {
+    return null;
+  }
+}
+
+function isUtf8(bytes: Uint8Array): boolean {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether every byte above ASCII is half-width katakana or part of a valid double-byte character, and
+ * some high bytes are adjacent. Windows-1252 text such as 'Müller' can form valid pairs too, but its
+ * accented letters rarely follow each other.
+ */
+function isShiftJis(bytes: Uint8Array): boolean {
+  let adjacentHighBytes = false;
+  for (let i = 0; i < bytes.length; i++) {
+    const byte = bytes[i];
+    if (byte < 0x80) continue;
+    if (bytes[i + 1] >= 0x80) adjacentHighBytes = true;
+    if (byte >= 0xa1 && byte <= 0xdf) continue;
+
+    const lead = (byte >= 0x81 && byte <= 0x9f) || (byte >= 0xe0 && byte <= 0xef);
+    const trail = bytes[i + 1];
+    if (!lead || trail === undefined || trail < 0x40 || trail === 0x7f || trail > 0xfc) return false;
+    i++;
+  }
+  return adjacentHighBytes;
+}
@@ -1,5 +1,12 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { CleverenceEdge } from './client';
+import {
+  EdgeServerError,
+  ListenerError,
+  NotConnectedError,
+  RequestTimeoutError,
+  UnsupportedCapabilityError,
+} from './errors';
 
 // Mock WebSocket
 class MockWebSocket {
@@ -60,6 +67,78 @@ class MockWebSocket {
         });
       }, 5);
     }
+    if (msg.type === 'resume') {
+      setTimeout(() => {
+        mockReplay.forEach((message) => this.emit('message', { data: JSON.stringify(message) }));
+        this.emit('message', {
+          data: JSON.stringify({
+            type: 'response',
+            id: msg.id,
+            success: true,
+            data: { resume: true, result: { replayed: mockReplay.length, reset: false } },
+          }),
+        });
+      }, 5);
+    }
+    if (msg.type === 'pair') {
+      setTimeout(() => {
+        this.emit('message', {
+          data: JSON.stringify({
+            type: 'response',
+            id: msg.id,
+            success: true,
+            data: { pair: true, result: { token: `token-for-${msg.code}` } },
+          }),
+        });
+      }, 5);
+    }
+    if (msg.type === 'hello') {
+      mockHellos.push(msg);
+      setTimeout(() => {
+        this.emit('message', {
+          data: JSON.stringify({
+            type: 'response',
+            id: msg.id,
+            success: true,
+            data: {
+              hello: true,
+              result: {
+                authenticated: true,
+                protocolVersion: 2,
+                features: ['command_ack', 'resume', 'auth', 'pairing'],
+              },
+            },
+          }),
+        });
+      }, 5);
+    }
+    if (msg.type === 'command') {
+      setTimeout(() => {
+        if (msg.command === 'set_symbologies' && msg.symbologies.includes('unsupported')) {
+          this.emit('message', {
+            data: JSON.stringify({
+              type: 'response',
+              id: msg.id,
+              success: false,
+              error: 'Symbology not supported: unsupported',
+              code: 'unsupported_symbology',
+            }),
+          });
+          return;
+        }
+        this.emit('message', {
+          data: JSON.stringify({
+            type: 'response',
+            id: msg.id,
+            success: true,
+            data: {
+              command: msg.command,
+              result: getMockCommandResult(msg.command, msg),
+            },
+          }),
+        });
+      }, 5);
+    }
   }
 
   close() {
@@ -95,7 +174,13 @@ function getMockResult(query: string): unknown {
           canToggleSymbologies: true,
           supportedSymbologies: ['ean13', 'qrcode'],
         },
-        rfid: null,
+        rfid: {
+          type: 'sled',
+          canToggle: true,
+          canConfigurePower: true,
+          canConfigureSession: true,
+          supportedMemoryBanks: ['epc', 'tid'],
+        },
         nfc: null,
       };
     case 'status':
@@ -118,10 +203,54 @@ function getMockResult(query: string): unknown {
   }
 }
 
+function getMockCommandResult(command: string, msg: { symbologies?: string[] }): unknown {
+  switch (command) {
+    case 'set_symbologies':
+      return { enabledSymbologies: msg.symbologies };
+    case 'start_rfid_inventory':
+      return { inventorySession: 'session-1' };
+    case 'stop_rfid_inventory':
+      return { tagCount: 12 };
+    default:
+      return undefined;
+  }
+}
+
+function scanMessage(seq: number, data = `code-${seq}`) {
+  return {
+    type: 'event',
+    event: {
+      type: 'scan',
+      id: `scan-${seq}`,
+      seq,
+      timestamp: '2024-01-15T10:30:00Z',
+      data,
+      symbology: 'code128',
+      source: 'integrated-laser',
+      vendor: 'zebra',
+    },
+  };
+}
+
+function rfidEvent(epc: string) {
+  return {
+    type: 'rfid',
+    id: `rfid-${epc}`,
+    timestamp: '2024-01-15T10:30:00Z',
+    epc,
+    rssi: -45,
+    antenna: 1,
+  };
+}
+
 let mockInstance: MockWebSocket | null = null;
+let mockReplay: unknown[] = [];
+let mockHellos: Array<{ apiKey?: string; token?: string }> = [];
 
 beforeEach(() => {
   mockInstance = null;
+  mockReplay = [];
+  mockHellos = [];
   vi.stubGlobal('WebSocket', class extends MockWebSocket {
     constructor(url: string) {
       super(url);
@@ -207,6 +336,36 @@ describe('CleverenceEdge', () => {
     edge.disconnect();
   });
 
+  it('should route listener errors to the error event when configured', async () => {
+    const errorHandler = vi.fn();
+    const edge = new CleverenceEdge({ autoConnect: false, listenerErrors: 'emit' });
+
+    edge.on('scan', () => {
+      throw new Error('Render failed');
+    });
+    edge.on('error', errorHandler);
+
+    await edge.connect();
+    mockInstance?.simulateMessage({
+      type: 'event',
+      event: {
+        type: 'scan',
+        id: 'scan-123',
+        timestamp: '2024-01-15T10:30:00Z',
+        data: '012345678905',
+        symbology: 'ean13',
+        source: 'integrated-laser',
+        vendor: 'zebra',
+      },
+    });
+
+    expect(errorHandler).toHaveBeenCalledTimes(1);
+    expect(errorHandler.mock.calls[0][0]).toBeInstanceOf(ListenerError);
+    expect(errorHandler.mock.calls[0][0]).toMatchObject({ event: 'scan', code: 'listener_error' });
+
+    edge.disconnect();
+  });
+
   it('should emit rfid events', async () => {
     const rfidHandler = vi.fn();
     const edge = new CleverenceEdge({ autoConnect: false });
@@ -238,6 +397,120 @@ describe('CleverenceEdge', () => {
     edge.disconnect();
   });
 
+  it('should emit per-tag and batched events for rfid batches', async () => {
+    const rfidHandler = vi.fn();
+    const batchHandler = vi.fn();
+    const edge = new CleverenceEdge({ autoConnect: false });
+    edge.on('rfid', rfidHandler);
+    edge.on('rfidBatch', batchHandler);
+
+    await edge.connect();
+    mockInstance?.simulateMessage({ type: 'rfid_batch', events: [rfidEvent('A'), rfidEvent('B')] });
+
+    expect(rfidHandler).toHaveBeenCalledTimes(2);
+    expect(batchHandler).toHaveBeenCalledTimes(1);
+    expect(batchHandler.mock.calls[0][0].map((event: { epc: string }) => event.epc)).toEqual(['A', 'B']);
+    expect(batchHandler.mock.calls[0][0][0].timestamp).toBeInstanceOf(Date);
+
+    edge.disconnect();
+  });
+
+  it('should coalesce rfid reads within the batch window', async () => {
+    const batchHandler = vi.fn();
+    const edge = new CleverenceEdge({ autoConnect: false, rfidBatchWindow: 20 });
+    edge.on('rfidBatch', batchHandler);
+
+    await edge.connect();
+    mockInstance?.simulateMessage({ type: 'event', event: rfidEvent('A') });
+    mockInstance?.simulateMessage({ type: 'event', event: rfidEvent('B') });
+    mockInstance?.simulateMessage({ type: 'rfid_batch', events: [rfidEvent('C')] });
+    expect(batchHandler).not.toHaveBeenCalled();
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(batchHandler).toHaveBeenCalledTimes(1);
+    expect(batchHandler.mock.calls[0][0]).toHaveLength(3);
+
+    edge.disconnect();
+  });
+
+  it('should track sequence numbers and report gaps', async () => {
+    const scanHandler = vi.fn();
+    const gapHandler = vi.fn();
+    const edge = new CleverenceEdge({ autoConnect: false });
+    edge.on('scan', scanHandler);
+    edge.on('gap', gapHandler);
+    
+    await edge.connect();
+    
+    mockInstance?.simulateMessage(scanMessage(1));
+    mockInstance?.simulateMessage(scanMessage(1));
+    mockInstance?.simulateMessage(scanMessage(4));
+    
+    expect(scanHandler).toHaveBeenCalledTimes(2);
+    expect(gapHandler).toHaveBeenCalledWith({ fromSeq: 2, toSeq: 3 });
+    expect(edge.lastSequence).toBe(4);
+    
+    edge.disconnect();
+  });
+
+  it('should resume and replay missed events after reconnect', async () => {
+    const scanHandler = vi.fn();
+    const gapHandler = vi.fn();
+    const edge = new CleverenceEdge({ autoConnect: false, reconnectDelay: 10 });
+    edge.on('scan', scanHandler);
+    edge.on('gap', gapHandler);
+    
+    await edge.connect();
+    mockInstance?.simulateMessage(scanMessage(1));
+    
+    mockReplay = [{ type: 'gap', fromSeq: 2, toSeq: 2 }, scanMessage(3), scanMessage(4)];
+    const firstSocket = mockInstance;
+    mockInstance!.close();
+    
+    // Wait for the reconnect and the resume handshake
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(mockInstance).not.toBe(firstSocket);
+    
+    expect(gapHandler).toHaveBeenCalledWith({ fromSeq: 2, toSeq: 2 });
+    expect(gapHandler).toHaveBeenCalledTimes(1);
+    expect(scanHandler.mock.calls.map((call) => call[0].seq)).toEqual([1, 3, 4]);
+    expect(edge.lastSequence).toBe(4);
+    
+    edge.disconnect();
+  });
+
+  it('should start the sequence over when the service run changes', async () => {
+    const scanHandler = vi.fn();
+    const gapHandler = vi.fn();
+    const edge = new CleverenceEdge({ autoConnect: false, reconnectDelay: 10 });
+    edge.on('scan', scanHandler);
+    edge.on('gap', gapHandler);
+    
+    const runScan = (seq: number, epoch: string, data?: string) => {
+      const message = scanMessage(seq, data);
+      return { ...message, event: { ...message.event, epoch } };
+    };
+    
+    await edge.connect();
+    mockInstance?.simulateMessage(runScan(1, 'run-1'));
+    mockInstance?.simulateMessage(runScan(2, 'run-1'));
+    mockInstance?.simulateMessage(runScan(1, 'run-2', 'fresh'));
+    
+    expect(scanHandler.mock.calls.map((call) => call[0].data)).toEqual(['code-1', 'code-2', 'fresh']);
+    expect(gapHandler).not.toHaveBeenCalled();
+    expect(edge.lastSequence).toBe(1);
+    
+    // The resume names the run the sequence number belongs to
+    const sendSpy = vi.spyOn(MockWebSocket.prototype, 'send');
+    mockInstance!.close();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const resume = sendSpy.mock.calls.map((call) => JSON.parse(call[0])).find((msg) => msg.type === 'resume');
+    expect(resume).toMatchObject({ lastSeq: 1, epoch: 'run-2' });
+    
+    sendSpy.mockRestore();
+    edge.disconnect();
+  });
+
   it('should fetch capabilities', async () => {
     const edge = new CleverenceEdge({ autoConnect: false });
     
@@ -269,11 +542,129 @@ describe('CleverenceEdge', () => {
     edge.disconnect();
   });
 
+  it('should resolve commands when acknowledged', async () => {
+    const edge = new CleverenceEdge({ autoConnect: false });
+    
+    await edge.connect();
+    
+    await expect(edge.triggerScan()).resolves.toBeUndefined();
+    await expect(edge.startRfidInventory()).resolves.toEqual({ inventorySession: 'session-1' });
+    await expect(edge.stopRfidInventory()).resolves.toEqual({ tagCount: 12 });
+    await expect(edge.setSymbologies(['ean13'])).resolves.toEqual({ enabledSymbologies: ['ean13'] });
+    
+    edge.disconnect();
+  });
+
+  it('should reject commands the Edge service refuses', async () => {
+    const edge = new CleverenceEdge({ autoConnect: false });
+    
+    await edge.connect();
+    
+    const result = edge.setSymbologies(['unsupported']);
+    await expect(result).rejects.toThrow('Symbology not supported');
+    await expect(result).rejects.toBeInstanceOf(EdgeServerError);
+    await expect(result).rejects.toMatchObject({ code: 'unsupported_symbology' });
+    
+    edge.disconnect();
+  });
+
+  it('should reject commands the reported capabilities rule out', async () => {
+    const edge = new CleverenceEdge({ autoConnect: false });
+    
+    await edge.connect();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    mockInstance?.simulateMessage({
+      type: 'capabilities',
+      data: { ...getMockResult('capabilities') as object, rfid: null },
+    });
+    
+    const result = edge.startRfidInventory();
+    await expect(result).rejects.toBeInstanceOf(UnsupportedCapabilityError);
+    await expect(result).rejects.toMatchObject({ capability: 'rfid' });
+    
+    edge.disconnect();
+  });
+
+  it('should report server errors with their code', async () => {
+    const errorHandler = vi.fn();
+    const edge = new CleverenceEdge({ autoConnect: false });
+    edge.on('error', errorHandler);
+    
+    await edge.connect();
+    mockInstance?.simulateMessage({ type: 'error', message: 'Scanner busy', code: 'scanner_busy' });
+    
+    expect(errorHandler.mock.calls[0][0]).toBeInstanceOf(EdgeServerError);
+    expect(errorHandler.mock.calls[0][0]).toMatchObject({ message: 'Scanner busy', code: 'scanner_busy' });
+    
+    edge.disconnect();
+  });
+
+  it('should reject commands that are not acknowledged in time', async () => {
+    const edge = new CleverenceEdge({ autoConnect: false, commandTimeout: 20 });
+    
+    await edge.connect();
+    mockInstance!.send = () => {};
+    
+    const result = edge.triggerScan();
+    await expect(result).rejects.toThrow('Command timeout: trigger_scan');
+    await expect(result).rejects.toBeInstanceOf(RequestTimeoutError);
+    
+    edge.disconnect();
+  });
+
+  it('should queue commands while reconnecting when enabled', async () => {
+    const queuedHandler = vi.fn();
+    const edge = new CleverenceEdge({ autoConnect: false, queueCommands: true, reconnectDelay: 10 });
+    edge.on('commandQueued', queuedHandler);
+    
+    await edge.connect();
+    mockInstance!.close();
+    expect(edge.connectionState).toBe('reconnecting');
+    
+    const result = edge.startRfidInventory();
+    expect(queuedHandler).toHaveBeenCalledWith(expect.objectContaining({ command: 'start_rfid_inventory' }));
+    
+    await expect(result).resolves.toEqual({ inventorySession: 'session-1' });
+    
+    edge.disconnect();
+  });
+
+  it('should pair and present the token on reconnect', async () => {
+    const edge = new CleverenceEdge({ autoConnect: false, apiKey: 'app-key', reconnectDelay: 10 });
+    
+    await edge.connect();
+    expect(mockHellos).toHaveLength(1);
+    expect(mockHellos[0]).toMatchObject({ type: 'hello', apiKey: 'app-key' });
+    expect(mockHellos[0]).not.toHaveProperty('token');
+    
+    await expect(edge.pair('123456', 'dock-4')).resolves.toBe('token-for-123456');
+    
+    mockInstance!.close();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    
+    expect(edge.isConnected).toBe(true);
+    expect(mockHellos[1]).toMatchObject({ apiKey: 'app-key', token: 'token-for-123456' });
+    
+    edge.disconnect();
+  });
+
   it('should throw when calling methods while disconnected', async () => {
     const edge = new CleverenceEdge({ autoConnect: false });
     
     await expect(edge.triggerScan()).rejects.toThrow('Not connected');
-    await expect(edge.getStatus()).rejects.toThrow('Not connected');
+    await expect(edge.getStatus()).rejects.toBeInstanceOf(NotConnectedError);
+  });
+
+  it('should expose negotiated protocol features', async () => {
+    const edge = new CleverenceEdge({ autoConnect: false });
+    
+    await edge.connect();
+    
+    expect(edge.protocol).toMatchObject({ version: 2, legacy: false });
+    expect(edge.supportsFeature('command_ack')).toBe(true);
+    
+    edge.disconnect();
+    expect(edge.protocol).toBeNull();
   });
 
   it('should use static create factory', () => {
@@ -1,16 +1,41 @@
 import { EventEmitter } from './events';
 import { WebSocketManager } from './websocket';
+import { discover, type DiscoverOptions, type DiscoveredEdge } from './discovery';
+import { EdgeServerError, ListenerError, NotConnectedError, UnsupportedCapabilityError } from './errors';
+import { RfidThrottle } from './throttle';
+import { ScanDeduplicator } from './dedup';
+import { ScanRouter } from './router';
+import { parseGs1Scan } from './gs1';
+import { decodeScanBytes } from './bytes';
+import { normalizeSymbology, resolveSymbology, validateBarcode } from './symbology';
+import { MiddlewareChain, type EdgeMiddleware, type MiddlewareOptions, type MiddlewareTiming } from './middleware';
+import { eventStream, waitForEvent, type EventStreamOptions, type WaitForEventOptions } from './streams';
 import type {
   ScanEvent,
   RfidEvent,
+  EdgeEvent,
+  SequenceGap,
   DeviceCapabilities,
   EdgeStatus,
   EdgeConfig,
   RfidInventoryOptions,
   RfidTag,
+  RfidThrottleStats,
+  ScanDedupOptions,
+  DuplicateScan,
   ConnectionState,
   EdgeOptions,
+  ResolvedEdgeOptions,
+  AuthCredentials,
+  ProtocolFeature,
+  ProtocolInfo,
   ServerMessage,
+  CommandResults,
+  CommandRequest,
+  CommandOptions,
+  QueuedCommandInfo,
+  DroppedCommandInfo,
+  Symbology,
 } from '../types';
 import { DEFAULT_OPTIONS } from '../types';
 
@@ -20,11 +45,18 @@ import { DEFAULT_OPTIONS } from '../types';
 interface CleverenceEdgeEvents {
   scan: ScanEvent;
   rfid: RfidEvent;
+  rfidBatch: RfidEvent[];
+  duplicate: DuplicateScan;
   connect: void;
   disconnect: void;
   reconnecting: void;
   error: Error;
   capabilities: DeviceCapabilities;
+  gap: SequenceGap;
+  latency: number;
+  commandQueued: QueuedCommandInfo;
+  commandFlushed: QueuedCommandInfo;
+  commandDropped: DroppedCommandInfo;
 }
 
 /**
@@ -49,8 +81,21 @@ interface CleverenceEdgeEvents {
  */
 export class CleverenceEdge extends EventEmitter<CleverenceEdgeEvents> {
   private ws: WebSocketManager;
-  private options: Required<EdgeOptions>;
+  private options: ResolvedEdgeOptions;
+  private middleware = new MiddlewareChain((error) => this.emit('error', error));
+  private rfidThrottle: RfidThrottle | null = null;
+  private scanDedup: ScanDeduplicator | null = null;
+  private _router: ScanRouter | null = null;
   private _capabilities: DeviceCapabilities | null = null;
+  private _lastSequence: number | null = null;
+  /** URL of the connection `_lastSequence` came from */
+  private sequenceUrl: string | null = null;
+  /** Service run `_lastSequence` belongs to (null when the service does not report one) */
+  private sequenceEpoch: string | null = null;
+  private pendingRfidBatch: RfidEvent[] = [];
+  private rfidBatchScheduled = false;
+  /** Events held back while a resume handshake is in flight (null when not resuming) */
+  private resumeBuffer: ServerMessage[] | null = null;
 
   constructor(options: EdgeOptions = {}) {
     super();
@@ -60,10 +105,37 @@ export class CleverenceEdge extends EventEmitter<CleverenceEdgeEvents> {
       reconnectDelay: this.options.reconnectDelay,
       maxReconnectDelay: this.options.maxReconnectDelay,
       pingInterval: this.options.pingInterval,
+      pongTimeout: this.options.pongTimeout,
+      queueCommands: this.options.queueCommands,
+      queueMaxSize: this.options.commandQueueSize,
+      queueTtl: this.options.commandQueueTtl,
+      transport: this.options.transport,
+      credentials: this.getCredentials(),
+      handshakeTimeout: this.options.handshakeTimeout,
+      requiredFeatures: this.options.requiredFeatures,
+      endpointStrategy: this.options.endpointStrategy,
+      validation: this.options.validation,
     });
 
+    if (this.options.rfidThrottle) {
+      this.rfidThrottle = new RfidThrottle(this.options.rfidThrottle, (events) =>
+        this.middleware.run(events, (delivered) => this.deliverEvents(delivered))
+      );
+    }
+
+    if (this.options.scanDedup) {
+      this.scanDedup = new ScanDeduplicator(this.options.scanDedup);
+    }
+
     this.setupWebSocketHandlers();
 
+    if (this.options.listenerErrors === 'emit') {
+      this.setListenerErrorHandler((error, event) => {
+        if (event === 'error') throw error; // Falls back to console.error instead of looping
+        this.emit('error', new ListenerError(String(event), error));
+      });
+    }
+
     if (this.options.autoConnect) {
       // Auto-connect on next tick to allow event handlers to be set up
       setTimeout(() => this.connect().catch(() => {}), 0);
@@ -84,6 +156,13 @@ export class CleverenceEdge extends EventEmitter<CleverenceEdgeEvents> {
     return this.ws.isConnected;
   }
 
+  /**
+   * URL of the Edge service currently in use (or last reached)
+   */
+  get url(): string {
+    return this.ws.url;
+  }
+
   /**
    * Cached device capabilities (available after connect)
    */
@@ -91,6 +170,65 @@ export class CleverenceEdge extends EventEmitter<CleverenceEdgeEvents> {
     return this._capabilities;
   }
 
+  /**
+   * Last measured round-trip time to the Edge service in ms (null until measured)
+   */
+  get latency(): number | null {
+    return this.ws.latency;
+  }
+
+  /**
+   * Protocol negotiated with the Edge service (null while not connected)
+   */
+  get protocol(): ProtocolInfo | null {
+    return this.ws.protocol;
+  }
+
+  /**
+   * Whether the connected Edge service supports an optional protocol feature
+   *
+   * @example
+   * ```typescript
+   * if (edge.supportsFeature('resume')) {
+   *   // missed events are replayed after reconnect
+   * }
+   * ```
+   */
+  supportsFeature(feature: ProtocolFeature): boolean {
+    return this.ws.supportsFeature(feature);
+  }
+
+  /**
+   * Sequence number of the last event received, used to resume after reconnect
+   */
+  get lastSequence(): number | null {
+    return this._lastSequence;
+  }
+
+  /**
+   * Received, emitted, dropped and held RFID reads (null unless `rfidThrottle` is set)
+   */
+  get rfidThrottleStats(): RfidThrottleStats | null {
+    return this.rfidThrottle?.stats ?? null;
+  }
+
+  /**
+   * Scan router fed by this client's `scan` events, created on first use
+   */
+  get router(): ScanRouter {
+    if (!this._router) {
+      this._router = new ScanRouter(this);
+    }
+    return this._router;
+  }
+
+  /**
+   * Replace the client-side deduplication policy (null turns it off). Previous scans are forgotten.
+   */
+  setScanDedup(options: ScanDedupOptions | null): void {
+    this.scanDedup = options ? new ScanDeduplicator(options) : null;
+  }
+
   /**
    * Connect to the Edge service
    */
@@ -103,6 +241,42 @@ export class CleverenceEdge extends EventEmitter<CleverenceEdgeEvents> {
    */
   disconnect(): void {
     this.ws.disconnect();
+    // Deliver reads that were still held by the throttle or waiting for their batch window
+    this.rfidThrottle?.flush();
+    this.flushRfidBatch();
+  }
+
+  /**
+   * Pair this client with the Edge service using a one-time code shown on the device.
+   * Resolves with a persistent token; store it and pass it as `options.token` next time.
+   * The token is also used for reconnects of this instance.
+   */
+  async pair(code: string, clientName?: string): Promise<string> {
+    this.ensureConnected();
+    const { token } = await this.ws.pair(code, clientName, this.options.commandTimeout);
+    this.options.token = token;
+    this.ws.setCredentials(this.getCredentials());
+    return token;
+  }
+
+  /**
+   * Add a middleware that runs on every scan and RFID event before it is emitted.
+   * Middlewares run in registration order and can drop (return null), transform, delay (return a
+   * promise) or enrich events. Returns a function that removes the middleware.
+   *
+   * @example
+   * ```typescript
+   * edge.use((event) => (event.type === 'scan' ? { ...event, data: event.data.replace(/^]C1/, '') } : event));
+   * edge.use((event) => ({ ...event, meta: { ...event.meta, step: workflow.step } }), { name: 'workflow' });
+   * ```
+   */
+  use(middleware: EdgeMiddleware, options?: MiddlewareOptions): () => void {
+    return this.middleware.use(middleware, options);
+  }
+
+  /** Calls, drops, errors and time spent per middleware, in execution order */
+  get middlewareTimings(): MiddlewareTiming[] {
+    return this.middleware.timings;
   }
 
   // ─────────────────────────────────────────────────────────────────────────────
@@ -110,35 +284,45 @@ export class CleverenceEdge extends EventEmitter<CleverenceEdgeEvents> {
   // ─────────────────────────────────────────────────────────────────────────────
 
   /**
-   * Trigger a barcode scan programmatically
+   * Trigger a barcode scan programmatically.
+   * Resolves once the Edge service acknowledges the trigger.
    */
-  async triggerScan(): Promise<void> {
-    this.ensureConnected();
-    this.ws.command({ type: 'command', command: 'trigger_scan' });
+  async triggerScan(options?: CommandOptions): Promise<void> {
+    await this.sendCommand({ type: 'command', command: 'trigger_scan' }, options);
   }
 
   /**
-   * Set enabled barcode symbologies
+   * Set enabled barcode symbologies.
+   * Vendor names the registry knows are sent as canonical names (e.g. 'EAN-13' as 'ean13').
+   * Rejects if the scanner does not accept the requested symbologies.
    */
-  async setSymbologies(symbologies: string[]): Promise<void> {
-    this.ensureConnected();
-    this.ws.command({ type: 'command', command: 'set_symbologies', symbologies });
+  async setSymbologies(
+    symbologies: Array<Symbology | (string & {})>,
+    options?: CommandOptions
+  ): Promise<CommandResults['set_symbologies']> {
+    const names = symbologies.map((name) => normalizeSymbology(name) ?? name);
+    return this.sendCommand({ type: 'command', command: 'set_symbologies', symbologies: names }, options);
   }
 
   /**
-   * Start RFID inventory (continuous reading)
+   * Start RFID inventory (continuous reading).
+   * Resolves once the reader has actually started the inventory.
    */
-  async startRfidInventory(options?: RfidInventoryOptions): Promise<void> {
-    this.ensureConnected();
-    this.ws.command({ type: 'command', command: 'start_rfid_inventory', options });
+  async startRfidInventory(
+    inventoryOptions?: RfidInventoryOptions,
+    options?: CommandOptions
+  ): Promise<CommandResults['start_rfid_inventory']> {
+    return this.sendCommand(
+      { type: 'command', command: 'start_rfid_inventory', options: inventoryOptions },
+      options
+    );
   }
 
   /**
    * Stop RFID inventory
    */
-  async stopRfidInventory(): Promise<void> {
-    this.ensureConnected();
-    this.ws.command({ type: 'command', command: 'stop_rfid_inventory' });
+  async stopRfidInventory(options?: CommandOptions): Promise<CommandResults['stop_rfid_inventory']> {
+    return this.sendCommand({ type: 'command', command: 'stop_rfid_inventory' }, options);
   }
 
   // ─────────────────────────────────────────────────────────────────────────────
@@ -178,7 +362,44 @@ export class CleverenceEdge extends EventEmitter<CleverenceEdgeEvents> {
   }
 
   // ─────────────────────────────────────────────────────────────────────────────
-  // Static factory
+  // Streams
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Iterate over scans as they arrive.
+   *
+   * @example
+   * ```typescript
+   * for await (const scan of edge.scans({ signal })) {
+   *   await handle(scan);
+   * }
+   * ```
+   */
+  scans(options?: EventStreamOptions): AsyncIterableIterator<ScanEvent> {
+    return eventStream((listener) => this.subscribe('scan', listener), options);
+  }
+
+  /**
+   * Iterate over RFID reads as they arrive
+   */
+  rfidReads(options?: EventStreamOptions): AsyncIterableIterator<RfidEvent> {
+    return eventStream((listener) => this.subscribe('rfid', listener), options);
+  }
+
+  /**
+   * Wait for the next scan, optionally one that matches a predicate.
+   *
+   * @example
+   * ```typescript
+   * const location = await edge.waitForScan({ predicate: isLocationLabel, timeoutMs: 30000 });
+   * ```
+   */
+  waitForScan(options?: WaitForEventOptions<ScanEvent>): Promise<ScanEvent> {
+    return waitForEvent((listener) => this.subscribe('scan', listener), 'waitForScan', options);
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Static helpers
   // ─────────────────────────────────────────────────────────────────────────────
 
   /**
@@ -188,12 +409,26 @@ export class CleverenceEdge extends EventEmitter<CleverenceEdgeEvents> {
     return new CleverenceEdge(options);
   }
 
+  /**
+   * Scan local ports for running Edge services and report their capabilities
+   */
+  static discover(options?: DiscoverOptions): Promise<DiscoveredEdge[]> {
+    return discover(options);
+  }
+
   // ─────────────────────────────────────────────────────────────────────────────
   // Private methods
   // ─────────────────────────────────────────────────────────────────────────────
 
   private setupWebSocketHandlers(): void {
     this.ws.on('open', () => {
+      // Sequence numbers only carry over when the same service can resume the stream
+      if (this._lastSequence !== null && this.sequenceUrl === this.ws.url && this.ws.supportsFeature('resume')) {
+        this.resumeStream(this._lastSequence);
+      } else {
+        this.resetSequence();
+      }
+      this.sequenceUrl = this.ws.url;
       this.emit('connect', undefined);
       // Fetch capabilities on connect
       this.getCapabilities()
@@ -221,42 +456,292 @@ export class CleverenceEdge extends EventEmitter<CleverenceEdgeEvents> {
     this.ws.on('message', (message) => {
       this.handleServerMessage(message);
     });
+
+    this.ws.on('latency', (latency) => {
+      this.emit('latency', latency);
+    });
+
+    this.ws.on('queued', (info) => {
+      this.emit('commandQueued', info);
+    });
+
+    this.ws.on('flushed', (info) => {
+      this.emit('commandFlushed', info);
+    });
+
+    this.ws.on('dropped', (info) => {
+      this.emit('commandDropped', info);
+    });
+  }
+
+  private sendCommand<M extends CommandRequest>(
+    message: M,
+    options: CommandOptions = {}
+  ): Promise<CommandResults[M['command']]> {
+    if (!this.ws.isQueueing) {
+      this.ensureConnected();
+    }
+    this.ensureCapability(message);
+    return this.ws.command(message, {
+      timeoutMs: options.timeout ?? this.options.commandTimeout,
+      dropIfStale: options.dropIfStale,
+    });
+  }
+
+  private resumeStream(lastSeq: number): void {
+    this.resumeBuffer = [];
+    this.ws
+      .resume(lastSeq, this.sequenceEpoch, this.options.commandTimeout)
+      .then((result) => {
+        if (result.reset) {
+          this.resetSequence();
+        }
+      })
+      .catch(() => {
+        // Without a replay the service may have started over; take its next sequence number as is
+        this.resetSequence();
+      })
+      .finally(() => {
+        const buffered = this.resumeBuffer ?? [];
+        this.resumeBuffer = null;
+        buffered.forEach((message) => this.handleServerMessage(message));
+      });
   }
 
   private handleServerMessage(message: ServerMessage): void {
+    // Hold replayed and live events until the resume handshake settles so ordering and dedup hold
+    if (this.resumeBuffer && (message.type === 'event' || message.type === 'rfid_batch' || message.type === 'gap')) {
+      this.resumeBuffer.push(message);
+      return;
+    }
+
     switch (message.type) {
       case 'event':
         this.handleEvent(message.event);
         break;
+      case 'rfid_batch':
+        this.handleRfidBatch(message.events);
+        break;
+      case 'gap':
+        this.emit('gap', { fromSeq: message.fromSeq, toSeq: message.toSeq });
+        if (this._lastSequence === null || message.toSeq > this._lastSequence) {
+          this._lastSequence = message.toSeq;
+        }
+        break;
       case 'capabilities':
         this._capabilities = message.data;
         this.emit('capabilities', message.data);
         break;
       case 'error':
-        this.emit('error', new Error(message.message));
+        this.emit('error', new EdgeServerError(message.message, message.code));
         break;
     }
   }
 
   private handleEvent(event: ScanEvent | RfidEvent): void {
+    let parsedEvent = this.acceptEvent(event);
+    if (!parsedEvent) return;
+
+    if (parsedEvent.type === 'scan') {
+      parsedEvent = this.decorateScan(parsedEvent);
+
+      const duplicate = this.scanDedup?.check(parsedEvent);
+      if (duplicate) {
+        this.emit('duplicate', duplicate);
+        return;
+      }
+    }
+
+    const events = parsedEvent.type === 'rfid' ? this.throttleReads([parsedEvent]) : [parsedEvent];
+    if (events.length > 0) {
+      this.middleware.run(events, (delivered) => this.deliverEvents(delivered));
+    }
+  }
+
+  private handleRfidBatch(events: RfidEvent[]): void {
+    const accepted: RfidEvent[] = [];
+    events.forEach((event) => {
+      const parsedEvent = this.acceptEvent(event);
+      if (parsedEvent?.type === 'rfid') {
+        accepted.push(parsedEvent);
+      }
+    });
+    const passed = this.throttleReads(accepted);
+    if (passed.length > 0) {
+      this.middleware.run(passed, (delivered) => this.deliverEvents(delivered));
+    }
+  }
+
+  /**
+   * Decode raw bytes, attach canonical symbology, validation and GS1 data as configured
+   */
+  private decorateScan(event: ScanEvent): ScanEvent {
+    let decorated = event;
+
+    if (this.options.clientDecoding) {
+      const decoded = decodeScanBytes(event, this.options.clientDecoding);
+      if (decoded) {
+        decorated = { ...decorated, data: decoded.text, bytes: decoded.bytes, encoding: decoded.encoding };
+      }
+    }
+
+    if (this.options.resolveSymbologies) {
+      const canonicalSymbology = resolveSymbology(decorated);
+      const invalidReason = validateBarcode(canonicalSymbology, decorated.data, {
+        code39Mod43: this.options.code39CheckDigit,
+        aimId: decorated.raw?.aimId,
+      });
+      decorated = invalidReason
+        ? { ...decorated, canonicalSymbology, valid: false, invalidReason }
+        : { ...decorated, canonicalSymbology, valid: true };
+    }
+
+    if (this.options.parseGs1) {
+      const gs1 = parseGs1Scan(decorated);
+      if (gs1) decorated = { ...decorated, gs1 };
+    }
+
+    return decorated;
+  }
+
+  private throttleReads(events: RfidEvent[]): RfidEvent[] {
+    return this.rfidThrottle && events.length > 0 ? this.rfidThrottle.push(events) : events;
+  }
+
+  /**
+   * Emit events that made it through the middleware chain
+   */
+  private deliverEvents(events: EdgeEvent[]): void {
+    const reads: RfidEvent[] = [];
+    events.forEach((event) => {
+      if (event.type === 'scan') {
+        if (this.isScanTarget()) {
+          this.emit('scan', event);
+        }
+      } else if (event.type === 'rfid') {
+        // Per-tag events remain available for existing listeners
+        this.emit('rfid', event);
+        reads.push(event);
+      }
+    });
+    this.queueRfidBatch(reads);
+  }
+
+  /**
+   * Forget the last sequence number: the next event starts a new stream
+   */
+  private resetSequence(): void {
+    this._lastSequence = null;
+    this.sequenceEpoch = null;
+  }
+
+  /**
+   * Apply sequence tracking and normalize the event; returns null for already delivered events
+   */
+  private acceptEvent<E extends ScanEvent | RfidEvent>(event: E): E | null {
+    if (typeof event.seq === 'number') {
+      if (event.epoch !== undefined && event.epoch !== this.sequenceEpoch) {
+        // A new service run numbers its events from the start
+        this.resetSequence();
+        this.sequenceEpoch = event.epoch;
+      }
+      if (this._lastSequence !== null) {
+        if (event.seq <= this._lastSequence) {
+          // Already delivered (replay overlap)
+          return null;
+        }
+        if (event.seq > this._lastSequence + 1) {
+          this.emit('gap', { fromSeq: this._lastSequence + 1, toSeq: event.seq - 1 });
+        }
+      }
+      this._lastSequence = event.seq;
+    }
+
     // Parse timestamp if it's a string
-    const parsedEvent = {
+    return {
       ...event,
       timestamp: typeof event.timestamp === 'string' 
         ? new Date(event.timestamp) 
         : event.timestamp,
     };
+  }
+
+  private queueRfidBatch(events: RfidEvent[]): void {
+    if (events.length === 0) return;
+
+    const batchWindow = this.options.rfidBatchWindow;
+    if (batchWindow === 0) {
+      this.emit('rfidBatch', events);
+      return;
+    }
+
+    this.pendingRfidBatch.push(...events);
+    if (this.rfidBatchScheduled) return;
+    this.rfidBatchScheduled = true;
 
-    if (event.type === 'scan') {
-      this.emit('scan', parsedEvent as ScanEvent);
-    } else if (event.type === 'rfid') {
-      this.emit('rfid', parsedEvent as RfidEvent);
+    if (batchWindow === 'frame' && typeof requestAnimationFrame === 'function') {
+      requestAnimationFrame(() => this.flushRfidBatch());
+    } else {
+      // ~60 fps when animation frames are not available
+      setTimeout(() => this.flushRfidBatch(), batchWindow === 'frame' ? 16 : batchWindow);
     }
   }
 
+  private flushRfidBatch(): void {
+    this.rfidBatchScheduled = false;
+    const batch = this.pendingRfidBatch;
+    this.pendingRfidBatch = [];
+    if (batch.length > 0) {
+      this.emit('rfidBatch', batch);
+    }
+  }
+
+
+  private getCredentials(): AuthCredentials | null {
+    const { apiKey, token } = this.options;
+    if (apiKey === undefined && token === undefined) {
+      return null;
+    }
+    return { apiKey, token };
+  }
+
+  /**
+   * Whether this tab should emit scans under the scanDelivery option
+   */
+  private isScanTarget(): boolean {
+    const delivery = this.options.scanDelivery;
+    if (delivery === 'all' || typeof document === 'undefined') return true;
+    return delivery === 'visible' ? document.visibilityState === 'visible' : document.hasFocus();
+  }
+
   private ensureConnected(): void {
     if (!this.isConnected) {
-      throw new Error('Not connected to Edge service. Call connect() first.');
+      throw new NotConnectedError();
+    }
+  }
+
+  /**
+   * Reject commands the last reported capabilities rule out.
+   * Skipped until capabilities are known, since they change when peripherals connect.
+   */
+  private ensureCapability(message: CommandRequest): void {
+    const capabilities = this._capabilities;
+    if (!capabilities) return;
+
+    switch (message.command) {
+      case 'trigger_scan':
+        if (!capabilities.barcode) throw new UnsupportedCapabilityError('barcode');
+        if (!capabilities.barcode.canToggle) throw new UnsupportedCapabilityError('barcode.trigger');
+        break;
+      case 'set_symbologies':
+        if (!capabilities.barcode) throw new UnsupportedCapabilityError('barcode');
+        if (!capabilities.barcode.canToggleSymbologies) throw new UnsupportedCapabilityError('barcode.symbologies');
+        break;
+      case 'start_rfid_inventory':
+      case 'stop_rfid_inventory':
+        if (!capabilities.rfid) throw new UnsupportedCapabilityError('rfid');
+        if (!capabilities.rfid.canToggle) throw new UnsupportedCapabilityError('rfid.inventory');
+        break;
     }
   }
 }
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ScanDeduplicator } from './dedup';
+import { CleverenceEdge } from './client';
+import { MockEdge } from '../testing/mockEdge';
+import type { ScanEvent } from '../types';
+
+function scan(data: string, overrides: Partial<ScanEvent> = {}): ScanEvent {
+  return {
+    type: 'scan',
+    id: data,
+    timestamp: new Date(),
+    data,
+    symbology: 'code128',
+    source: 'integrated-laser',
+    vendor: 'test',
+    ...overrides,
+  };
+}
+
+describe('ScanDeduplicator', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should suppress the same data within the window', () => {
+    const dedup = new ScanDeduplicator({ windowMs: 500 });
+
+    expect(dedup.check(scan('A'))).toBeNull();
+    vi.advanceTimersByTime(200);
+    expect(dedup.check(scan('A'))).toMatchObject({ mode: 'window', sinceMs: 200, count: 1 });
+    expect(dedup.check(scan('B'))).toBeNull();
+    expect(dedup.check(scan('A'))).toMatchObject({ count: 2 });
+    vi.advanceTimersByTime(300);
+    expect(dedup.check(scan('A'))).toBeNull();
+  });
+
+  it('should ignore the same data until a different code is scanned', () => {
+    const dedup = new ScanDeduplicator({ mode: 'untilChanged' });
+
+    expect(dedup.check(scan('A'))).toBeNull();
+    vi.advanceTimersByTime(60000);
+    expect(dedup.check(scan('A'))).toMatchObject({ mode: 'untilChanged', count: 1 });
+    expect(dedup.check(scan('B'))).toBeNull();
+    expect(dedup.check(scan('A'))).toBeNull();
+  });
+
+  it('should track sources separately and apply per-symbology and per-source rules', () => {
+    const dedup = new ScanDeduplicator({
+      windowMs: 1000,
+      bySymbology: { 'EAN-13': false, qrcode: { mode: 'untilChanged' } },
+      bySource: { 'bluetooth-ring': { windowMs: 5000 } },
+    });
+
+    expect(dedup.check(scan('A'))).toBeNull();
+    expect(dedup.check(scan('A', { source: 'camera' }))).toBeNull();
+
+    expect(dedup.check(scan('4006381333931', { symbology: 'ean13' }))).toBeNull();
+    expect(dedup.check(scan('4006381333931', { symbology: 'ean13' }))).toBeNull();
+
+    expect(dedup.check(scan('Q', { symbology: 'QR Code' }))).toBeNull();
+    expect(dedup.check(scan('Q', { symbology: 'QR Code' }))).toMatchObject({ mode: 'untilChanged' });
+
+    expect(dedup.check(scan('R', { source: 'bluetooth-ring' }))).toBeNull();
+    vi.advanceTimersByTime(2000);
+    expect(dedup.check(scan('R', { source: 'bluetooth-ring' }))).toMatchObject({ mode: 'window', sinceMs: 2000 });
+  });
+});
+
+describe('CleverenceEdge scanDedup', () => {
+  it('should emit duplicate instead of scan for suppressed scans', async () => {
+    const mock = new MockEdge();
+    const edge = new CleverenceEdge({ autoConnect: false, transport: mock.transport, scanDedup: { mode: 'untilChanged' } });
+    await edge.connect();
+    const scanHandler = vi.fn();
+    const duplicateHandler = vi.fn();
+    edge.on('scan', scanHandler);
+    edge.on('duplicate', duplicateHandler);
+
+    mock.scan('A');
+    mock.scan('A');
+    mock.scan('B');
+    await mock.settle();
+
+    expect(scanHandler.mock.calls.map(([event]) => event.data)).toEqual(['A', 'B']);
+    expect(duplicateHandler).toHaveBeenCalledWith(
+      expect.objectContaining({ event: expect.objectContaining({ data: 'A' }), count: 1 })
+    );
+
+    edge.setScanDedup(null);
+    mock.scan('B');
+    await mock.settle();
+    expect(scanHandler).toHaveBeenCalledTimes(3);
+
+    edge.disconnect();
+  });
+});
@@ -0,0 +1,114 @@
+import { normalizeSymbology } from './symbology';
+import type { DuplicateScan, ScanDedupMode, ScanDedupOptions, ScanDedupRule, ScanEvent } from '../types';
+
+const DEFAULT_WINDOW_MS = 1000;
+
+interface ResolvedRule {
+  mode: ScanDedupMode;
+  windowMs: number;
+}
+
+interface LastScan {
+  data: string;
+  at: number;
+  count: number;
+}
+
+/**
+ * Suppresses repeated scans per source. `check()` returns null for scans to emit and a DuplicateScan
+ * for scans to suppress.
+ */
+export class ScanDeduplicator {
+  private defaults: ResolvedRule;
+  private bySymbology: Map<string, ResolvedRule | null> = new Map();
+  private bySource: Map<string, ResolvedRule | null> = new Map();
+
+  /** Last emitted scan per source and data ('window' mode) */
+  private emitted: Map<string, LastScan> = new Map();
+  /** Last emitted scan per source ('untilChanged' mode) */
+  private current: Map<string, LastScan> = new Map();
+
+  constructor(options: ScanDedupOptions) {
+    this.defaults = resolveRule(options, { mode: 'window', windowMs: DEFAULT_WINDOW_MS });
+    Object.entries(options.bySymbology ?? {}).forEach(([name, rule]) => {
+      this.bySymbology.set(normalizeSymbology(name) ?? name, rule === false ? null : resolveRule(rule, this.defaults));
+    });
+    Object.entries(options.bySource ?? {}).forEach(([source, rule]) => {
+      this.bySource.set(source, rule === false ? null : resolveRule(rule, this.defaults));
+    });
+  }
+
+  /**
+   * Record a scan; returns the duplicate details when it should be suppressed
+   */
+  check(event: ScanEvent): DuplicateScan | null {
+    const rule = this.ruleFor(event);
+    if (!rule) return null;
+
+    const now = Date.now();
+    return rule.mode === 'untilChanged' ? this.checkUntilChanged(event, now) : this.checkWindow(event, rule, now);
+  }
+
+  /**
+   * Forget previous scans, so the next scan of any code is emitted
+   */
+  reset(): void {
+    this.emitted.clear();
+    this.current.clear();
+  }
+
+  private checkWindow(event: ScanEvent, rule: ResolvedRule, now: number): DuplicateScan | null {
+    const key = `${event.source}\u0000${event.data}`;
+    const last = this.emitted.get(key);
+
+    if (last && now - last.at < rule.windowMs) {
+      last.count++;
+      return { event, mode: 'window', sinceMs: now - last.at, count: last.count };
+    }
+
+    this.emitted.set(key, { data: event.data, at: now, count: 0 });
+    this.pruneEmitted(now);
+    return null;
+  }
+
+  private checkUntilChanged(event: ScanEvent, now: number): DuplicateScan | null {
+    const last = this.current.get(event.source);
+
+    if (last && last.data === event.data) {
+      last.count++;
+      return { event, mode: 'untilChanged', sinceMs: now - last.at, count: last.count };
+    }
+
+    this.current.set(event.source, { data: event.data, at: now, count: 0 });
+    return null;
+  }
+
+  private ruleFor(event: ScanEvent): ResolvedRule | null {
+    const symbology = event.canonicalSymbology ?? normalizeSymbology(event.symbology) ?? event.symbology;
+    if (this.bySymbology.has(symbology)) return this.bySymbology.get(symbology) ?? null;
+    if (this.bySource.has(event.source)) return this.bySource.get(event.source) ?? null;
+    return this.defaults;
+  }
+
+  /**
+   * Forget scans whose window has long passed so the map does not grow with every code ever seen
+   */
+  private pruneEmitted(now: number): void {
+    if (this.emitted.size < 1000) return;
+    const longestWindow = Math.max(
+      this.defaults.windowMs,
+      ...Array.from(this.bySymbology.values(), (rule) => rule?.windowMs ?? 0),
+      ...Array.from(this.bySource.values(), (rule) => rule?.windowMs ?? 0)
+    );
+    this.emitted.forEach((last, key) => {
+      if (now - last.at >= longestWindow) this.emitted.delete(key);
+    });
+  }
+}
+
+function resolveRule(rule: ScanDedupRule, fallback: ResolvedRule): ResolvedRule {
+  return {
+    mode: rule.mode ?? fallback.mode,
+    windowMs: rule.windowMs ?? fallback.windowMs,
+  };
+}
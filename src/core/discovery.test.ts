@@ -0,0 +1,106 @@
+import { describe, it, expect, vi } from 'vitest';
+import { discover } from './discovery';
+import { MockEdge } from '../testing/mockEdge';
+import type { Transport } from '../types';
+
+const capabilities = {
+  edgeVersion: '1.2.0',
+  vendor: 'zebra',
+  deviceModel: 'TC52',
+  barcode: null,
+  rfid: null,
+  nfc: null,
+};
+
+// Transport where only the given URLs have an Edge service listening
+function createTransport(listening: string[]): Transport & { urls: string[] } {
+  const urls: string[] = [];
+  return {
+    urls,
+    connect(url, handlers) {
+      urls.push(url);
+      let open = false;
+      setTimeout(() => {
+        if (!listening.includes(url)) {
+          handlers.onClose();
+          return;
+        }
+        open = true;
+        handlers.onOpen();
+      }, 0);
+
+      return {
+        get isOpen() {
+          return open;
+        },
+        send(data) {
+          const msg = JSON.parse(data);
+          const reply = (result: unknown, extra: Record<string, unknown>) =>
+            setTimeout(() => handlers.onMessage(JSON.stringify({
+              type: 'response',
+              id: msg.id,
+              success: true,
+              data: { ...extra, result },
+            })), 0);
+          if (msg.type === 'hello') {
+            reply({ authenticated: false, protocolVersion: 2, features: ['command_ack'] }, { hello: true });
+          } else if (msg.type === 'query' && msg.query === 'capabilities') {
+            reply(capabilities, { query: 'capabilities' });
+          }
+        },
+        close() {
+          open = false;
+        },
+      };
+    },
+  };
+}
+
+describe('discover', () => {
+  it('should report Edge services answering in the port range', async () => {
+    const transport = createTransport(['ws://localhost:8587']);
+
+    const found = await discover({ portRange: [8585, 8588], transport });
+
+    expect(transport.urls).toEqual([
+      'ws://localhost:8585',
+      'ws://localhost:8586',
+      'ws://localhost:8587',
+      'ws://localhost:8588',
+    ]);
+    expect(found).toEqual([
+      {
+        url: 'ws://localhost:8587',
+        capabilities,
+        protocol: { version: 2, features: ['command_ack'], legacy: false },
+      },
+    ]);
+  });
+
+  it('should try each scheme for explicit ports', async () => {
+    const transport = createTransport(['ws://127.0.0.1:9000', 'wss://127.0.0.1:9000']);
+
+    const found = await discover({ host: '127.0.0.1', ports: [9000], schemes: ['ws', 'wss'], transport });
+
+    expect(found.map((service) => service.url)).toEqual(['ws://127.0.0.1:9000', 'wss://127.0.0.1:9000']);
+  });
+
+  it('should report legacy services that skip the handshake', async () => {
+    const mock = new MockEdge({ legacy: true });
+
+    const found = await discover({ ports: [8585], timeout: 100, transport: mock.transport });
+
+    expect(found).toHaveLength(1);
+    expect(found[0].protocol).toMatchObject({ legacy: true });
+  });
+
+  it('should give up on candidates that never answer', async () => {
+    const transport: Transport = {
+      connect: () => ({ isOpen: false, send: vi.fn(), close: vi.fn() }),
+    };
+
+    const found = await discover({ ports: [8585], timeout: 20, transport });
+
+    expect(found).toEqual([]);
+  });
+});
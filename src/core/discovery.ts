@@ -0,0 +1,77 @@
+import { WebSocketManager } from './websocket';
+import type { DeviceCapabilities, ProtocolInfo, Transport } from '../types';
+
+/**
+ * Options for discover()
+ */
+export interface DiscoverOptions {
+  /** Host to scan. Default: 'localhost' */
+  host?: string;
+  /** Inclusive port range to scan. Default: [8585, 8594] */
+  portRange?: [number, number];
+  /** Explicit ports to scan (overrides portRange) */
+  ports?: number[];
+  /** URL schemes to try for each port. Default: ['ws'] */
+  schemes?: Array<'ws' | 'wss'>;
+  /** Time allowed per candidate to connect and report capabilities in ms. Default: 2000 */
+  timeout?: number;
+  /** Transport used for probing. Default: WebSocketTransport using the global WebSocket */
+  transport?: Transport;
+}
+
+/**
+ * An Edge service that answered during discovery
+ */
+export interface DiscoveredEdge {
+  /** URL the service answered on */
+  url: string;
+  /** Capabilities reported by the service */
+  capabilities: DeviceCapabilities;
+  /** Protocol negotiated with the service */
+  protocol: ProtocolInfo | null;
+}
+
+const DEFAULT_PORT_RANGE: [number, number] = [8585, 8594];
+
+/**
+ * Scan local ports for running Edge services
+ *
+ * @example
+ * ```typescript
+ * const found = await discover({ portRange: [8585, 8600], schemes: ['ws', 'wss'] });
+ * const edge = new CleverenceEdge({ url: found.map((service) => service.url) });
+ * ```
+ */
+export async function discover(options: DiscoverOptions = {}): Promise<DiscoveredEdge[]> {
+  const { host = 'localhost', schemes = ['ws'], timeout = 2000, transport } = options;
+  const [from, to] = options.portRange ?? DEFAULT_PORT_RANGE;
+  const ports = options.ports ?? Array.from({ length: Math.max(0, to - from + 1) }, (_, i) => from + i);
+
+  const urls = schemes.flatMap((scheme) => ports.map((port) => `${scheme}://${host}:${port}`));
+  const results = await Promise.all(urls.map((url) => probe(url, timeout, transport)));
+
+  return results.filter((result): result is DiscoveredEdge => result !== null);
+}
+
+async function probe(url: string, timeout: number, transport?: Transport): Promise<DiscoveredEdge | null> {
+  const ws = new WebSocketManager(url, {
+    reconnect: false,
+    // Legacy services never answer the hello; leave time to query them within the probe timeout
+    handshakeTimeout: timeout / 2,
+    pongTimeout: 0,
+    transport,
+  });
+  // Give up on candidates that neither open nor fail in time
+  const timer = setTimeout(() => ws.disconnect(), timeout);
+
+  try {
+    await ws.connect();
+    const capabilities = await ws.request<DeviceCapabilities>('capabilities', timeout);
+    return { url, capabilities, protocol: ws.protocol };
+  } catch {
+    return null;
+  } finally {
+    clearTimeout(timer);
+    ws.disconnect();
+  }
+}
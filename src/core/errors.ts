@@ -0,0 +1,193 @@
+import type { DroppedCommandInfo } from '../types';
+
+/**
+ * Base class for all errors raised by the SDK.
+ * Branch on `instanceof` or on the machine-readable `code` instead of matching messages.
+ */
+export class EdgeError extends Error {
+  /** Machine-readable error code */
+  readonly code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'EdgeError';
+    this.code = code;
+  }
+}
+
+/**
+ * Thrown when a command or query is issued while the client is not connected
+ */
+export class NotConnectedError extends EdgeError {
+  declare readonly code: 'not_connected';
+
+  constructor(message = 'Not connected to Edge service. Call connect() first.') {
+    super(message, 'not_connected');
+    this.name = 'NotConnectedError';
+  }
+}
+
+/**
+ * Codes reported by ConnectionError
+ */
+export type ConnectionErrorCode = 'connection_failed' | 'disconnected' | 'pong_timeout' | 'no_endpoint';
+
+/**
+ * The connection could not be established, was lost, or stopped responding.
+ * Requests in flight when the connection drops reject with code 'disconnected'.
+ */
+export class ConnectionError extends EdgeError {
+  declare readonly code: ConnectionErrorCode;
+
+  constructor(message: string, code: ConnectionErrorCode = 'connection_failed') {
+    super(message, code);
+    this.name = 'ConnectionError';
+  }
+}
+
+/**
+ * The Edge service did not answer a query or command in time, or an awaited event did not arrive
+ */
+export class RequestTimeoutError extends EdgeError {
+  declare readonly code: 'timeout';
+  /** Query, command or wait (e.g. 'waitForScan') that timed out */
+  readonly request: string;
+  /** Time waited in ms */
+  readonly timeoutMs: number;
+
+  constructor(request: string, timeoutMs: number, message = `Request timeout: ${request}`) {
+    super(message, 'timeout');
+    this.name = 'RequestTimeoutError';
+    this.request = request;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * The Edge service refused a request or reported an error.
+ * `code` carries the code sent by the service ('server_error' when it sent none).
+ */
+export class EdgeServerError extends EdgeError {
+  constructor(message: string, code = 'server_error') {
+    super(message, code);
+    this.name = 'EdgeServerError';
+  }
+}
+
+/**
+ * A queued command was discarded before it could be sent
+ */
+export class CommandDroppedError extends EdgeError {
+  declare readonly code: 'command_dropped';
+  /** Command that was dropped */
+  readonly command: string;
+  /** Why the command was dropped */
+  readonly reason: DroppedCommandInfo['reason'];
+
+  constructor(message: string, command: string, reason: DroppedCommandInfo['reason']) {
+    super(message, 'command_dropped');
+    this.name = 'CommandDroppedError';
+    this.command = command;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Thrown when the connected device lacks the hardware or feature a command needs
+ */
+export class UnsupportedCapabilityError extends EdgeError {
+  declare readonly code: 'unsupported_capability';
+  /** Missing capability, e.g. 'rfid' or 'barcode.symbologies' */
+  readonly capability: string;
+
+  constructor(capability: string, message = `Device does not support ${capability}`) {
+    super(message, 'unsupported_capability');
+    this.name = 'UnsupportedCapabilityError';
+    this.capability = capability;
+  }
+}
+
+/**
+ * Thrown when the Edge service rejects the presented credentials.
+ * The client does not reconnect automatically after an authentication failure.
+ */
+export class AuthError extends EdgeError {
+  declare readonly code: 'auth_failed';
+
+  constructor(message = 'Authentication failed') {
+    super(message, 'auth_failed');
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * Thrown when the Edge service speaks a protocol version or lacks features this client requires.
+ * The client does not reconnect automatically after this error.
+ */
+export class IncompatibleServerError extends EdgeError {
+  declare readonly code: 'incompatible_server';
+  /** Protocol version reported by the Edge service */
+  readonly serverVersion: number;
+  /** Required features the Edge service does not support */
+  readonly missingFeatures: string[];
+
+  constructor(message: string, serverVersion: number, missingFeatures: string[] = []) {
+    super(message, 'incompatible_server');
+    this.name = 'IncompatibleServerError';
+    this.serverVersion = serverVersion;
+    this.missingFeatures = missingFeatures;
+  }
+}
+
+/**
+ * Emitted when the Edge service sends a message that is not valid JSON or does not match the protocol.
+ * The offending message (or the affected part of it) is dropped.
+ */
+export class ProtocolError extends EdgeError {
+  declare readonly code: 'protocol_error';
+  /** The raw text or parsed value that failed validation */
+  readonly payload: unknown;
+
+  constructor(message: string, payload: unknown) {
+    super(message, 'protocol_error');
+    this.name = 'ProtocolError';
+    this.payload = payload;
+  }
+}
+
+/**
+ * A middleware registered with `edge.use()` threw or rejected.
+ * The event continues through the rest of the chain as if that middleware had not run.
+ */
+export class MiddlewareError extends EdgeError {
+  declare readonly code: 'middleware_error';
+  /** Name of the failing middleware */
+  readonly middleware: string;
+  /** What the middleware threw */
+  readonly cause: unknown;
+
+  constructor(middleware: string, cause: unknown) {
+    super(`Middleware "${middleware}" failed: ${cause instanceof Error ? cause.message : String(cause)}`, 'middleware_error');
+    this.name = 'MiddlewareError';
+    this.middleware = middleware;
+    this.cause = cause;
+  }
+}
+
+/**
+ * A listener threw while handling an event. Emitted as an `error` event when `listenerErrors: 'emit'` is set
+ */
+export class ListenerError extends EdgeError {
+  declare readonly code: 'listener_error';
+  /** Event whose listener threw */
+  readonly event: string;
+  /** What the listener threw */
+  readonly cause: unknown;
+
+  constructor(event: string, cause: unknown) {
+    super(`Listener for "${event}" failed: ${cause instanceof Error ? cause.message : String(cause)}`, 'listener_error');
+    this.name = 'ListenerError';
+    this.event = event;
+    this.cause = cause;
+  }
+}
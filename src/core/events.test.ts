@@ -77,6 +77,22 @@ describe('EventEmitter', () => {
     expect(handler).toHaveBeenCalledWith(1);
   });
 
+  it('should remove once() handlers with off()', () => {
+    const emitter = new (class extends EventEmitter<TestEvents> {
+      trigger<K extends keyof TestEvents>(event: K, data: TestEvents[K]) {
+        this.emit(event, data);
+      }
+    })();
+
+    const handler = vi.fn();
+    emitter.once('count', handler);
+    emitter.off('count', handler);
+    emitter.trigger('count', 1);
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(emitter.listenerCount('count')).toBe(0);
+  });
+
   it('should return this for chaining', () => {
     const emitter = new EventEmitter<TestEvents>();
     const handler = vi.fn();
@@ -171,4 +187,130 @@ describe('EventEmitter', () => {
     emitter.off('message', handler1);
     expect(emitter.listenerCount('message')).toBe(1);
   });
+
+  it('should unsubscribe through the returned disposer or an AbortSignal', () => {
+    const emitter = new (class extends EventEmitter<TestEvents> {
+      trigger<K extends keyof TestEvents>(event: K, data: TestEvents[K]) {
+        this.emit(event, data);
+      }
+    })();
+    const disposed = vi.fn();
+    const aborted = vi.fn();
+    const controller = new AbortController();
+
+    const dispose = emitter.subscribe('message', disposed);
+    emitter.on('message', aborted, { signal: controller.signal });
+    emitter.trigger('message', 'first');
+
+    dispose();
+    controller.abort();
+    emitter.trigger('message', 'second');
+
+    expect(disposed).toHaveBeenCalledTimes(1);
+    expect(aborted).toHaveBeenCalledTimes(1);
+    expect(emitter.listenerCount('message')).toBe(0);
+  });
+
+  it('should return a disposer from subscribeOnce()', () => {
+    const emitter = new (class extends EventEmitter<TestEvents> {
+      trigger<K extends keyof TestEvents>(event: K, data: TestEvents[K]) {
+        this.emit(event, data);
+      }
+    })();
+    const fired = vi.fn();
+    const disposed = vi.fn();
+
+    emitter.subscribeOnce('count', fired);
+    const dispose = emitter.subscribeOnce('count', disposed);
+    dispose();
+    emitter.trigger('count', 1);
+    emitter.trigger('count', 2);
+
+    expect(fired).toHaveBeenCalledTimes(1);
+    expect(fired).toHaveBeenCalledWith(1);
+    expect(disposed).not.toHaveBeenCalled();
+  });
+
+  it('should detach the abort listener when a handler is removed with off()', () => {
+    const emitter = new (class extends EventEmitter<TestEvents> {
+      trigger<K extends keyof TestEvents>(event: K, data: TestEvents[K]) {
+        this.emit(event, data);
+      }
+    })();
+    const handler = vi.fn();
+    const controller = new AbortController();
+    const removeListener = vi.spyOn(controller.signal, 'removeEventListener');
+
+    emitter.on('message', handler, { signal: controller.signal });
+    emitter.off('message', handler);
+    expect(removeListener).toHaveBeenCalledWith('abort', expect.any(Function));
+
+    // A later subscription of the same handler must outlive the old signal
+    emitter.on('message', handler);
+    controller.abort();
+    emitter.trigger('message', 'after abort');
+
+    expect(handler).toHaveBeenCalledWith('after abort');
+  });
+
+  it('should resolve once(event) with the next occurrence', async () => {
+    const emitter = new (class extends EventEmitter<TestEvents> {
+      trigger<K extends keyof TestEvents>(event: K, data: TestEvents[K]) {
+        this.emit(event, data);
+      }
+    })();
+
+    const next = emitter.once('count');
+    emitter.trigger('count', 1);
+    emitter.trigger('count', 2);
+    await expect(next).resolves.toBe(1);
+    expect(emitter.listenerCount('count')).toBe(0);
+
+    const controller = new AbortController();
+    const cancelled = emitter.once('count', { signal: controller.signal });
+    controller.abort(new Error('cancelled'));
+    await expect(cancelled).rejects.toThrow('cancelled');
+    expect(emitter.listenerCount('count')).toBe(0);
+  });
+
+  it('should notify onAny listeners of every event', () => {
+    const emitter = new (class extends EventEmitter<TestEvents> {
+      trigger<K extends keyof TestEvents>(event: K, data: TestEvents[K]) {
+        this.emit(event, data);
+      }
+    })();
+    const anyHandler = vi.fn();
+
+    emitter.onAny(anyHandler);
+    emitter.trigger('message', 'hello');
+    emitter.trigger('count', 3);
+    emitter.offAny(anyHandler);
+    emitter.trigger('count', 4);
+
+    expect(anyHandler.mock.calls).toEqual([
+      ['message', 'hello'],
+      ['count', 3],
+    ]);
+  });
+
+  it('should route listener errors to the configured handler', () => {
+    const emitter = new (class extends EventEmitter<TestEvents> {
+      trigger<K extends keyof TestEvents>(event: K, data: TestEvents[K]) {
+        this.emit(event, data);
+      }
+    })();
+    const errorHandler = vi.fn();
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    emitter.setListenerErrorHandler(errorHandler);
+    emitter.on('message', () => {
+      throw new Error('Handler error');
+    });
+    emitter.trigger('message', 'test');
+
+    expect(errorHandler).toHaveBeenCalledWith(expect.objectContaining({ message: 'Handler error' }), 'message');
+    expect(consoleSpy).not.toHaveBeenCalled();
+
+    consoleSpy.mockRestore();
+  });
 });
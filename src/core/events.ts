@@ -4,30 +4,120 @@
 
 type EventHandler<T = unknown> = (data: T) => void;
 
+/**
+ * Listener that receives every event, with its name
+ */
+export type AnyEventHandler<Events> = (event: keyof Events, data: Events[keyof Events]) => void;
+
+/**
+ * Called with exceptions thrown by listeners
+ */
+export type ListenerErrorHandler<Events> = (error: unknown, event: keyof Events) => void;
+
+/**
+ * Options for on(), once() and onAny()
+ */
+export interface ListenerOptions {
+  /** Removes the listener when aborted */
+  signal?: AbortSignal;
+}
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export class EventEmitter<Events extends Record<string, any> = Record<string, unknown>> {
   private handlers: Map<keyof Events, Set<EventHandler<unknown>>> = new Map();
+  private anyHandlers: Set<AnyEventHandler<Events>> = new Set();
+  /** Wrappers registered by once() -> the handler they call, so off() can remove them */
+  private onceHandlers: WeakMap<EventHandler<unknown>, EventHandler<unknown>> = new WeakMap();
+  /** Abort listeners of handlers registered with a signal, so off() can detach them */
+  private abortListeners: Map<keyof Events, Map<EventHandler<unknown>, () => void>> = new Map();
+  private anyAbortListeners: Map<AnyEventHandler<Events>, () => void> = new Map();
+  private listenerErrorHandler: ListenerErrorHandler<Events> | null = null;
 
   /**
-   * Subscribe to an event
+   * Subscribe to an event.
+   * Returns the emitter so calls can be chained, like Node's EventEmitter; subscribe() returns a disposer instead.
    */
-  on<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): this {
+  on<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>, options?: ListenerOptions): this {
+    if (options?.signal?.aborted) return this;
+
     if (!this.handlers.has(event)) {
       this.handlers.set(event, new Set());
     }
     this.handlers.get(event)!.add(handler as EventHandler<unknown>);
+    const signal = options?.signal;
+    if (signal) {
+      const onAbort = () => this.off(event, handler);
+      signal.addEventListener('abort', onAbort, { once: true });
+      if (!this.abortListeners.has(event)) {
+        this.abortListeners.set(event, new Map());
+      }
+      this.abortListeners.get(event)!.set(handler as EventHandler<unknown>, () =>
+        signal.removeEventListener('abort', onAbort)
+      );
+    }
     return this;
   }
 
   /**
-   * Subscribe to an event once (auto-unsubscribes after first call)
+   * Subscribe to an event once (auto-unsubscribes after first call).
+   * The handler can be removed before it fires with off(event, handler).
+   * Without a handler, returns a promise for the next occurrence (rejected with the abort reason if aborted).
+   */
+  once<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>, options?: ListenerOptions): this;
+  once<K extends keyof Events>(event: K, options?: ListenerOptions): Promise<Events[K]>;
+  once<K extends keyof Events>(
+    event: K,
+    handlerOrOptions?: EventHandler<Events[K]> | ListenerOptions,
+    options?: ListenerOptions
+  ): this | Promise<Events[K]> {
+    if (typeof handlerOrOptions === 'function') {
+      const handler = handlerOrOptions;
+      const onceHandler: EventHandler<Events[K]> = (data) => {
+        this.off(event, onceHandler);
+        handler(data);
+      };
+      this.onceHandlers.set(onceHandler as EventHandler<unknown>, handler as EventHandler<unknown>);
+      return this.on(event, onceHandler, options);
+    }
+
+    const signal = handlerOrOptions?.signal;
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const onAbort = () => {
+        this.off(event, onceHandler);
+        reject(signal!.reason);
+      };
+      const onceHandler: EventHandler<Events[K]> = (data) => {
+        this.off(event, onceHandler);
+        signal?.removeEventListener('abort', onAbort);
+        resolve(data);
+      };
+      this.on(event, onceHandler);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Subscribe to an event and get back a function that unsubscribes
+   */
+  subscribe<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>, options?: ListenerOptions): () => void {
+    this.on(event, handler, options);
+    return () => this.off(event, handler);
+  }
+
+  /**
+   * Subscribe to an event once and get back a function that unsubscribes if it has not fired yet
    */
-  once<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): this {
-    const onceHandler: EventHandler<Events[K]> = (data) => {
-      this.off(event, onceHandler);
-      handler(data);
-    };
-    return this.on(event, onceHandler);
+  subscribeOnce<K extends keyof Events>(
+    event: K,
+    handler: EventHandler<Events[K]>,
+    options?: ListenerOptions
+  ): () => void {
+    this.once(event, handler, options);
+    return () => this.off(event, handler);
   }
 
   /**
@@ -35,12 +125,49 @@ export class EventEmitter<Events extends Record<string, any> = Record<string, un
    */
   off<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): this {
     const eventHandlers = this.handlers.get(event);
-    if (eventHandlers) {
-      eventHandlers.delete(handler as EventHandler<unknown>);
+    eventHandlers?.forEach((registered) => {
+      if (registered === handler || this.onceHandlers.get(registered) === handler) {
+        eventHandlers.delete(registered);
+        this.detachAbortListener(event, registered);
+      }
+    });
+    return this;
+  }
+
+  /**
+   * Subscribe to every event, e.g. for logging. Called after the event's own listeners
+   */
+  onAny(handler: AnyEventHandler<Events>, options?: ListenerOptions): this {
+    if (options?.signal?.aborted) return this;
+
+    this.anyHandlers.add(handler);
+    const signal = options?.signal;
+    if (signal) {
+      const onAbort = () => this.offAny(handler);
+      signal.addEventListener('abort', onAbort, { once: true });
+      this.anyAbortListeners.set(handler, () => signal.removeEventListener('abort', onAbort));
     }
     return this;
   }
 
+  /**
+   * Remove a listener added with onAny()
+   */
+  offAny(handler: AnyEventHandler<Events>): this {
+    this.anyHandlers.delete(handler);
+    this.anyAbortListeners.get(handler)?.();
+    this.anyAbortListeners.delete(handler);
+    return this;
+  }
+
+  /**
+   * Route exceptions thrown by listeners to a handler instead of `console.error` (null restores the default)
+   */
+  setListenerErrorHandler(handler: ListenerErrorHandler<Events> | null): this {
+    this.listenerErrorHandler = handler;
+    return this;
+  }
+
   /**
    * Emit an event to all subscribers
    */
@@ -51,20 +178,34 @@ export class EventEmitter<Events extends Record<string, any> = Record<string, un
         try {
           handler(data);
         } catch (err) {
-          console.error(`Error in event handler for "${String(event)}":`, err);
+          this.reportListenerError(err, event);
         }
       });
     }
+    this.anyHandlers.forEach((handler) => {
+      try {
+        handler(event, data);
+      } catch (err) {
+        this.reportListenerError(err, event);
+      }
+    });
   }
 
   /**
-   * Remove all listeners for an event, or all listeners if no event specified
+   * Remove all listeners for an event, or all listeners (including onAny) if no event specified
    */
   removeAllListeners(event?: keyof Events): this {
     if (event) {
       this.handlers.delete(event);
+      this.abortListeners.get(event)?.forEach((detach) => detach());
+      this.abortListeners.delete(event);
     } else {
       this.handlers.clear();
+      this.anyHandlers.clear();
+      this.abortListeners.forEach((listeners) => listeners.forEach((detach) => detach()));
+      this.abortListeners.clear();
+      this.anyAbortListeners.forEach((detach) => detach());
+      this.anyAbortListeners.clear();
     }
     return this;
   }
@@ -75,4 +216,22 @@ export class EventEmitter<Events extends Record<string, any> = Record<string, un
   listenerCount(event: keyof Events): number {
     return this.handlers.get(event)?.size ?? 0;
   }
+
+  private detachAbortListener(event: keyof Events, handler: EventHandler<unknown>): void {
+    const listeners = this.abortListeners.get(event);
+    listeners?.get(handler)?.();
+    listeners?.delete(handler);
+  }
+
+  private reportListenerError(err: unknown, event: keyof Events): void {
+    if (this.listenerErrorHandler) {
+      try {
+        this.listenerErrorHandler(err, event);
+        return;
+      } catch (hookError) {
+        err = hookError;
+      }
+    }
+    console.error(`Error in event handler for "${String(event)}":`, err);
+  }
 }
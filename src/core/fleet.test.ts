@@ -0,0 +1,100 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EdgeFleet } from './fleet';
+import { CleverenceEdge } from './client';
+import { MockEdge } from '../testing/mockEdge';
+
+function createFleet() {
+  const dock = new MockEdge({ capabilities: { barcode: null } });
+  const handheld = new MockEdge({ capabilities: { rfid: null } });
+  const fleet = new EdgeFleet({
+    defaults: { autoConnect: false },
+    devices: {
+      dock: { transport: dock.transport },
+      handheld: { transport: handheld.transport },
+    },
+  });
+  return { fleet, dock, handheld };
+}
+
+describe('EdgeFleet', () => {
+  it('should connect every device and aggregate state', async () => {
+    const { fleet, dock, handheld } = createFleet();
+    const stateHandler = vi.fn();
+    fleet.on('statechange', stateHandler);
+
+    expect(fleet.connectionState).toBe('disconnected');
+    const results = await fleet.connect();
+    await Promise.all([dock.settle(), handheld.settle()]);
+
+    expect(results.dock.status).toBe('fulfilled');
+    expect(fleet.connectionState).toBe('connected');
+    expect(fleet.states).toEqual({ dock: 'connected', handheld: 'connected' });
+    expect(fleet.devicesWith('rfid')).toEqual(['dock']);
+    expect(fleet.capabilities.handheld?.rfid).toBeNull();
+
+    dock.setOnline(false);
+    expect(fleet.connectionState).toBe('partial');
+    expect(stateHandler.mock.calls.map(([state]) => state)).toEqual(['partial', 'connected', 'partial']);
+
+    fleet.disconnect();
+    expect(fleet.connectionState).toBe('disconnected');
+  });
+
+  it('should tag events with their origin device', async () => {
+    const { fleet, dock, handheld } = createFleet();
+    const scanHandler = vi.fn();
+    const rfidHandler = vi.fn();
+    fleet.on('scan', scanHandler);
+    fleet.on('rfid', rfidHandler);
+
+    await fleet.connect();
+    handheld.scan('012345678905');
+    dock.rfid('3034257BF400B7800004CB2F');
+    await Promise.all([dock.settle(), handheld.settle()]);
+
+    expect(scanHandler).toHaveBeenCalledWith(expect.objectContaining({ deviceId: 'handheld', data: '012345678905' }));
+    expect(rfidHandler).toHaveBeenCalledWith(expect.objectContaining({ deviceId: 'dock', epc: '3034257BF400B7800004CB2F' }));
+
+    fleet.disconnect();
+  });
+
+  it('should send commands to one device or broadcast them', async () => {
+    const { fleet, dock, handheld } = createFleet();
+    await fleet.connect();
+    await Promise.all([dock.settle(), handheld.settle()]);
+
+    await fleet.triggerScan('handheld');
+    expect(handheld.commands).toEqual([{ type: 'command', command: 'trigger_scan' }]);
+    expect(dock.commands).toEqual([]);
+
+    const results = await fleet.startRfidInventory();
+    expect(results.dock).toMatchObject({ status: 'fulfilled', value: { inventorySession: expect.any(String) } });
+    expect(results.handheld).toMatchObject({ status: 'rejected', reason: expect.objectContaining({ code: 'unsupported_capability' }) });
+
+    await expect(fleet.triggerScan('unknown')).rejects.toMatchObject({ code: 'unknown_device' });
+
+    fleet.disconnect();
+  });
+
+  it('should add existing clients and stop forwarding after removal', async () => {
+    const mock = new MockEdge();
+    const edge = new CleverenceEdge({ autoConnect: false, transport: mock.transport });
+    const fleet = new EdgeFleet();
+    const scanHandler = vi.fn();
+    fleet.on('scan', scanHandler);
+
+    fleet.add('cart', edge);
+    await edge.connect();
+    expect(fleet.connectionState).toBe('connected');
+
+    fleet.remove('cart');
+    mock.scan('after-removal');
+    await mock.settle();
+
+    expect(scanHandler).not.toHaveBeenCalled();
+    expect(edge.isConnected).toBe(true);
+    expect(fleet.deviceIds).toEqual([]);
+
+    edge.disconnect();
+  });
+});
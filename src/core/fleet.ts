@@ -0,0 +1,335 @@
+import { EventEmitter } from './events';
+import { CleverenceEdge } from './client';
+import { EdgeError } from './errors';
+import type {
+  ScanEvent,
+  RfidEvent,
+  DeviceCapabilities,
+  ConnectionState,
+  EdgeOptions,
+  RfidInventoryOptions,
+  CommandOptions,
+  CommandResults,
+} from '../types';
+
+/**
+ * A scan tagged with the device it came from
+ */
+export type FleetScanEvent = ScanEvent & { deviceId: string };
+
+/**
+ * An RFID read tagged with the device it came from
+ */
+export type FleetRfidEvent = RfidEvent & { deviceId: string };
+
+/**
+ * Aggregate connection state: no device, some devices or every device connected
+ */
+export type FleetConnectionState = 'disconnected' | 'partial' | 'connected';
+
+/**
+ * Which devices a fleet command is sent to: one device id, several, or all connected devices when omitted
+ */
+export type FleetTarget = string | string[];
+
+/**
+ * Per-device outcome of a fleet command
+ */
+export type FleetResults<T> = Record<string, PromiseSettledResult<T>>;
+
+/**
+ * Options for EdgeFleet
+ */
+export interface EdgeFleetOptions {
+  /** Devices to add right away, keyed by device id */
+  devices?: Record<string, EdgeOptions | CleverenceEdge>;
+  /** Options applied to every client the fleet creates (device options take precedence) */
+  defaults?: EdgeOptions;
+}
+
+/**
+ * Events emitted by EdgeFleet
+ */
+interface EdgeFleetEvents {
+  scan: FleetScanEvent;
+  rfid: FleetRfidEvent;
+  rfidBatch: { deviceId: string; events: RfidEvent[] };
+  deviceConnect: string;
+  deviceDisconnect: string;
+  deviceReconnecting: string;
+  capabilities: { deviceId: string; capabilities: DeviceCapabilities };
+  error: { deviceId: string; error: Error };
+  statechange: FleetConnectionState;
+  deviceAdded: string;
+  deviceRemoved: string;
+}
+
+interface FleetMember {
+  edge: CleverenceEdge;
+  /** Created by the fleet (and therefore disconnected when removed) */
+  owned: boolean;
+  unsubscribe: () => void;
+}
+
+/**
+ * Manages several Edge services at once, e.g. fixed dock-door readers plus handhelds.
+ * Events are re-emitted tagged with the id of the device they came from.
+ *
+ * @example
+ * ```typescript
+ * const fleet = new EdgeFleet({
+ *   devices: {
+ *     'dock-4': { url: 'ws://10.0.4.21:8585' },
+ *     'dock-5': { url: 'ws://10.0.4.22:8585' },
+ *   },
+ * });
+ *
+ * fleet.on('rfid', (event) => console.log(event.deviceId, event.epc));
+ *
+ * await fleet.startRfidInventory();                  // all connected devices
+ * await fleet.device('dock-4').triggerScan();        // one device
+ * ```
+ */
+export class EdgeFleet extends EventEmitter<EdgeFleetEvents> {
+  private members: Map<string, FleetMember> = new Map();
+  private defaults: EdgeOptions;
+  private _connectionState: FleetConnectionState = 'disconnected';
+
+  constructor(options: EdgeFleetOptions = {}) {
+    super();
+    this.defaults = options.defaults ?? {};
+    Object.entries(options.devices ?? {}).forEach(([deviceId, device]) => this.add(deviceId, device));
+  }
+
+  /** Ids of all devices in the fleet */
+  get deviceIds(): string[] {
+    return Array.from(this.members.keys());
+  }
+
+  /** Ids of the devices currently connected */
+  get connectedDeviceIds(): string[] {
+    return this.deviceIds.filter((deviceId) => this.members.get(deviceId)!.edge.isConnected);
+  }
+
+  /** Connection state of every device */
+  get states(): Record<string, ConnectionState> {
+    return this.mapMembers((edge) => edge.connectionState);
+  }
+
+  /** Aggregate connection state */
+  get connectionState(): FleetConnectionState {
+    return this._connectionState;
+  }
+
+  /** Last reported capabilities of every device (null until reported) */
+  get capabilities(): Record<string, DeviceCapabilities | null> {
+    return this.mapMembers((edge) => edge.capabilities);
+  }
+
+  /**
+   * Ids of connected devices with the given hardware
+   */
+  devicesWith(capability: 'barcode' | 'rfid' | 'nfc'): string[] {
+    return this.connectedDeviceIds.filter(
+      (deviceId) => this.members.get(deviceId)!.edge.capabilities?.[capability] != null
+    );
+  }
+
+  /**
+   * Check whether a device is part of the fleet
+   */
+  has(deviceId: string): boolean {
+    return this.members.has(deviceId);
+  }
+
+  /**
+   * Get the client for one device
+   */
+  device(deviceId: string): CleverenceEdge {
+    const member = this.members.get(deviceId);
+    if (!member) {
+      throw new EdgeError(`Unknown device: ${deviceId}`, 'unknown_device');
+    }
+    return member.edge;
+  }
+
+  /**
+   * Add a device from client options or an existing client
+   */
+  add(deviceId: string, device: EdgeOptions | CleverenceEdge): CleverenceEdge {
+    if (this.members.has(deviceId)) {
+      throw new EdgeError(`Device already added: ${deviceId}`, 'duplicate_device');
+    }
+
+    const owned = !(device instanceof CleverenceEdge);
+    const edge = device instanceof CleverenceEdge ? device : new CleverenceEdge({ ...this.defaults, ...device });
+    this.members.set(deviceId, { edge, owned, unsubscribe: this.forward(deviceId, edge) });
+
+    this.emit('deviceAdded', deviceId);
+    this.updateState();
+    return edge;
+  }
+
+  /**
+   * Remove a device. Clients created by the fleet are disconnected
+   */
+  remove(deviceId: string): void {
+    const member = this.members.get(deviceId);
+    if (!member) return;
+
+    member.unsubscribe();
+    this.members.delete(deviceId);
+    if (member.owned) {
+      member.edge.disconnect();
+    }
+
+    this.emit('deviceRemoved', deviceId);
+    this.updateState();
+  }
+
+  /**
+   * Connect every device. Resolves once each attempt has settled
+   */
+  async connect(): Promise<FleetResults<void>> {
+    return this.settle(this.deviceIds, (edge) => edge.connect());
+  }
+
+  /**
+   * Disconnect every device
+   */
+  disconnect(): void {
+    this.members.forEach((member) => member.edge.disconnect());
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Commands
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Run an operation on the targeted devices and collect each outcome
+   */
+  async broadcast<T>(
+    operation: (edge: CleverenceEdge, deviceId: string) => Promise<T>,
+    target?: FleetTarget
+  ): Promise<FleetResults<T>> {
+    return this.settle(this.resolveTarget(target), operation);
+  }
+
+  /**
+   * Trigger a scan on the targeted devices
+   */
+  triggerScan(target?: FleetTarget, options?: CommandOptions): Promise<FleetResults<void>> {
+    return this.broadcast((edge) => edge.triggerScan(options), target);
+  }
+
+  /**
+   * Set enabled symbologies on the targeted devices
+   */
+  setSymbologies(
+    symbologies: string[],
+    target?: FleetTarget,
+    options?: CommandOptions
+  ): Promise<FleetResults<CommandResults['set_symbologies']>> {
+    return this.broadcast((edge) => edge.setSymbologies(symbologies, options), target);
+  }
+
+  /**
+   * Start RFID inventory on the targeted devices
+   */
+  startRfidInventory(
+    inventoryOptions?: RfidInventoryOptions,
+    target?: FleetTarget,
+    options?: CommandOptions
+  ): Promise<FleetResults<CommandResults['start_rfid_inventory']>> {
+    return this.broadcast((edge) => edge.startRfidInventory(inventoryOptions, options), target);
+  }
+
+  /**
+   * Stop RFID inventory on the targeted devices
+   */
+  stopRfidInventory(
+    target?: FleetTarget,
+    options?: CommandOptions
+  ): Promise<FleetResults<CommandResults['stop_rfid_inventory']>> {
+    return this.broadcast((edge) => edge.stopRfidInventory(options), target);
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Private methods
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  private forward(deviceId: string, edge: CleverenceEdge): () => void {
+    const onScan = (event: ScanEvent) => this.emit('scan', { ...event, deviceId });
+    const onRfid = (event: RfidEvent) => this.emit('rfid', { ...event, deviceId });
+    const onRfidBatch = (events: RfidEvent[]) => this.emit('rfidBatch', { deviceId, events });
+    const onConnect = () => {
+      this.emit('deviceConnect', deviceId);
+      this.updateState();
+    };
+    const onDisconnect = () => {
+      this.emit('deviceDisconnect', deviceId);
+      this.updateState();
+    };
+    const onReconnecting = () => {
+      this.emit('deviceReconnecting', deviceId);
+      this.updateState();
+    };
+    const onCapabilities = (capabilities: DeviceCapabilities) =>
+      this.emit('capabilities', { deviceId, capabilities });
+    const onError = (error: Error) => this.emit('error', { deviceId, error });
+
+    edge.on('scan', onScan);
+    edge.on('rfid', onRfid);
+    edge.on('rfidBatch', onRfidBatch);
+    edge.on('connect', onConnect);
+    edge.on('disconnect', onDisconnect);
+    edge.on('reconnecting', onReconnecting);
+    edge.on('capabilities', onCapabilities);
+    edge.on('error', onError);
+
+    return () => {
+      edge.off('scan', onScan);
+      edge.off('rfid', onRfid);
+      edge.off('rfidBatch', onRfidBatch);
+      edge.off('connect', onConnect);
+      edge.off('disconnect', onDisconnect);
+      edge.off('reconnecting', onReconnecting);
+      edge.off('capabilities', onCapabilities);
+      edge.off('error', onError);
+    };
+  }
+
+  private resolveTarget(target?: FleetTarget): string[] {
+    if (target === undefined) {
+      return this.connectedDeviceIds;
+    }
+    const deviceIds = Array.isArray(target) ? target : [target];
+    deviceIds.forEach((deviceId) => this.device(deviceId));
+    return deviceIds;
+  }
+
+  private async settle<T>(
+    deviceIds: string[],
+    operation: (edge: CleverenceEdge, deviceId: string) => Promise<T>
+  ): Promise<FleetResults<T>> {
+    const outcomes = await Promise.allSettled(
+      deviceIds.map((deviceId) => Promise.resolve().then(() => operation(this.device(deviceId), deviceId)))
+    );
+    return Object.fromEntries(deviceIds.map((deviceId, i) => [deviceId, outcomes[i]]));
+  }
+
+  private mapMembers<T>(read: (edge: CleverenceEdge) => T): Record<string, T> {
+    return Object.fromEntries(Array.from(this.members, ([deviceId, member]) => [deviceId, read(member.edge)]));
+  }
+
+  private updateState(): void {
+    const connected = this.connectedDeviceIds.length;
+    const state: FleetConnectionState =
+      connected === 0 ? 'disconnected' : connected === this.members.size ? 'connected' : 'partial';
+
+    if (state !== this._connectionState) {
+      this._connectionState = state;
+      this.emit('statechange', state);
+    }
+  }
+}
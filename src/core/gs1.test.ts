@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { parseGs1, parseGs1Scan, gs1CheckDigit, isValidGs1CheckDigit } from './gs1';
+import { CleverenceEdge } from './client';
+import { MockEdge } from '../testing/mockEdge';
+import type { ScanEvent } from '../types';
+
+const GS = '\x1d';
+
+function toHex(text: string): string {
+  return Array.from(text, (char) => char.charCodeAt(0).toString(16).padStart(2, '0')).join('');
+}
+
+describe('gs1CheckDigit', () => {
+  it('should compute and verify GS1 mod-10 check digits', () => {
+    expect(gs1CheckDigit('0950110153000')).toBe(3);
+    expect(isValidGs1CheckDigit('09501101530003')).toBe(true);
+    expect(isValidGs1CheckDigit('09501101530004')).toBe(false);
+    expect(isValidGs1CheckDigit('106141411234567897')).toBe(true);
+  });
+});
+
+describe('parseGs1', () => {
+  it('should parse an element string with FNC1 separators and a symbology identifier', () => {
+    const gs1 = parseGs1(`]C101095011015300031725010010AB-12${GS}21XYZ${GS}3103001250`);
+
+    expect(gs1.valid).toBe(true);
+    expect(gs1).toMatchObject({
+      gtin: '09501101530003',
+      expiry: '2025-01-31',
+      batch: 'AB-12',
+      serial: 'XYZ',
+      netWeightKg: 1.25,
+    });
+    expect(gs1.elements.map((element) => element.ai)).toEqual(['01', '17', '10', '21', '3103']);
+  });
+
+  it('should parse the parenthesized human-readable form', () => {
+    const gs1 = parseGs1('(00)106141411234567897(37)24(3922)1999(11)240229');
+
+    expect(gs1.valid).toBe(true);
+    expect(gs1).toMatchObject({ sscc: '106141411234567897', count: 24, price: 19.99, productionDate: '2024-02-29' });
+  });
+
+  it('should report invalid check digits, dates and unknown AIs', () => {
+    const gs1 = parseGs1('(01)09501101530004(17)251331');
+
+    expect(gs1.valid).toBe(false);
+    expect(gs1.gtin).toBeUndefined();
+    expect(gs1.errors).toEqual(['(01) GTIN has an invalid check digit', '(17) USE BY OR EXPIRY is not a valid date']);
+
+    expect(parseGs1('0109501101530003' + '59ABC').errors).toEqual(['Unknown application identifier at position 16']);
+    expect(parseGs1('(01)0950110153').errors).toEqual(['(01) GTIN must be 14 characters']);
+    expect(parseGs1('').valid).toBe(false);
+  });
+});
+
+describe('parseGs1Scan', () => {
+  const scan = (overrides: Partial<ScanEvent>): ScanEvent => ({
+    type: 'scan',
+    id: 'scan-1',
+    timestamp: new Date(),
+    data: '',
+    symbology: 'code128',
+    source: 'test',
+    vendor: 'test',
+    ...overrides,
+  });
+
+  it('should prefer bytesHex, which keeps FNC1 separators', () => {
+    const raw = `0109501101530003${'10'}LOT1${GS}21SN1`;
+    const event = scan({
+      data: '010950110153000310LOT121SN1',
+      symbology: 'gs1-128',
+      raw: { bytesHex: toHex(raw), symbologyId: 'C', aimId: ']C1', signalStrength: null, scanDurationMs: 20 },
+    });
+
+    expect(parseGs1Scan(event)).toMatchObject({ batch: 'LOT1', serial: 'SN1', valid: true });
+  });
+
+  it('should return null for non-GS1 scans', () => {
+    expect(parseGs1Scan(scan({ data: '012345678905', symbology: 'ean13' }))).toBeNull();
+  });
+
+  it('should attach gs1 to scan events when enabled', async () => {
+    const mock = new MockEdge();
+    const edge = new CleverenceEdge({ autoConnect: false, transport: mock.transport, parseGs1: true });
+    await edge.connect();
+    const scanPromise = edge.waitForScan();
+
+    mock.scan('(01)09501101530003(21)ABC', { symbology: 'gs1-datamatrix' });
+
+    await expect(scanPromise).resolves.toMatchObject({ gs1: { gtin: '09501101530003', serial: 'ABC' } });
+    edge.disconnect();
+  });
+});
@@ -0,0 +1,302 @@
+import { decodeBytes, hexToBytes } from './bytes';
+import type { Gs1Data, Gs1Element, Gs1Field, ScanEvent } from '../types';
+
+/** Group separator: the FNC1 that ends variable-length fields */
+const GS = '\x1d';
+
+/** Symbology identifiers of GS1 barcodes: GS1-128, GS1 DataMatrix, GS1 QR Code, GS1 DataBar */
+const GS1_SYMBOLOGY_IDS = [']C1', ']d2', ']Q3', ']e0'];
+
+type AiFormat = 'numeric' | 'alphanumeric' | 'date' | 'decimal' | 'integer';
+
+interface AiDefinition {
+  title: string;
+  format: AiFormat;
+  /** Fixed data length */
+  length?: number;
+  /** Maximum data length of variable-length AIs */
+  maxLength?: number;
+  /** Last digit is a GS1 mod-10 check digit */
+  checkDigit?: boolean;
+  /** Gs1Data field the value is copied to */
+  field?: Gs1Field;
+}
+
+const AI_DEFINITIONS: Record<string, AiDefinition> = {
+  '00': { title: 'SSCC', format: 'numeric', length: 18, checkDigit: true, field: 'sscc' },
+  '01': { title: 'GTIN', format: 'numeric', length: 14, checkDigit: true, field: 'gtin' },
+  '02': { title: 'CONTENT', format: 'numeric', length: 14, checkDigit: true, field: 'content' },
+  '10': { title: 'BATCH/LOT', format: 'alphanumeric', maxLength: 20, field: 'batch' },
+  '11': { title: 'PROD DATE', format: 'date', field: 'productionDate' },
+  '12': { title: 'DUE DATE', format: 'date' },
+  '13': { title: 'PACK DATE', format: 'date', field: 'packagingDate' },
+  '15': { title: 'BEST BEFORE or BEST BY', format: 'date', field: 'bestBefore' },
+  '16': { title: 'SELL BY', format: 'date', field: 'sellBy' },
+  '17': { title: 'USE BY OR EXPIRY', format: 'date', field: 'expiry' },
+  '20': { title: 'VARIANT', format: 'numeric', length: 2, field: 'variant' },
+  '21': { title: 'SERIAL', format: 'alphanumeric', maxLength: 20, field: 'serial' },
+  '22': { title: 'CPV', format: 'alphanumeric', maxLength: 20 },
+  '30': { title: 'VAR. COUNT', format: 'integer', maxLength: 8, field: 'count' },
+  '37': { title: 'COUNT', format: 'integer', maxLength: 8, field: 'count' },
+  '240': { title: 'ADDITIONAL ID', format: 'alphanumeric', maxLength: 30 },
+  '241': { title: 'CUST. PART No.', format: 'alphanumeric', maxLength: 30 },
+  '250': { title: 'SECONDARY SERIAL', format: 'alphanumeric', maxLength: 30 },
+  '400': { title: 'ORDER NUMBER', format: 'alphanumeric', maxLength: 30 },
+  '410': { title: 'SHIP TO LOC', format: 'numeric', length: 13, checkDigit: true },
+  '411': { title: 'BILL TO', format: 'numeric', length: 13, checkDigit: true },
+  '412': { title: 'PURCHASE FROM', format: 'numeric', length: 13, checkDigit: true },
+  '413': { title: 'SHIP FOR LOC', format: 'numeric', length: 13, checkDigit: true },
+  '414': { title: 'LOC No.', format: 'numeric', length: 13, checkDigit: true },
+  '415': { title: 'PAY TO', format: 'numeric', length: 13, checkDigit: true },
+  '420': { title: 'SHIP TO POST', format: 'alphanumeric', maxLength: 20 },
+  '8004': { title: 'GIAI', format: 'alphanumeric', maxLength: 30 },
+  '8020': { title: 'REF No.', format: 'alphanumeric', maxLength: 25 },
+  '90': { title: 'INTERNAL', format: 'alphanumeric', maxLength: 30 },
+};
+
+/** AIs whose last digit gives the number of implied decimal places, keyed by the first three digits */
+const DECIMAL_AIS: Record<string, AiDefinition> = {
+  '310': { title: 'NET WEIGHT (kg)', format: 'decimal', length: 6, field: 'netWeightKg' },
+  '311': { title: 'LENGTH (m)', format: 'decimal', length: 6 },
+  '320': { title: 'NET WEIGHT (lb)', format: 'decimal', length: 6, field: 'netWeightLb' },
+  '330': { title: 'GROSS WEIGHT (kg)', format: 'decimal', length: 6, field: 'grossWeightKg' },
+  '392': { title: 'PRICE', format: 'decimal', maxLength: 15, field: 'price' },
+};
+
+/**
+ * Data length of AIs that never need a separator, keyed by the first two digits of the AI
+ */
+const PREDEFINED_LENGTHS: Record<string, number> = {
+  '00': 18, '01': 14, '02': 14, '03': 14, '04': 16,
+  '11': 6, '12': 6, '13': 6, '14': 6, '15': 6, '16': 6, '17': 6, '18': 6, '19': 6,
+  '20': 2,
+  '31': 6, '32': 6, '33': 6, '34': 6, '35': 6, '36': 6,
+  '41': 13,
+};
+
+/** Alphanumeric AIs allow the 82 characters of GS1 "AI encodable character set 82" */
+const CSET_82 = /^[!"%&'()*+,\-./0-9:;<=>?A-Z_a-z]*$/;
+
+/**
+ * Length of the AI starting with the given two digits (GS1 General Specifications, AI prefix table)
+ */
+function aiLength(prefix: string): number | null {
+  const n = Number(prefix);
+  if (!/^\d\d$/.test(prefix)) return null;
+  if (n <= 22 || n === 30 || n === 37 || n >= 90) return 2;
+  if (n === 23 || (n >= 24 && n <= 25) || (n >= 40 && n <= 42) || n === 71) return 3;
+  if ((n >= 31 && n <= 36) || n === 39 || n === 43 || n === 70 || n === 72 || (n >= 80 && n <= 82)) return 4;
+  return null;
+}
+
+function definitionFor(ai: string): AiDefinition | undefined {
+  if (AI_DEFINITIONS[ai]) return AI_DEFINITIONS[ai];
+  if (ai.length === 4 && DECIMAL_AIS[ai.substring(0, 3)]) return DECIMAL_AIS[ai.substring(0, 3)];
+  if (/^9[1-9]$/.test(ai)) return { title: 'INTERNAL', format: 'alphanumeric', maxLength: 90 };
+  return undefined;
+}
+
+/**
+ * Compute the GS1 mod-10 check digit for digits that do not include it yet
+ */
+export function gs1CheckDigit(digits: string): number {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    // Weights alternate 3, 1, 3... starting from the rightmost digit
+    const weight = (digits.length - i) % 2 === 1 ? 3 : 1;
+    sum += Number(digits[i]) * weight;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Check the trailing GS1 mod-10 check digit (GTIN, SSCC, GLN...)
+ */
+export function isValidGs1CheckDigit(digits: string): boolean {
+  return /^\d{2,}$/.test(digits) && gs1CheckDigit(digits.slice(0, -1)) === Number(digits[digits.length - 1]);
+}
+
+/**
+ * Parse a GS1 element string.
+ * Accepts the raw form with FNC1 separators (`\x1d`), with or without a symbology identifier such as
+ * `]C1`, and the human-readable form with parenthesized AIs: `(01)09501101530003(17)250101(10)AB12`.
+ *
+ * @example
+ * ```typescript
+ * const gs1 = parseGs1('01095011015300031725010110AB12\x1d21XYZ');
+ * gs1.gtin;    // "09501101530003"
+ * gs1.expiry;  // "2025-01-01"
+ * gs1.batch;   // "AB12"
+ * ```
+ */
+export function parseGs1(input: string): Gs1Data {
+  let text = input.trim();
+  if (/^\][A-Za-z][0-9A-Za-z]/.test(text)) {
+    text = text.substring(3);
+  }
+
+  const result: Gs1Data = { elements: [], valid: true, errors: [] };
+  const pairs = text.startsWith('(') ? splitBracketed(text, result) : splitRaw(text, result);
+  pairs.forEach(([ai, raw]) => addElement(result, decodeElement(ai, raw)));
+
+  if (result.elements.length === 0 && result.errors.length === 0) {
+    result.errors.push('No GS1 element string found');
+  }
+  result.valid = result.errors.length === 0;
+  return result;
+}
+
+/**
+ * Decode the GS1 data of a scan, or return null if the scan is not a GS1 barcode.
+ * Prefers `raw.bytesHex`, which keeps FNC1 separators some scanners strip from `data`.
+ */
+export function parseGs1Scan(event: ScanEvent): Gs1Data | null {
+  if (!isGs1Scan(event)) return null;
+  const bytes = event.raw?.bytesHex ? hexToBytes(event.raw.bytesHex) : null;
+  return parseGs1((bytes && decodeBytes(bytes, 'binary')) || event.data);
+}
+
+/**
+ * Whether a scan carries GS1 data, judged by its AIM identifier, symbology name or content
+ */
+export function isGs1Scan(event: ScanEvent): boolean {
+  const aimId = event.raw?.aimId ?? '';
+  return (
+    event.canonicalSymbology?.startsWith('gs1-') ||
+    GS1_SYMBOLOGY_IDS.includes(aimId) ||
+    GS1_SYMBOLOGY_IDS.some((id) => event.data.startsWith(id)) ||
+    /gs1|ean-?128|ucc-?128/i.test(event.symbology) ||
+    event.data.includes(GS) ||
+    /^\(\d{2,4}\)/.test(event.data)
+  );
+}
+
+function splitBracketed(text: string, result: Gs1Data): Array<[string, string]> {
+  const pairs: Array<[string, string]> = [];
+  const pattern = /\((\d{2,4})\)([^(]*)/g;
+  let consumed = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index !== consumed) break;
+    pairs.push([match[1], match[2]]);
+    consumed = pattern.lastIndex;
+  }
+  if (consumed !== text.length) {
+    result.errors.push(`Unexpected text at position ${consumed}`);
+  }
+  return pairs;
+}
+
+function splitRaw(text: string, result: Gs1Data): Array<[string, string]> {
+  const pairs: Array<[string, string]> = [];
+  let pos = 0;
+
+  while (pos < text.length) {
+    if (text[pos] === GS) {
+      pos++;
+      continue;
+    }
+
+    const length = aiLength(text.substring(pos, pos + 2));
+    const ai = text.substring(pos, pos + (length ?? 0));
+    if (length === null || !/^\d+$/.test(ai) || ai.length !== length) {
+      result.errors.push(`Unknown application identifier at position ${pos}`);
+      break;
+    }
+    pos += length;
+
+    const fixed = PREDEFINED_LENGTHS[ai.substring(0, 2)];
+    if (fixed !== undefined) {
+      pairs.push([ai, text.substring(pos, pos + fixed)]);
+      pos += fixed;
+    } else {
+      const end = text.indexOf(GS, pos);
+      pairs.push([ai, text.substring(pos, end === -1 ? text.length : end)]);
+      pos = end === -1 ? text.length : end + 1;
+    }
+  }
+
+  return pairs;
+}
+
+function decodeElement(ai: string, raw: string): Gs1Element {
+  const definition = definitionFor(ai);
+  if (!definition) {
+    return { ai, title: 'UNKNOWN', raw, value: raw };
+  }
+
+  const element: Gs1Element = { ai, title: definition.title, raw, value: raw };
+  const label = `(${ai}) ${definition.title}`;
+
+  if (definition.length !== undefined && raw.length !== definition.length) {
+    element.error = `${label} must be ${definition.length} characters`;
+  } else if (definition.format === 'date' && raw.length !== 6) {
+    element.error = `${label} must be 6 digits (YYMMDD)`;
+  } else if (raw.length === 0 || raw.length > (definition.maxLength ?? Infinity)) {
+    element.error = `${label} must be 1 to ${definition.maxLength} characters`;
+  } else if (definition.format === 'alphanumeric' ? !CSET_82.test(raw) : !/^\d+$/.test(raw)) {
+    element.error = `${label} contains invalid characters`;
+  } else if (definition.checkDigit && !isValidGs1CheckDigit(raw)) {
+    element.error = `${label} has an invalid check digit`;
+  } else if (definition.format === 'date') {
+    const date = parseGs1Date(raw);
+    if (date === null) {
+      element.error = `${label} is not a valid date`;
+    } else {
+      element.value = date;
+    }
+  } else if (definition.format === 'decimal') {
+    element.value = Number(raw) / Math.pow(10, Number(ai[3]));
+  } else if (definition.format === 'integer') {
+    element.value = Number(raw);
+  }
+
+  return element;
+}
+
+function addElement(result: Gs1Data, element: Gs1Element): void {
+  result.elements.push(element);
+  if (element.error) {
+    result.errors.push(element.error);
+    return;
+  }
+
+  const field = definitionFor(element.ai)?.field;
+  if (!field || result[field] !== undefined) return;
+
+  // The first occurrence wins; numeric fields come from integer and decimal AIs, the rest are strings
+  switch (field) {
+    case 'count':
+    case 'netWeightKg':
+    case 'netWeightLb':
+    case 'grossWeightKg':
+    case 'price':
+      if (typeof element.value === 'number') result[field] = element.value;
+      break;
+    default:
+      if (typeof element.value === 'string') result[field] = element.value;
+  }
+}
+
+/**
+ * Convert YYMMDD to YYYY-MM-DD. Day 00 means the last day of the month; the century is chosen
+ * per the GS1 rule (within 49 years back or 50 years ahead of the current year).
+ */
+function parseGs1Date(raw: string): string | null {
+  const yy = Number(raw.substring(0, 2));
+  const month = Number(raw.substring(2, 4));
+  let day = Number(raw.substring(4, 6));
+
+  const currentYear = new Date().getFullYear();
+  const diff = yy - (currentYear % 100);
+  const century = Math.floor(currentYear / 100) + (diff >= 51 ? -1 : diff <= -50 ? 1 : 0);
+  const year = century * 100 + yy;
+
+  if (month < 1 || month > 12) return null;
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (day === 0) day = daysInMonth;
+  if (day > daysInMonth) return null;
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
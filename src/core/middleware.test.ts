@@ -0,0 +1,126 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MiddlewareChain } from './middleware';
+import { CleverenceEdge } from './client';
+import { MiddlewareError } from './errors';
+import { MockEdge } from '../testing/mockEdge';
+import type { EdgeEvent, ScanEvent } from '../types';
+
+function scan(data: string): ScanEvent {
+  return { type: 'scan', id: data, timestamp: new Date(), data, symbology: 'code128', source: 'test', vendor: 'test' };
+}
+
+function dataOf(events: EdgeEvent[]): string[] {
+  return events.map((event) => (event.type === 'scan' ? event.data : event.epc));
+}
+
+describe('MiddlewareChain', () => {
+  it('should run middlewares in order and deliver synchronously', () => {
+    const chain = new MiddlewareChain(vi.fn());
+    const deliver = vi.fn();
+
+    chain.use((event) => (event.type === 'scan' ? { ...event, data: event.data.trim() } : event));
+    chain.use((event) => (event.type === 'scan' && event.data === '' ? null : event));
+    chain.use((event) => ({ ...event, meta: { step: 'pick' } }));
+
+    chain.run([scan('  A1  '), scan('   ')], deliver);
+
+    expect(deliver).toHaveBeenCalledTimes(1);
+    expect(dataOf(deliver.mock.calls[0][0])).toEqual(['A1']);
+    expect(deliver.mock.calls[0][0][0].meta).toEqual({ step: 'pick' });
+  });
+
+  it('should keep events in arrival order when a middleware delays them', async () => {
+    const chain = new MiddlewareChain(vi.fn());
+    const delivered: string[] = [];
+    const deliver = (events: EdgeEvent[]) => delivered.push(...dataOf(events));
+
+    chain.use(async (event) => {
+      if (event.type === 'scan' && event.data === 'slow') {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      return event;
+    });
+
+    chain.run([scan('slow')], deliver);
+    chain.run([scan('fast')], deliver);
+    expect(delivered).toEqual([]);
+
+    await vi.waitFor(() => expect(delivered).toEqual(['slow', 'fast']));
+  });
+
+  it('should isolate failing middlewares and report them', async () => {
+    const onError = vi.fn();
+    const chain = new MiddlewareChain(onError);
+    const deliver = vi.fn();
+
+    chain.use(
+      () => {
+        throw new Error('lookup failed');
+      },
+      { name: 'lookup' }
+    );
+    chain.use(async () => Promise.reject(new Error('still broken')), { name: 'remote' });
+    chain.use((event) => ({ ...event, meta: { ok: true } }));
+
+    chain.run([scan('A1')], deliver);
+    await vi.waitFor(() => expect(deliver).toHaveBeenCalled());
+
+    expect(deliver.mock.calls[0][0][0]).toMatchObject({ data: 'A1', meta: { ok: true } });
+    expect(onError).toHaveBeenCalledTimes(2);
+    expect(onError.mock.calls[0][0]).toBeInstanceOf(MiddlewareError);
+    expect(onError.mock.calls[0][0]).toMatchObject({ middleware: 'lookup', code: 'middleware_error' });
+    expect(chain.timings.map(({ name, calls, errors }) => ({ name, calls, errors }))).toEqual([
+      { name: 'lookup', calls: 1, errors: 1 },
+      { name: 'remote', calls: 1, errors: 1 },
+      { name: 'middleware-3', calls: 1, errors: 0 },
+    ]);
+  });
+
+  it('should remove a middleware with the returned function', () => {
+    const chain = new MiddlewareChain(vi.fn());
+    const deliver = vi.fn();
+    const remove = chain.use(() => null);
+
+    chain.run([scan('A1')], deliver);
+    remove();
+    chain.run([scan('A2')], deliver);
+
+    expect(dataOf(deliver.mock.calls[0][0])).toEqual([]);
+    expect(dataOf(deliver.mock.calls[1][0])).toEqual(['A2']);
+    expect(chain.size).toBe(0);
+  });
+});
+
+describe('CleverenceEdge middleware', () => {
+  it('should apply middleware before scan and RFID events are emitted', async () => {
+    const mock = new MockEdge();
+    const edge = new CleverenceEdge({ autoConnect: false, transport: mock.transport });
+    await edge.connect();
+    const scanHandler = vi.fn();
+    const batchHandler = vi.fn();
+    const errorHandler = vi.fn();
+    edge.on('scan', scanHandler);
+    edge.on('rfidBatch', batchHandler);
+    edge.on('error', errorHandler);
+
+    edge.use(function stripPrefix(event) {
+      return event.type === 'scan' ? { ...event, data: event.data.replace(/^LOC:/, '') } : event;
+    });
+    edge.use((event) => (event.type === 'rfid' && event.rssi < -70 ? null : event), { name: 'rssiFloor' });
+    edge.use(() => {
+      throw new Error('boom');
+    });
+
+    mock.scan('LOC:A-01');
+    mock.rfidBatch([{ epc: 'NEAR', rssi: -40 }, { epc: 'FAR', rssi: -80 }]);
+    await mock.settle();
+
+    expect(scanHandler.mock.calls[0][0].data).toBe('A-01');
+    expect(dataOf(batchHandler.mock.calls[0][0])).toEqual(['NEAR']);
+    expect(errorHandler.mock.calls[0][0]).toBeInstanceOf(MiddlewareError);
+    expect(edge.middlewareTimings.map((timing) => timing.name)).toEqual(['stripPrefix', 'rssiFloor', 'middleware-3']);
+    expect(edge.middlewareTimings[1]).toMatchObject({ calls: 3, dropped: 1 });
+
+    edge.disconnect();
+  });
+});
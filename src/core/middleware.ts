@@ -0,0 +1,201 @@
+import { MiddlewareError } from './errors';
+import type { EdgeEvent } from '../types';
+
+/**
+ * What a middleware returns: the event (or a replacement) to continue, `null` to drop it,
+ * `undefined` to pass it on unchanged, or a promise of any of these to delay it
+ */
+export type MiddlewareResult = EdgeEvent | null | undefined | void;
+
+/**
+ * Runs on every scan and RFID event before it is emitted
+ */
+export type EdgeMiddleware = (event: EdgeEvent) => MiddlewareResult | Promise<MiddlewareResult>;
+
+/**
+ * Options for `edge.use()`
+ */
+export interface MiddlewareOptions {
+  /** Name used in timings and errors. Default: the function name, or 'middleware-<n>' */
+  name?: string;
+}
+
+/**
+ * Time spent in one middleware since it was registered
+ */
+export interface MiddlewareTiming {
+  name: string;
+  /** Events processed */
+  calls: number;
+  /** Events dropped by this middleware */
+  dropped: number;
+  /** Calls that threw or rejected */
+  errors: number;
+  /** Total time spent, including time the middleware delayed events, in ms */
+  totalMs: number;
+  /** Slowest call in ms */
+  maxMs: number;
+}
+
+interface Entry {
+  middleware: EdgeMiddleware;
+  timing: MiddlewareTiming;
+}
+
+type Pending<T> = T | Promise<T>;
+
+/**
+ * Ordered middleware pipeline for events.
+ * Events leave in the order they arrived: while one waits on an async middleware, later events queue
+ * behind it. A middleware that throws is skipped for that event and reported through `onError`.
+ */
+export class MiddlewareChain {
+  private entries: Entry[] = [];
+  private tail: Promise<void> | null = null;
+  private registered = 0;
+  private onError: (error: MiddlewareError) => void;
+
+  constructor(onError: (error: MiddlewareError) => void) {
+    this.onError = onError;
+  }
+
+  /** Number of registered middlewares */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /** Timing of every registered middleware, in execution order */
+  get timings(): MiddlewareTiming[] {
+    return this.entries.map((entry) => ({ ...entry.timing }));
+  }
+
+  /**
+   * Append a middleware. Returns a function that removes it
+   */
+  use(middleware: EdgeMiddleware, options: MiddlewareOptions = {}): () => void {
+    this.registered++;
+    const name = options.name ?? (middleware.name || `middleware-${this.registered}`);
+    const entry: Entry = { middleware, timing: { name, calls: 0, dropped: 0, errors: 0, totalMs: 0, maxMs: 0 } };
+    this.entries.push(entry);
+    return () => {
+      this.entries = this.entries.filter((candidate) => candidate !== entry);
+    };
+  }
+
+  /**
+   * Pass a group of events through the chain and hand the survivors to `deliver` in one call.
+   * Delivery is synchronous unless a middleware returns a promise or earlier events are still pending.
+   */
+  run(events: EdgeEvent[], deliver: (events: EdgeEvent[]) => void): void {
+    const entries = this.entries;
+
+    if (this.tail) {
+      this.enqueue(this.tail.then(() => this.processGroup(events, entries)), deliver);
+      return;
+    }
+
+    const result = this.processGroup(events, entries);
+    if (isPromise(result)) {
+      this.enqueue(result, deliver);
+    } else {
+      deliver(result);
+    }
+  }
+
+  private enqueue(result: Promise<EdgeEvent[]>, deliver: (events: EdgeEvent[]) => void): void {
+    const tail = result.then(deliver);
+    this.tail = tail;
+    tail.finally(() => {
+      if (this.tail === tail) this.tail = null;
+    });
+  }
+
+  private processGroup(events: EdgeEvent[], entries: Entry[]): Pending<EdgeEvent[]> {
+    const output: EdgeEvent[] = [];
+
+    for (let i = 0; i < events.length; i++) {
+      const result = this.processEvent(events[i], entries, 0);
+      if (isPromise(result)) {
+        const rest = events.slice(i + 1);
+        return (async () => {
+          const first = await result;
+          if (first) output.push(first);
+          for (const event of rest) {
+            const next = await this.processEvent(event, entries, 0);
+            if (next) output.push(next);
+          }
+          return output;
+        })();
+      }
+      if (result) output.push(result);
+    }
+
+    return output;
+  }
+
+  private processEvent(event: EdgeEvent, entries: Entry[], from: number): Pending<EdgeEvent | null> {
+    let current = event;
+
+    for (let i = from; i < entries.length; i++) {
+      const entry = entries[i];
+      const startedAt = now();
+      let result: MiddlewareResult | Promise<MiddlewareResult>;
+
+      try {
+        result = entry.middleware(current);
+      } catch (error) {
+        this.fail(entry, startedAt, error);
+        continue;
+      }
+
+      if (isPromise(result)) {
+        const input = current;
+        return result
+          .then(
+            (value) => this.settle(entry, startedAt, value, input),
+            (error: unknown) => {
+              this.fail(entry, startedAt, error);
+              return input;
+            }
+          )
+          .then((next) => (next === null ? null : this.processEvent(next, entries, i + 1)));
+      }
+
+      const next = this.settle(entry, startedAt, result, current);
+      if (next === null) return null;
+      current = next;
+    }
+
+    return current;
+  }
+
+  private settle(entry: Entry, startedAt: number, result: MiddlewareResult, input: EdgeEvent): EdgeEvent | null {
+    this.record(entry, startedAt);
+    if (result === null) {
+      entry.timing.dropped++;
+      return null;
+    }
+    return result ?? input;
+  }
+
+  private fail(entry: Entry, startedAt: number, error: unknown): void {
+    this.record(entry, startedAt);
+    entry.timing.errors++;
+    this.onError(new MiddlewareError(entry.timing.name, error));
+  }
+
+  private record(entry: Entry, startedAt: number): void {
+    const elapsed = now() - startedAt;
+    entry.timing.calls++;
+    entry.timing.totalMs += elapsed;
+    entry.timing.maxMs = Math.max(entry.timing.maxMs, elapsed);
+  }
+}
+
+function isPromise<T>(value: T | Promise<T>): value is Promise<T> {
+  return typeof (value as Promise<T> | null)?.then === 'function';
+}
+
+function now(): number {
+  return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
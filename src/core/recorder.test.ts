@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { SessionRecorder } from './recorder';
+import { CleverenceEdge } from './client';
+import { MockEdge } from '../testing/mockEdge';
+
+describe('SessionRecorder', () => {
+  it('should record inbound and outbound messages with timestamps', async () => {
+    const mock = new MockEdge();
+    const recorder = new SessionRecorder();
+    const edge = new CleverenceEdge({ autoConnect: false, transport: recorder.wrap(mock.transport) });
+
+    await edge.connect();
+    mock.scan('012345678905');
+    await mock.settle();
+    edge.disconnect();
+
+    const kinds = recorder.entries.map((entry) => entry.kind);
+    expect(kinds[0]).toBe('open');
+    expect(kinds[kinds.length - 1]).toBe('close');
+    expect(recorder.entries).toContainEqual(expect.objectContaining({
+      kind: 'out',
+      message: expect.objectContaining({ type: 'hello' }),
+    }));
+    expect(recorder.entries).toContainEqual(expect.objectContaining({
+      kind: 'in',
+      message: expect.objectContaining({ type: 'event' }),
+    }));
+    expect(recorder.entries.every((entry) => typeof entry.t === 'number' && entry.t >= 0)).toBe(true);
+  });
+
+  it('should serialize to JSONL and parse it back', async () => {
+    const mock = new MockEdge();
+    const recorder = new SessionRecorder();
+    const edge = new CleverenceEdge({ autoConnect: false, transport: recorder.wrap(mock.transport) });
+    await edge.connect();
+    edge.disconnect();
+
+    const jsonl = recorder.toJSONL();
+    const lines = jsonl.trim().split('\n');
+    expect(JSON.parse(lines[0])).toMatchObject({ kind: 'recording', version: 1 });
+    expect(lines).toHaveLength(recorder.entries.length + 1);
+    expect(SessionRecorder.parse(jsonl)).toEqual(recorder.entries);
+  });
+
+  it('should redact credentials and keep a bounded number of entries', async () => {
+    const mock = new MockEdge({ apiKeys: ['secret-key'] });
+    const streamed: unknown[] = [];
+    const recorder = new SessionRecorder({ maxEntries: 3, onEntry: (entry) => streamed.push(entry) });
+    const edge = new CleverenceEdge({
+      autoConnect: false,
+      apiKey: 'secret-key',
+      transport: recorder.wrap(mock.transport),
+    });
+
+    await edge.connect();
+    expect(JSON.stringify(streamed)).not.toContain('secret-key');
+    expect(streamed).toContainEqual(expect.objectContaining({
+      kind: 'out',
+      message: expect.objectContaining({ type: 'hello', apiKey: '[redacted]' }),
+    }));
+
+    for (let i = 0; i < 5; i++) mock.scan(`code-${i}`);
+    await mock.settle();
+    expect(recorder.entries).toHaveLength(3);
+
+    edge.disconnect();
+  });
+});
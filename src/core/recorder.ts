@@ -0,0 +1,170 @@
+import { WebSocketTransport } from './transport';
+import type { RecordingEntry, RecordingHeader, Transport, TransportConnection } from '../types';
+
+/**
+ * Options for SessionRecorder
+ */
+export interface SessionRecorderOptions {
+  /** Maximum number of entries kept; the oldest are discarded first. Default: 10000 */
+  maxEntries?: number;
+  /** Replace API keys and paired tokens with '[redacted]'. Default: true */
+  redactCredentials?: boolean;
+  /** Called for every entry as it is recorded (e.g. to stream it to storage) */
+  onEntry?: (entry: RecordingEntry) => void;
+}
+
+const REDACTED = '[redacted]';
+
+/**
+ * Records every message exchanged with the Edge service, with timestamps, as JSONL.
+ * Wrap the transport passed to CleverenceEdge; the recording can be replayed with ReplayTransport.
+ *
+ * @example
+ * ```typescript
+ * const recorder = new SessionRecorder();
+ * const edge = new CleverenceEdge({ transport: recorder.wrap() });
+ *
+ * // Later, attach the recording to a support ticket
+ * const blob = new Blob([recorder.toJSONL()], { type: 'application/x-ndjson' });
+ * ```
+ */
+export class SessionRecorder {
+  private options: Required<Omit<SessionRecorderOptions, 'onEntry'>> & Pick<SessionRecorderOptions, 'onEntry'>;
+  private _entries: RecordingEntry[] = [];
+  private startedAt = Date.now();
+  /** URL of the connection the oldest kept entry belongs to, when its 'open' entry was trimmed */
+  private trimmedUrl: string | null = null;
+
+  constructor(options: SessionRecorderOptions = {}) {
+    this.options = {
+      maxEntries: options.maxEntries ?? 10000,
+      redactCredentials: options.redactCredentials ?? true,
+      onEntry: options.onEntry,
+    };
+  }
+
+  /**
+   * Parse a JSONL recording into entries (the header line is skipped)
+   */
+  static parse(jsonl: string): RecordingEntry[] {
+    return jsonl
+      .split('\n')
+      .filter((line) => line.trim() !== '')
+      .map((line) => JSON.parse(line) as RecordingEntry | RecordingHeader)
+      .filter((entry): entry is RecordingEntry => entry.kind !== 'recording');
+  }
+
+  /** Recorded entries, oldest first */
+  get entries(): RecordingEntry[] {
+    return [...this._entries];
+  }
+
+  /**
+   * Wrap a transport so that everything it carries is recorded.
+   * Defaults to a WebSocketTransport using the global WebSocket.
+   */
+  wrap(transport: Transport = new WebSocketTransport()): Transport {
+    return {
+      connect: (url, handlers): TransportConnection => {
+        const connection = transport.connect(url, {
+          onOpen: () => {
+            this.record({ t: this.now(), kind: 'open', url });
+            handlers.onOpen();
+          },
+          onMessage: (data) => {
+            this.record({ t: this.now(), kind: 'in', message: this.redact(parseMessage(data)) });
+            handlers.onMessage(data);
+          },
+          onClose: () => {
+            this.record({ t: this.now(), kind: 'close' });
+            handlers.onClose();
+          },
+          onError: (error) => handlers.onError(error),
+        });
+
+        return {
+          get isOpen() {
+            return connection.isOpen;
+          },
+          send: (data) => {
+            connection.send(data);
+            this.record({ t: this.now(), kind: 'out', message: this.redact(parseMessage(data)) });
+          },
+          close: () => connection.close(),
+        };
+      },
+    };
+  }
+
+  /**
+   * Serialize the recording as JSONL: a header line followed by one entry per line
+   */
+  toJSONL(): string {
+    const header: RecordingHeader = {
+      kind: 'recording',
+      version: 1,
+      startedAt: new Date(this.startedAt).toISOString(),
+    };
+    return [header, ...this._entries].map((entry) => JSON.stringify(entry)).join('\n') + '\n';
+  }
+
+  /**
+   * Discard all entries and restart the clock
+   */
+  clear(): void {
+    this._entries = [];
+    this.trimmedUrl = null;
+    this.startedAt = Date.now();
+  }
+
+  private record(entry: RecordingEntry): void {
+    this._entries.push(entry);
+    if (this._entries.length > this.options.maxEntries) {
+      const removed = this._entries.splice(0, this._entries.length - this.options.maxEntries);
+      removed.forEach((trimmed) => {
+        if (trimmed.kind === 'open') this.trimmedUrl = trimmed.url;
+        if (trimmed.kind === 'close') this.trimmedUrl = null;
+      });
+      // Replay starts each connection at its 'open' entry, so put one back in front of the kept entries
+      const first = this._entries[0];
+      if (this.trimmedUrl !== null && (first.kind === 'in' || first.kind === 'out')) {
+        this._entries[0] = { t: first.t, kind: 'open', url: this.trimmedUrl };
+      }
+    }
+    this.options.onEntry?.(entry);
+  }
+
+  /**
+   * Strip credentials from hello requests and tokens from pairing responses
+   */
+  private redact(message: unknown): unknown {
+    if (!this.options.redactCredentials || typeof message !== 'object' || message === null) {
+      return message;
+    }
+    const { apiKey, token, data } = message as { apiKey?: unknown; token?: unknown; data?: { pair?: unknown } };
+
+    if (data?.pair) {
+      return { ...message, data: { ...data, result: { token: REDACTED } } };
+    }
+    if (apiKey === undefined && token === undefined) {
+      return message;
+    }
+    return {
+      ...message,
+      ...(apiKey !== undefined ? { apiKey: REDACTED } : {}),
+      ...(token !== undefined ? { token: REDACTED } : {}),
+    };
+  }
+
+  private now(): number {
+    return Date.now() - this.startedAt;
+  }
+}
+
+function parseMessage(data: string): unknown {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
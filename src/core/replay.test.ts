@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ReplayTransport } from './replay';
+import { SessionRecorder } from './recorder';
+import { CleverenceEdge } from './client';
+import { MockEdge } from '../testing/mockEdge';
+import { NotConnectedError } from './errors';
+
+async function recordSession() {
+  const mock = new MockEdge();
+  const recorder = new SessionRecorder();
+  const edge = new CleverenceEdge({ autoConnect: false, transport: recorder.wrap(mock.transport) });
+
+  await edge.connect();
+  await mock.settle();
+  mock.scan('first');
+  await new Promise((resolve) => setTimeout(resolve, 40));
+  mock.scan('second');
+  await edge.getStatus();
+  edge.disconnect();
+
+  return recorder.toJSONL();
+}
+
+describe('ReplayTransport', () => {
+  it('should replay a recording into a new client', async () => {
+    const recording = await recordSession();
+    const replay = new ReplayTransport(recording, { speed: Infinity });
+    const scanHandler = vi.fn();
+    const edge = new CleverenceEdge({ autoConnect: false, transport: replay });
+    edge.on('scan', scanHandler);
+
+    await edge.connect();
+    expect(edge.protocol).toMatchObject({ version: 2, legacy: false });
+
+    await edge.getStatus();
+    await replay.finished;
+
+    expect(scanHandler.mock.calls.map(([event]) => event.data)).toEqual(['first', 'second']);
+    expect(replay.remaining).toBe(0);
+    edge.disconnect();
+  });
+
+  it('should preserve timing at the requested speed', async () => {
+    const recording = await recordSession();
+    const replay = new ReplayTransport(recording, { speed: 2 });
+    const times: number[] = [];
+    const edge = new CleverenceEdge({ autoConnect: false, transport: replay });
+    edge.on('scan', () => times.push(Date.now()));
+
+    await edge.connect();
+    await vi.waitFor(() => expect(times).toHaveLength(2));
+
+    // 40ms between the recorded scans, played at double speed
+    expect(times[1] - times[0]).toBeGreaterThanOrEqual(10);
+    edge.disconnect();
+  });
+
+  it('should replay a recording trimmed to its last entries', async () => {
+    const mock = new MockEdge();
+    const recorder = new SessionRecorder({ maxEntries: 20 });
+    const recorded = new CleverenceEdge({ autoConnect: false, transport: recorder.wrap(mock.transport) });
+    await recorded.connect();
+    for (let i = 0; i < 30; i++) mock.scan(`code-${i}`);
+    await mock.settle();
+
+    recorded.disconnect();
+    expect(recorder.entries[0]).toMatchObject({ kind: 'open' });
+    const kept = recorder.entries.filter((entry) => JSON.stringify(entry).includes('code-')).length;
+
+    const replay = new ReplayTransport(recorder.toJSONL(), { speed: Infinity });
+    const scanHandler = vi.fn();
+    // The hello response was trimmed, so the client falls back to the legacy protocol
+    const edge = new CleverenceEdge({ autoConnect: false, transport: replay, handshakeTimeout: 50 });
+    edge.on('scan', scanHandler);
+
+    expect(replay.remaining).toBe(1);
+    await edge.connect();
+    await replay.finished;
+
+    expect(scanHandler.mock.calls.map(([event]) => event.data)).toEqual(
+      Array.from({ length: kept }, (_, i) => `code-${30 - kept + i}`)
+    );
+    edge.disconnect();
+  });
+
+  it('should answer pings locally', async () => {
+    const replay = new ReplayTransport([{ t: 0, kind: 'open', url: 'ws://localhost:8585' }]);
+    const onMessage = vi.fn();
+    const connection = replay.connect('', { onOpen: vi.fn(), onMessage, onClose: vi.fn(), onError: vi.fn() });
+    expect(() => connection.send(JSON.stringify({ type: 'ping' }))).toThrow(NotConnectedError);
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    connection.send(JSON.stringify({ type: 'ping' }));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(onMessage).toHaveBeenCalledWith('{"type":"pong"}');
+    connection.close();
+  });
+});
@@ -0,0 +1,276 @@
+import { SessionRecorder } from './recorder';
+import { NotConnectedError } from './errors';
+import type { RecordingEntry, Transport, TransportConnection, TransportHandlers } from '../types';
+
+/**
+ * Options for ReplayTransport
+ */
+export interface ReplayTransportOptions {
+  /** Playback speed: 1 = real time, 10 = ten times faster, Infinity = as fast as possible. Default: 1 */
+  speed?: number;
+  /** How long to wait for the client to send the request a recorded response answers, in ms. Default: 2000 */
+  requestTimeout?: number;
+}
+
+interface Segment {
+  openedAt: number;
+  entries: RecordingEntry[];
+}
+
+interface Correlation {
+  /** Recorded request ids by request key, in the order they were sent */
+  pending: Map<string, string[]>;
+  /** Recorded request id -> id used by the live client */
+  liveIds: Map<string, string>;
+  waiters: Map<string, () => void>;
+  /** Recorded request ids the segment has a response for */
+  answered: Set<string>;
+  /** Live ids of requests whose recorded response has not been delivered yet */
+  awaiting: Set<string>;
+  /** Pings received while requests were awaiting their response */
+  deferredPongs: number;
+}
+
+type RequestLike = { type?: unknown; id?: unknown; query?: unknown; command?: unknown };
+
+/**
+ * Transport that plays a session recording back into a CleverenceEdge instance.
+ * Each recorded connection is replayed on one `connect()`; recorded responses are delivered once the
+ * client sends the matching request, with the client's own correlation ids. Pings are answered locally.
+ *
+ * @example
+ * ```typescript
+ * const replay = new ReplayTransport(await file.text(), { speed: 10 });
+ * const edge = new CleverenceEdge({ transport: replay });
+ * edge.on('scan', (event) => console.log(event.data));
+ * await replay.finished;
+ * ```
+ */
+export class ReplayTransport implements Transport {
+  /** Resolves once every recorded connection has been played back */
+  readonly finished: Promise<void>;
+
+  private segments: Segment[];
+  private nextSegment = 0;
+  private speed: number;
+  private requestTimeout: number;
+  private resolveFinished!: () => void;
+
+  constructor(recording: string | RecordingEntry[], options: ReplayTransportOptions = {}) {
+    const entries = typeof recording === 'string' ? SessionRecorder.parse(recording) : recording;
+    this.segments = splitSegments(entries);
+    this.speed = options.speed ?? 1;
+    this.requestTimeout = options.requestTimeout ?? 2000;
+    this.finished = new Promise((resolve) => {
+      this.resolveFinished = resolve;
+    });
+    if (this.segments.length === 0) {
+      this.resolveFinished();
+    }
+  }
+
+  /** Number of recorded connections not yet played */
+  get remaining(): number {
+    return this.segments.length - this.nextSegment;
+  }
+
+  connect(_url: string, handlers: TransportHandlers): TransportConnection {
+    const segment = this.segments[this.nextSegment];
+    let open = false;
+    let closed = false;
+    const correlation: Correlation = {
+      pending: new Map(),
+      liveIds: new Map(),
+      waiters: new Map(),
+      answered: new Set(),
+      awaiting: new Set(),
+      deferredPongs: 0,
+    };
+
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      open = false;
+      handlers.onClose();
+    };
+
+    const connection: TransportConnection = {
+      get isOpen() {
+        return open;
+      },
+      send: (data) => {
+        if (!open) {
+          throw new NotConnectedError('Replay connection is not open');
+        }
+        this.handleClientMessage(data, correlation, handlers);
+      },
+      close,
+    };
+
+    setTimeout(() => {
+      if (closed) return;
+      if (!segment) {
+        // Nothing left to replay: the open fails
+        close();
+        return;
+      }
+      this.nextSegment++;
+      indexRequests(segment, correlation);
+      open = true;
+      handlers.onOpen();
+      this.play(segment, correlation, handlers, () => closed, close).then(() => {
+        if (this.remaining === 0) this.resolveFinished();
+      });
+    }, 0);
+
+    return connection;
+  }
+
+  private handleClientMessage(data: string, correlation: Correlation, handlers: TransportHandlers): void {
+    let message: RequestLike;
+    try {
+      message = JSON.parse(data) as RequestLike;
+    } catch {
+      return;
+    }
+
+    if (message.type === 'ping') {
+      // Like the service, answer after the requests sent before the ping
+      if (correlation.awaiting.size > 0) {
+        correlation.deferredPongs++;
+      } else {
+        setTimeout(() => handlers.onMessage(JSON.stringify({ type: 'pong' })), 0);
+      }
+      return;
+    }
+    if (typeof message.id !== 'string') return;
+
+    // Pair the live request with the next recorded request of the same kind
+    const recordedId = correlation.pending.get(requestKey(message))?.shift();
+    if (recordedId !== undefined) {
+      correlation.liveIds.set(recordedId, message.id);
+      if (correlation.answered.has(recordedId)) correlation.awaiting.add(message.id);
+      correlation.waiters.get(recordedId)?.();
+    }
+  }
+
+  private async play(
+    segment: Segment,
+    correlation: Correlation,
+    handlers: TransportHandlers,
+    isClosed: () => boolean,
+    close: () => void
+  ): Promise<void> {
+    let start = Date.now();
+
+    for (const entry of segment.entries) {
+      const due = start + this.scale(entry.t - segment.openedAt);
+      await sleep(due - Date.now());
+      // Timers fire late on a busy event loop: shift the rest so the recorded gaps are kept
+      start += Math.max(0, Date.now() - due);
+      if (isClosed()) return;
+
+      if (entry.kind === 'close') {
+        close();
+        return;
+      }
+      if (entry.kind !== 'in') continue;
+
+      let message = entry.message;
+      if (isObject(message) && message.type === 'pong') {
+        // Pings are answered locally
+        continue;
+      }
+
+      if (isObject(message) && message.type === 'response' && typeof message.id === 'string') {
+        const waitStart = Date.now();
+        const liveId = await this.waitForRequest(message.id, correlation);
+        start += Date.now() - waitStart;
+        if (isClosed()) return;
+        if (liveId === undefined) continue;
+        message = { ...message, id: liveId };
+        correlation.awaiting.delete(liveId);
+      }
+
+      handlers.onMessage(typeof message === 'string' ? message : JSON.stringify(message));
+      if (correlation.awaiting.size === 0) {
+        while (correlation.deferredPongs > 0) {
+          correlation.deferredPongs--;
+          handlers.onMessage(JSON.stringify({ type: 'pong' }));
+        }
+      }
+    }
+  }
+
+  private waitForRequest(recordedId: string, correlation: Correlation): Promise<string | undefined> {
+    const known = correlation.liveIds.get(recordedId);
+    if (known !== undefined) {
+      return Promise.resolve(known);
+    }
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        correlation.waiters.delete(recordedId);
+        resolve(undefined);
+      }, this.requestTimeout);
+      correlation.waiters.set(recordedId, () => {
+        clearTimeout(timer);
+        correlation.waiters.delete(recordedId);
+        resolve(correlation.liveIds.get(recordedId));
+      });
+    });
+  }
+
+  private scale(ms: number): number {
+    return this.speed === Infinity ? 0 : ms / this.speed;
+  }
+}
+
+/**
+ * Split a recording into one segment per recorded connection
+ */
+function splitSegments(entries: RecordingEntry[]): Segment[] {
+  const segments: Segment[] = [];
+  let current: Segment | null = null;
+
+  for (const entry of entries) {
+    if (entry.kind === 'open') {
+      current = { openedAt: entry.t, entries: [] };
+      segments.push(current);
+      continue;
+    }
+    if (!current) continue;
+    current.entries.push(entry);
+    if (entry.kind === 'close') {
+      current = null;
+    }
+  }
+
+  return segments;
+}
+
+function indexRequests(segment: Segment, correlation: Correlation): void {
+  for (const entry of segment.entries) {
+    if (entry.kind === 'in' && isObject(entry.message) && entry.message.type === 'response') {
+      if (typeof entry.message.id === 'string') correlation.answered.add(entry.message.id);
+      continue;
+    }
+    if (entry.kind !== 'out' || !isObject(entry.message) || typeof entry.message.id !== 'string') continue;
+    const key = requestKey(entry.message);
+    const ids = correlation.pending.get(key) ?? [];
+    ids.push(entry.message.id);
+    correlation.pending.set(key, ids);
+  }
+}
+
+function requestKey(message: RequestLike): string {
+  return [message.type, message.query ?? message.command ?? ''].join(':');
+}
+
+function isObject(value: unknown): value is RequestLike & Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, Math.max(0, ms)));
+}
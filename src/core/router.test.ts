@@ -0,0 +1,137 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ScanRouter } from './router';
+import { CleverenceEdge } from './client';
+import { MockEdge } from '../testing/mockEdge';
+import type { ScanEvent } from '../types';
+
+const GS = '\x1d';
+
+function scan(data: string, overrides: Partial<ScanEvent> = {}): ScanEvent {
+  return {
+    type: 'scan',
+    id: data,
+    timestamp: new Date(),
+    data,
+    symbology: 'code128',
+    source: 'integrated-laser',
+    vendor: 'test',
+    ...overrides,
+  };
+}
+
+describe('ScanRouter', () => {
+  it('should route by pattern with named captures, prefix and length', () => {
+    const router = new ScanRouter(null);
+    const location = vi.fn();
+    const badge = vi.fn();
+    const plate = vi.fn();
+    router.route({ name: 'location', pattern: /^LOC-(?<aisle>\d{2})-(?<bay>\d{3})$/, handler: location });
+    router.route({ name: 'badge', prefix: ['EMP', 'CTR'], handler: badge });
+    router.route({ name: 'plate', length: { min: 10, max: 12 }, pattern: /^LP/, handler: plate });
+
+    router.dispatch(scan('LOC-04-117'));
+    router.dispatch(scan('CTR0042'));
+    router.dispatch(scan('LP00012345'));
+
+    expect(location).toHaveBeenCalledWith(
+      expect.objectContaining({ data: 'LOC-04-117' }),
+      expect.objectContaining({ route: 'location', groups: { aisle: '04', bay: '117' } })
+    );
+    expect(badge.mock.calls[0][1]).toMatchObject({ route: 'badge', value: '0042' });
+    expect(plate).toHaveBeenCalledTimes(1);
+    expect(router.dispatch(scan('LP1'))).toBe(false);
+  });
+
+  it('should route by symbology and GS1 AI presence', () => {
+    const router = new ScanRouter(null);
+    const pallet = vi.fn();
+    const item = vi.fn();
+    router.route({ name: 'pallet', gs1Ai: '00', handler: pallet });
+    router.route({ name: 'item', symbology: ['EAN-13', 'upca'], handler: item });
+
+    router.dispatch(scan(`]C100106141411234567897${GS}3724`, { symbology: 'gs1-128' }));
+    router.dispatch(scan('4006381333931', { symbology: 'EAN13' }));
+
+    expect(pallet.mock.calls[0][1].gs1).toMatchObject({ sscc: '106141411234567897', count: 24 });
+    expect(item).toHaveBeenCalledTimes(1);
+  });
+
+  it('should try higher priorities first, then registration order, then the fallback', () => {
+    const router = new ScanRouter(null);
+    const calls: string[] = [];
+    router.fallback(() => {
+      calls.push('fallback');
+    });
+    const record = (name: string) => () => {
+      calls.push(name);
+    };
+    router.route({ name: 'any-digits', pattern: /^\d+$/, handler: record('digits') });
+    router.route({ name: 'gtin', pattern: /^\d{14}$/, priority: 10, handler: record('gtin') });
+    router.route({ name: 'also-digits', pattern: /^\d+$/, handler: record('also-digits') });
+
+    router.dispatch(scan('09501101530003'));
+    router.dispatch(scan('123'));
+    router.dispatch(scan('ABC'));
+
+    expect(calls).toEqual(['gtin', 'digits', 'fallback']);
+  });
+
+  it('should remove scoped routes together', () => {
+    const router = new ScanRouter(null);
+    const handler = vi.fn();
+    const scope = router.scope();
+    scope.route({ prefix: 'A', handler });
+    scope.fallback(handler);
+    router.route({ prefix: 'B', handler });
+    expect(router.size).toBe(3);
+
+    scope.dispose();
+
+    expect(router.size).toBe(1);
+    expect(router.dispatch(scan('A1'))).toBe(false);
+  });
+
+  it('should report async handler rejections', async () => {
+    const onError = vi.fn();
+    const router = new ScanRouter(null, { onError });
+    const failure = new Error('lookup failed');
+    router.route({ handler: async () => Promise.reject(failure) });
+
+    router.dispatch(scan('X'));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(onError).toHaveBeenCalledWith(failure, expect.objectContaining({ data: 'X' }));
+  });
+
+  it('should report errors thrown by synchronous handlers', () => {
+    const onError = vi.fn();
+    const router = new ScanRouter(null, { onError });
+    const failure = new Error('bad label');
+    router.route({
+      handler: () => {
+        throw failure;
+      },
+    });
+
+    expect(router.dispatch(scan('X'))).toBe(true);
+    expect(onError).toHaveBeenCalledWith(failure, expect.objectContaining({ data: 'X' }));
+  });
+
+  it('should receive scans through the client router', async () => {
+    const mock = new MockEdge();
+    const edge = new CleverenceEdge({ autoConnect: false, transport: mock.transport });
+    await edge.connect();
+    const handler = vi.fn();
+    const remove = edge.router.route({ prefix: 'LOC-', handler });
+
+    mock.scan('LOC-01');
+    await mock.settle();
+    remove();
+    mock.scan('LOC-02');
+    await mock.settle();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler.mock.calls[0][1]).toMatchObject({ value: '01' });
+    edge.disconnect();
+  });
+});
@@ -0,0 +1,269 @@
+import { parseGs1Scan } from './gs1';
+import { normalizeSymbology, resolveSymbology } from './symbology';
+import type { Gs1Data, ScanEvent, Symbology } from '../types';
+
+/**
+ * Anything that emits scans: CleverenceEdge, EdgeFleet or a MockEdge client
+ */
+export interface ScanSource {
+  subscribe(event: 'scan', handler: (event: ScanEvent) => void): () => void;
+}
+
+/**
+ * What a route matched
+ */
+export interface ScanRouteMatch {
+  /** Name of the route */
+  route: string;
+  /** Named capture groups of `pattern` (empty without a pattern) */
+  groups: Record<string, string>;
+  /** Scan data with the matched `prefix` removed */
+  value: string;
+  /** Decoded GS1 data when the scan is GS1 and the route checks `gs1Ai` */
+  gs1: Gs1Data | null;
+}
+
+/**
+ * Handles scans matched by a route. Returned promises are awaited only to report rejections.
+ */
+export type ScanRouteHandler = (event: ScanEvent, match: ScanRouteMatch) => void | Promise<void>;
+
+/**
+ * A route: every condition that is set must match
+ */
+export interface ScanRoute {
+  /** Name reported in the match; defaults to 'route-<n>' */
+  name?: string;
+  /** Regular expression tested against the data; named groups are extracted */
+  pattern?: RegExp;
+  /** Data starts with this prefix (or one of these prefixes) */
+  prefix?: string | string[];
+  /** Scan symbology (canonical names, or vendor names the registry knows) */
+  symbology?: Symbology | string | Array<Symbology | string>;
+  /** Exact data length, or an inclusive range */
+  length?: number | { min?: number; max?: number };
+  /** GS1 application identifiers that must all be present, e.g. '00' for SSCC labels */
+  gs1Ai?: string | string[];
+  /** Routes with a higher priority are tried first; ties go to the earliest registered. Default: 0 */
+  priority?: number;
+  /** Only runs when no regular route matches */
+  fallback?: boolean;
+  /** Called with matching scans */
+  handler: ScanRouteHandler;
+}
+
+/**
+ * Options for ScanRouter
+ */
+export interface ScanRouterOptions {
+  /** Called with errors thrown by route handlers and rejections of async ones. Default: console.error */
+  onError?: (error: unknown, event: ScanEvent) => void;
+}
+
+interface RegisteredRoute extends ScanRoute {
+  name: string;
+  order: number;
+}
+
+/**
+ * Dispatches each scan to the first matching route, so one screen can handle location labels,
+ * items, license plates and badges without repeating the same regex switch in every handler.
+ *
+ * @example
+ * ```typescript
+ * const router = new ScanRouter(edge);
+ *
+ * router.route({ name: 'location', pattern: /^LOC-(?<aisle>\d{2})-(?<bay>\d{3})$/, handler: (scan, match) => {
+ *   goToBay(match.groups.aisle, match.groups.bay);
+ * }});
+ * router.route({ name: 'pallet', gs1Ai: '00', priority: 10, handler: (scan, match) => receive(match.gs1!.sscc) });
+ * router.route({ name: 'badge', prefix: 'EMP', handler: (scan, match) => login(match.value) });
+ * router.fallback((scan) => addItem(scan.data));
+ * ```
+ */
+export class ScanRouter {
+  private routes: RegisteredRoute[] = [];
+  private nextOrder = 0;
+  private unsubscribe: (() => void) | null;
+  private onError: (error: unknown, event: ScanEvent) => void;
+
+  constructor(source: ScanSource | null, options: ScanRouterOptions = {}) {
+    this.onError = options.onError ?? ((error) => console.error('Error in scan route handler:', error));
+    this.unsubscribe = source ? source.subscribe('scan', (event) => this.dispatch(event)) : null;
+  }
+
+  /** Number of registered routes, fallbacks included */
+  get size(): number {
+    return this.routes.length;
+  }
+
+  /**
+   * Register a route; returns a function that removes it
+   */
+  route(route: ScanRoute): () => void {
+    const order = this.nextOrder++;
+    const registered: RegisteredRoute = { ...route, name: route.name ?? `route-${order}`, order };
+
+    this.routes.push(registered);
+    this.routes.sort(compareRoutes);
+
+    return () => {
+      this.routes = this.routes.filter((candidate) => candidate !== registered);
+    };
+  }
+
+  /**
+   * Register the handler for scans no route matches; returns a function that removes it
+   */
+  fallback(handler: ScanRouteHandler, name = 'fallback'): () => void {
+    return this.route({ name, fallback: true, handler });
+  }
+
+  /**
+   * Group registrations so they can be removed together, e.g. when a screen is left
+   */
+  scope(): ScanRouteScope {
+    return new ScanRouteScope(this);
+  }
+
+  /**
+   * Find the route a scan would go to, without calling it
+   */
+  match(event: ScanEvent): { route: ScanRoute; match: ScanRouteMatch } | null {
+    let gs1: Gs1Data | null | undefined;
+    const gs1For = () => {
+      if (gs1 === undefined) gs1 = event.gs1 ?? parseGs1Scan(event);
+      return gs1;
+    };
+    let symbology: Symbology | undefined;
+    const symbologyFor = () => {
+      if (symbology === undefined) symbology = event.canonicalSymbology ?? resolveSymbology(event);
+      return symbology;
+    };
+
+    for (const route of this.routes) {
+      const match = matchRoute(route, event, symbologyFor, gs1For);
+      if (match) return { route, match };
+    }
+    return null;
+  }
+
+  /**
+   * Send a scan to its route; returns false when neither a route nor a fallback matched
+   */
+  dispatch(event: ScanEvent): boolean {
+    const found = this.match(event);
+    if (!found) return false;
+
+    try {
+      const result = found.route.handler(event, found.match);
+      if (result instanceof Promise) {
+        result.catch((error) => this.onError(error, event));
+      }
+    } catch (error) {
+      this.onError(error, event);
+    }
+    return true;
+  }
+
+  /**
+   * Remove every route and stop listening to the scan source
+   */
+  dispose(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.routes = [];
+  }
+}
+
+/**
+ * Routes registered through a scope, removed together by `dispose()`
+ */
+export class ScanRouteScope {
+  private router: ScanRouter;
+  private removers: Array<() => void> = [];
+
+  constructor(router: ScanRouter) {
+    this.router = router;
+  }
+
+  /**
+   * Register a route in this scope; returns a function that removes it
+   */
+  route(route: ScanRoute): () => void {
+    return this.track(this.router.route(route));
+  }
+
+  /**
+   * Register a fallback in this scope; returns a function that removes it
+   */
+  fallback(handler: ScanRouteHandler, name?: string): () => void {
+    return this.track(this.router.fallback(handler, name));
+  }
+
+  /**
+   * Remove every route registered through this scope
+   */
+  dispose(): void {
+    this.removers.forEach((remove) => remove());
+    this.removers = [];
+  }
+
+  private track(remove: () => void): () => void {
+    this.removers.push(remove);
+    return remove;
+  }
+}
+
+function compareRoutes(a: RegisteredRoute, b: RegisteredRoute): number {
+  if (Boolean(a.fallback) !== Boolean(b.fallback)) return a.fallback ? 1 : -1;
+  return (b.priority ?? 0) - (a.priority ?? 0) || a.order - b.order;
+}
+
+function matchRoute(
+  route: RegisteredRoute,
+  event: ScanEvent,
+  symbologyFor: () => Symbology,
+  gs1For: () => Gs1Data | null
+): ScanRouteMatch | null {
+  const data = event.data;
+
+  if (route.length !== undefined) {
+    const { min = 0, max = Infinity } =
+      typeof route.length === 'number' ? { min: route.length, max: route.length } : route.length;
+    if (data.length < min || data.length > max) return null;
+  }
+
+  let value = data;
+  if (route.prefix !== undefined) {
+    const prefix = toArray(route.prefix).find((candidate) => data.startsWith(candidate));
+    if (prefix === undefined) return null;
+    value = data.substring(prefix.length);
+  }
+
+  if (route.symbology !== undefined) {
+    const wanted = toArray(route.symbology).map((name) => normalizeSymbology(name) ?? name);
+    if (!wanted.includes(symbologyFor())) return null;
+  }
+
+  let gs1: Gs1Data | null = null;
+  if (route.gs1Ai !== undefined) {
+    gs1 = gs1For();
+    const present = new Set(gs1?.elements.map((element) => element.ai));
+    if (!toArray(route.gs1Ai).every((ai) => present.has(ai))) return null;
+  }
+
+  let groups: Record<string, string> = {};
+  if (route.pattern) {
+    route.pattern.lastIndex = 0; // Global and sticky patterns keep state between exec() calls
+    const result = route.pattern.exec(data);
+    if (!result) return null;
+    groups = { ...result.groups };
+  }
+
+  return { route: route.name, groups, value, gs1 };
+}
+
+function toArray<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
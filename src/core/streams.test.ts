@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { eventStream, waitForEvent, type Subscribe } from './streams';
+import { CleverenceEdge } from './client';
+import { RequestTimeoutError } from './errors';
+import { MockEdge } from '../testing/mockEdge';
+
+function createSource<T>() {
+  const listeners = new Set<(event: T) => void>();
+  const subscribe: Subscribe<T> = (listener) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  };
+  return {
+    subscribe,
+    emit: (event: T) => listeners.forEach((listener) => listener(event)),
+    get listenerCount() {
+      return listeners.size;
+    },
+  };
+}
+
+describe('eventStream', () => {
+  it('should yield events in order, buffering while the consumer is busy', async () => {
+    const source = createSource<number>();
+    const stream = eventStream(source.subscribe);
+
+    source.emit(1);
+    source.emit(2);
+    await expect(stream.next()).resolves.toEqual({ value: 1, done: false });
+    await expect(stream.next()).resolves.toEqual({ value: 2, done: false });
+
+    const pending = stream.next();
+    source.emit(3);
+    await expect(pending).resolves.toEqual({ value: 3, done: false });
+  });
+
+  it('should drop the oldest events beyond the buffer size', async () => {
+    const source = createSource<number>();
+    const stream = eventStream(source.subscribe, { bufferSize: 2 });
+
+    [1, 2, 3].forEach(source.emit);
+
+    await expect(stream.next()).resolves.toEqual({ value: 2, done: false });
+    await expect(stream.next()).resolves.toEqual({ value: 3, done: false });
+  });
+
+  it('should end and unsubscribe when aborted or when the loop exits', async () => {
+    const source = createSource<number>();
+    const controller = new AbortController();
+    const stream = eventStream(source.subscribe, { signal: controller.signal });
+    const pending = stream.next();
+
+    controller.abort();
+    await expect(pending).resolves.toEqual({ value: undefined, done: true });
+    expect(source.listenerCount).toBe(0);
+
+    const received: number[] = [];
+    const looping = (async () => {
+      for await (const value of eventStream(source.subscribe)) {
+        received.push(value);
+        if (value === 2) break;
+      }
+    })();
+    [1, 2, 3].forEach(source.emit);
+    await looping;
+
+    expect(received).toEqual([1, 2]);
+    expect(source.listenerCount).toBe(0);
+  });
+});
+
+describe('waitForEvent', () => {
+  it('should resolve with the first matching event', async () => {
+    const source = createSource<string>();
+    const waiting = waitForEvent(source.subscribe, 'waitForTest', { predicate: (value) => value.startsWith('LOC') });
+
+    source.emit('012345678905');
+    source.emit('LOC-A-01');
+
+    await expect(waiting).resolves.toBe('LOC-A-01');
+    expect(source.listenerCount).toBe(0);
+  });
+
+  it('should reject on timeout, abort or a throwing predicate', async () => {
+    const source = createSource<string>();
+
+    await expect(waitForEvent(source.subscribe, 'waitForTest', { timeoutMs: 10 })).rejects.toBeInstanceOf(
+      RequestTimeoutError
+    );
+
+    const controller = new AbortController();
+    const aborted = waitForEvent(source.subscribe, 'waitForTest', { signal: controller.signal });
+    controller.abort(new Error('Picking cancelled'));
+    await expect(aborted).rejects.toThrow('Picking cancelled');
+
+    const throwing = waitForEvent(source.subscribe, 'waitForTest', {
+      predicate: () => {
+        throw new Error('Bad predicate');
+      },
+    });
+    source.emit('x');
+    await expect(throwing).rejects.toThrow('Bad predicate');
+    expect(source.listenerCount).toBe(0);
+  });
+});
+
+describe('CleverenceEdge streams', () => {
+  it('should stream scans and RFID reads and wait for a matching scan', async () => {
+    const mock = new MockEdge();
+    const edge = new CleverenceEdge({ autoConnect: false, transport: mock.transport });
+    await edge.connect();
+
+    const scans = edge.scans();
+    const reads = edge.rfidReads();
+    const location = edge.waitForScan({ predicate: (event) => event.data.startsWith('LOC') });
+
+    mock.scan('012345678905');
+    mock.scan('LOC-A-01');
+    mock.rfid('EPC-1');
+    await mock.settle();
+
+    await expect(location).resolves.toMatchObject({ data: 'LOC-A-01' });
+    await expect(scans.next()).resolves.toMatchObject({ value: { data: '012345678905' } });
+    await expect(scans.next()).resolves.toMatchObject({ value: { data: 'LOC-A-01' } });
+    await expect(reads.next()).resolves.toMatchObject({ value: { epc: 'EPC-1' } });
+
+    await scans.return!();
+    await reads.return!();
+    expect(edge.listenerCount('scan')).toBe(0);
+    expect(edge.listenerCount('rfid')).toBe(0);
+
+    edge.disconnect();
+  });
+});
@@ -0,0 +1,134 @@
+import { RequestTimeoutError } from './errors';
+
+/**
+ * Options for event streams such as `edge.scans()`
+ */
+export interface EventStreamOptions {
+  /** Ends the stream when aborted */
+  signal?: AbortSignal;
+  /** Events buffered while the consumer is busy; the oldest are dropped beyond this. Default: 100 */
+  bufferSize?: number;
+}
+
+/**
+ * Options for one-shot waits such as `edge.waitForScan()`
+ */
+export interface WaitForEventOptions<T> {
+  /** Only resolve with an event for which this returns true */
+  predicate?: (event: T) => boolean;
+  /** Reject with RequestTimeoutError after this many ms (0 waits forever). Default: 0 */
+  timeoutMs?: number;
+  /** Rejects with the abort reason when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Subscribes a listener and returns a function that unsubscribes it
+ */
+export type Subscribe<T> = (listener: (event: T) => void) => () => void;
+
+/**
+ * Turn an event subscription into an async iterable.
+ * The listener stays subscribed until the loop exits, the signal aborts or `return()` is called.
+ */
+export function eventStream<T>(subscribe: Subscribe<T>, options: EventStreamOptions = {}): AsyncIterableIterator<T> {
+  const bufferSize = Math.max(1, options.bufferSize ?? 100);
+  const buffer: T[] = [];
+  const waiting: Array<(result: IteratorResult<T>) => void> = [];
+  let done = false;
+
+  const finish = (): Promise<IteratorResult<T>> => {
+    if (!done) {
+      done = true;
+      unsubscribe();
+      options.signal?.removeEventListener('abort', abort);
+      buffer.length = 0;
+      waiting.splice(0).forEach((resolve) => resolve({ value: undefined, done: true }));
+    }
+    return Promise.resolve({ value: undefined, done: true });
+  };
+  const abort = () => void finish();
+
+  const unsubscribe = subscribe((event) => {
+    const next = waiting.shift();
+    if (next) {
+      next({ value: event, done: false });
+      return;
+    }
+    buffer.push(event);
+    if (buffer.length > bufferSize) {
+      buffer.shift();
+    }
+  });
+
+  if (options.signal?.aborted) {
+    void finish();
+  } else {
+    options.signal?.addEventListener('abort', abort);
+  }
+
+  return {
+    next: () => {
+      if (buffer.length > 0) {
+        return Promise.resolve({ value: buffer.shift()!, done: false });
+      }
+      if (done) {
+        return Promise.resolve({ value: undefined, done: true });
+      }
+      return new Promise((resolve) => waiting.push(resolve));
+    },
+    return: finish,
+    [Symbol.asyncIterator]() {
+      return this;
+    },
+  };
+}
+
+/**
+ * Resolve with the next event that matches the predicate
+ */
+export function waitForEvent<T>(
+  subscribe: Subscribe<T>,
+  request: string,
+  options: WaitForEventOptions<T> = {}
+): Promise<T> {
+  const { predicate, timeoutMs = 0, signal } = options;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const cleanup = () => {
+      clearTimeout(timer);
+      unsubscribe();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(signal!.reason);
+    };
+
+    const unsubscribe = subscribe((event) => {
+      try {
+        if (predicate && !predicate(event)) return;
+      } catch (error) {
+        cleanup();
+        reject(error);
+        return;
+      }
+      cleanup();
+      resolve(event);
+    });
+
+    signal?.addEventListener('abort', onAbort);
+    if (timeoutMs > 0) {
+      timer = setTimeout(() => {
+        cleanup();
+        reject(new RequestTimeoutError(request, timeoutMs, `${request}: no matching event within ${timeoutMs}ms`));
+      }, timeoutMs);
+    }
+  });
+}
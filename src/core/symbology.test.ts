@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeSymbology,
+  symbologyFromAimId,
+  resolveSymbology,
+  registerSymbologyAlias,
+  registerBarcodeValidator,
+  validateBarcode,
+  isValidGtin,
+  isValidCode39Mod43,
+  expandUpcE,
+} from './symbology';
+import { CleverenceEdge } from './client';
+import { MockEdge } from '../testing/mockEdge';
+import type { ScanEvent } from '../types';
+
+const scan = (overrides: Partial<ScanEvent>): ScanEvent => ({
+  type: 'scan',
+  id: 'scan-1',
+  timestamp: new Date(),
+  data: '',
+  symbology: 'code128',
+  source: 'test',
+  vendor: 'test',
+  ...overrides,
+});
+
+describe('normalizeSymbology', () => {
+  it('should map vendor names to canonical names', () => {
+    expect(normalizeSymbology('LABEL-TYPE-EAN128')).toBe('gs1-128');
+    expect(normalizeSymbology('EAN-13')).toBe('ean13');
+    expect(normalizeSymbology('Interleaved 2 of 5')).toBe('itf');
+    expect(normalizeSymbology('GS1 DataBar Expanded')).toBe('gs1-databar-expanded');
+    expect(normalizeSymbology('QR Code')).toBe('qrcode');
+    expect(normalizeSymbology('Telepen')).toBeNull();
+  });
+
+  it('should accept registered aliases', () => {
+    registerSymbologyAlias('VENDOR_EAN', 'ean13');
+    expect(normalizeSymbology('vendor-ean')).toBe('ean13');
+  });
+});
+
+describe('resolveSymbology', () => {
+  it('should map AIM identifiers', () => {
+    expect(symbologyFromAimId(']C1')).toBe('gs1-128');
+    expect(symbologyFromAimId(']C0')).toBe('code128');
+    expect(symbologyFromAimId(']d2')).toBe('gs1-datamatrix');
+    expect(symbologyFromAimId(']E4')).toBe('ean8');
+    expect(symbologyFromAimId('E0')).toBeNull();
+  });
+
+  it('should prefer the AIM identifier unless the vendor name refines it', () => {
+    const raw = { bytesHex: '', symbologyId: '', signalStrength: null, scanDurationMs: 0 };
+
+    expect(resolveSymbology(scan({ symbology: 'CODE128', raw: { ...raw, aimId: ']C1' } }))).toBe('gs1-128');
+    expect(resolveSymbology(scan({ symbology: 'UPC-A', raw: { ...raw, aimId: ']E0' } }))).toBe('upca');
+    expect(resolveSymbology(scan({ symbology: 'Code 39' }))).toBe('code39');
+    expect(resolveSymbology(scan({ symbology: 'mystery' }))).toBe('unknown');
+  });
+
+  it('should resolve a 12-digit AIM EAN read without a vendor name as UPC-A', () => {
+    const raw = { bytesHex: '', symbologyId: '', signalStrength: null, scanDurationMs: 0 };
+    const upca = scan({ symbology: 'unknown', data: '036000291452', raw: { ...raw, aimId: ']E0' } });
+
+    expect(resolveSymbology(upca)).toBe('upca');
+    expect(validateBarcode(resolveSymbology(upca), upca.data)).toBeNull();
+    expect(resolveSymbology({ ...upca, data: '03600029145212', raw: { ...raw, aimId: ']E3' } })).toBe('upca');
+    expect(resolveSymbology({ ...upca, data: '4006381333931' })).toBe('ean13');
+  });
+});
+
+describe('validateBarcode', () => {
+  it('should check EAN, UPC and ITF-14 check digits', () => {
+    expect(validateBarcode('ean13', '4006381333931')).toBeNull();
+    expect(validateBarcode('ean13', '4006381333932')).toBe('EAN-13 check digit does not match');
+    expect(validateBarcode('ean8', '96385074')).toBeNull();
+    expect(validateBarcode('upca', '036000291452')).toBeNull();
+    expect(validateBarcode('upca', '03600029145')).toBe('UPC-A must be 12 digits');
+    expect(validateBarcode('itf14', '10614141000415')).toBeNull();
+  });
+
+  it('should leave the add-on of AIM modifier 3 reads out of the check', () => {
+    expect(validateBarcode('ean13', '400638133393112', { aimId: ']E3' })).toBeNull();
+    expect(validateBarcode('ean13', '400638133393112345', { aimId: ']E3' })).toBeNull();
+    expect(validateBarcode('ean13', '400638133393212', { aimId: ']E3' })).toBe('EAN-13 check digit does not match');
+    expect(validateBarcode('ean13', '4006381333931123', { aimId: ']E3' })).toBe('EAN-13 must be 13 digits');
+    expect(validateBarcode('ean13', '400638133393112')).toBe('EAN-13 must be 13 digits');
+  });
+
+  it('should check UPC-E against its expanded form', () => {
+    expect(expandUpcE('01234565')).toBe('01234500006');
+    expect(validateBarcode('upce', '01234565')).toBeNull();
+    expect(validateBarcode('upce', '01234566')).toBe('UPC-E check digit does not match');
+    expect(validateBarcode('upce', '123456')).toBeNull();
+  });
+
+  it('should check Code 39 mod 43 only when asked', () => {
+    expect(isValidCode39Mod43('CODE39W')).toBe(true);
+    expect(isValidCode39Mod43('*CODE39W*')).toBe(true);
+    expect(validateBarcode('code39', 'CODE39X')).toBeNull();
+    expect(validateBarcode('code39', 'CODE39X', { code39Mod43: true })).toBe(
+      'Code 39 mod 43 check character does not match'
+    );
+  });
+
+  it('should check GTINs of any length and use registered validators', () => {
+    expect(isValidGtin('09501101530003')).toBe(true);
+    expect(isValidGtin('4006381333931')).toBe(true);
+    expect(isValidGtin('12345')).toBe(false);
+
+    registerBarcodeValidator('codabar', (data) => (/^[A-D].*[A-D]$/.test(data) ? null : 'missing start/stop'));
+    expect(validateBarcode('codabar', 'A123B')).toBeNull();
+    expect(validateBarcode('codabar', '123')).toBe('missing start/stop');
+  });
+});
+
+describe('client symbology resolution', () => {
+  const RAW = { bytesHex: '', symbologyId: '', signalStrength: null, scanDurationMs: 0 };
+
+  it('should attach canonical symbology and flag invalid reads when enabled', async () => {
+    const mock = new MockEdge();
+    const edge = new CleverenceEdge({ autoConnect: false, transport: mock.transport, resolveSymbologies: true });
+    await edge.connect();
+
+    const validScan = edge.waitForScan();
+    mock.scan('4006381333931', { symbology: 'EAN-13' });
+    await expect(validScan).resolves.toMatchObject({ canonicalSymbology: 'ean13', valid: true });
+
+    const invalidScan = edge.waitForScan();
+    mock.scan('4006381333932', { symbology: 'EAN-13' });
+    await expect(invalidScan).resolves.toMatchObject({
+      valid: false,
+      invalidReason: 'EAN-13 check digit does not match',
+    });
+
+    const addOnScan = edge.waitForScan();
+    mock.scan('400638133393112', { symbology: 'EAN-13', raw: { ...RAW, aimId: ']E3' } });
+    await expect(addOnScan).resolves.toMatchObject({ canonicalSymbology: 'ean13', valid: true });
+
+    edge.disconnect();
+  });
+
+  it('should send canonical names to setSymbologies', async () => {
+    const mock = new MockEdge();
+    const edge = new CleverenceEdge({ autoConnect: false, transport: mock.transport });
+    await edge.connect();
+
+    await expect(edge.setSymbologies(['EAN-13', 'qrcode'])).resolves.toEqual({
+      enabledSymbologies: ['ean13', 'qrcode'],
+    });
+    edge.disconnect();
+  });
+});
@@ -0,0 +1,250 @@
+import { gs1CheckDigit, isValidGs1CheckDigit } from './gs1';
+import type { BarcodeValidator, ScanEvent, Symbology } from '../types';
+
+/**
+ * Vendor symbology names (Zebra DataWedge label types, Honeywell, Urovo, Datalogic), compared
+ * case-insensitively with punctuation, spaces and the 'LABEL-TYPE-' prefix removed
+ */
+const ALIASES: Map<string, Symbology> = new Map(
+  (
+    [
+      ['ean8', ['ean8', 'jan8']],
+      ['ean13', ['ean13', 'jan13', 'bookland', 'isbn']],
+      ['upca', ['upca']],
+      ['upce', ['upce', 'upce0', 'upce1']],
+      ['code39', ['code39', 'code3of9', '3of9', 'c39', 'trioptic39', 'code32']],
+      ['code93', ['code93', 'c93']],
+      ['code128', ['code128', 'c128']],
+      ['gs1-128', ['gs1128', 'ean128', 'ucc128', 'uccean128', 'gs1code128']],
+      ['codabar', ['codabar', 'nw7']],
+      ['code11', ['code11']],
+      ['msi', ['msi', 'msiplessey']],
+      ['itf', ['itf', 'i2of5', 'interleaved2of5', 'interleaved25', 'i25', 'int2of5']],
+      ['itf14', ['itf14']],
+      ['code2of5', ['d2of5', 'discrete2of5', 'industrial2of5', 'standard2of5', 'straight2of5', 's25', 'matrix2of5']],
+      ['gs1-databar', ['gs1databar', 'gs1databaromni', 'databar', 'rss14', 'rss']],
+      ['gs1-databar-limited', ['gs1databarlimited', 'databarlimited', 'rsslimited', 'rssltd']],
+      ['gs1-databar-expanded', ['gs1databarexpanded', 'databarexpanded', 'rssexpanded', 'rssexp']],
+      ['qrcode', ['qrcode', 'qr']],
+      ['gs1-qrcode', ['gs1qrcode', 'gs1qr']],
+      ['microqr', ['microqr', 'microqrcode']],
+      ['datamatrix', ['datamatrix', 'dm']],
+      ['gs1-datamatrix', ['gs1datamatrix', 'gs1dm']],
+      ['pdf417', ['pdf417', 'pdf']],
+      ['micropdf417', ['micropdf417', 'micropdf']],
+      ['aztec', ['aztec', 'aztecCode']],
+      ['maxicode', ['maxicode']],
+      ['dotcode', ['dotcode']],
+      ['hanxin', ['hanxin', 'hanxincode']],
+    ] as Array<[Symbology, string[]]>
+  ).flatMap(([symbology, names]) => names.map((name): [string, Symbology] => [simplify(name), symbology]))
+);
+
+/**
+ * AIM symbology identifiers (`]` + code character + modifier), keyed by code character and, where the
+ * modifier matters, code character + modifier
+ */
+const AIM_IDS: Record<string, Symbology> = {
+  A: 'code39',
+  C: 'code128',
+  C1: 'gs1-128',
+  E: 'ean13',
+  E4: 'ean8',
+  F: 'codabar',
+  G: 'code93',
+  H: 'code11',
+  I: 'itf',
+  M: 'msi',
+  R: 'code2of5',
+  S: 'code2of5',
+  e: 'gs1-databar',
+  Q: 'qrcode',
+  Q3: 'gs1-qrcode',
+  d: 'datamatrix',
+  d2: 'gs1-datamatrix',
+  L: 'pdf417',
+  z: 'aztec',
+  U: 'maxicode',
+  J: 'dotcode',
+  h: 'hanxin',
+};
+
+/**
+ * More specific names a vendor may report for a symbology the AIM identifier cannot tell apart
+ */
+const REFINEMENTS: Partial<Record<Symbology, Symbology[]>> = {
+  ean13: ['upca', 'upce'],
+  itf: ['itf14'],
+  'gs1-databar': ['gs1-databar-limited', 'gs1-databar-expanded'],
+  qrcode: ['microqr'],
+  pdf417: ['micropdf417'],
+};
+
+/**
+ * Length of the main number of symbologies that AIM modifier 3 (']E3') sends with a 2 or 5 digit add-on
+ */
+const ADD_ON_HOSTS: Partial<Record<Symbology, number>> = {
+  ean13: 13,
+  upca: 12,
+  upce: 8,
+};
+
+const CODE39_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ-. $/+%';
+
+const VALIDATORS: Map<Symbology, BarcodeValidator> = new Map<Symbology, BarcodeValidator>([
+  ['ean8', (data) => checkGs1Number(data, [8], 'EAN-8')],
+  ['ean13', (data) => checkGs1Number(data, [13], 'EAN-13')],
+  ['upca', (data) => checkGs1Number(data, [12], 'UPC-A')],
+  ['upce', checkUpcE],
+  ['itf14', (data) => checkGs1Number(data, [14], 'ITF-14')],
+]);
+
+/**
+ * Map a vendor symbology name to its canonical name, or null if it is not known
+ */
+export function normalizeSymbology(name: string): Symbology | null {
+  return ALIASES.get(simplify(name)) ?? null;
+}
+
+/**
+ * Map an AIM symbology identifier such as ']E0' or ']d2' to its canonical name, or null if it is not known
+ */
+export function symbologyFromAimId(aimId: string): Symbology | null {
+  if (!/^\][A-Za-z][0-9A-Za-z]$/.test(aimId)) return null;
+  return AIM_IDS[aimId.substring(1, 3)] ?? AIM_IDS[aimId[1]] ?? null;
+}
+
+/**
+ * Canonical symbology of a scan. The AIM identifier wins unless the vendor name is more specific
+ * (e.g. 'upca' for ']E0'). Without such a name, a 12-digit ']E' read resolves to 'upca'.
+ */
+export function resolveSymbology(event: ScanEvent): Symbology {
+  const aimId = event.raw?.aimId;
+  const fromAim = aimId ? symbologyFromAimId(aimId) : null;
+  const fromName = normalizeSymbology(event.symbology);
+
+  if (fromAim && fromName && REFINEMENTS[fromAim]?.includes(fromName)) {
+    return fromName;
+  }
+  // AIM sends UPC-A as EAN-13 with a leading zero, but some services strip it
+  if (fromAim === 'ean13' && /^\d{12}$/.test(withoutAddOn('upca', event.data, aimId))) {
+    return 'upca';
+  }
+  return fromAim ?? fromName ?? 'unknown';
+}
+
+/**
+ * Teach the registry another vendor name for a symbology.
+ * The registry is module-global: the alias applies to every client in the process.
+ */
+export function registerSymbologyAlias(name: string, symbology: Symbology): void {
+  ALIASES.set(simplify(name), symbology);
+}
+
+/**
+ * Add or replace the validator used for a symbology.
+ * Validators are module-global: the validator applies to every client in the process.
+ */
+export function registerBarcodeValidator(symbology: Symbology, validator: BarcodeValidator): void {
+  VALIDATORS.set(symbology, validator);
+}
+
+/**
+ * Validate a read. Returns why it is invalid, or null when it is valid or no validator applies.
+ * Code 39 is only checked when `code39Mod43` is set, since its check character is optional.
+ * With the AIM identifier ']E3', the 2 or 5 digit add-on is left out of the check.
+ */
+export function validateBarcode(
+  symbology: Symbology,
+  data: string,
+  options: { code39Mod43?: boolean; aimId?: string } = {}
+): string | null {
+  if (symbology === 'code39' && options.code39Mod43) {
+    return isValidCode39Mod43(data) ? null : 'Code 39 mod 43 check character does not match';
+  }
+  return VALIDATORS.get(symbology)?.(withoutAddOn(symbology, data, options.aimId)) ?? null;
+}
+
+/**
+ * Whether a symbology has a validator
+ */
+export function hasBarcodeValidator(symbology: Symbology): boolean {
+  return VALIDATORS.has(symbology);
+}
+
+/**
+ * Check a GTIN-8, GTIN-12, GTIN-13 or GTIN-14
+ */
+export function isValidGtin(data: string): boolean {
+  return checkGs1Number(data, [8, 12, 13, 14], 'GTIN') === null;
+}
+
+/**
+ * Check a Code 39 read whose last character is the mod 43 check character (start/stop '*' allowed)
+ */
+export function isValidCode39Mod43(data: string): boolean {
+  const text = data.replace(/^\*|\*$/g, '');
+  if (text.length < 2) return false;
+
+  const values = Array.from(text, (char) => CODE39_CHARSET.indexOf(char));
+  if (values.some((value) => value === -1)) return false;
+
+  const sum = values.slice(0, -1).reduce((total, value) => total + value, 0);
+  return sum % 43 === values[values.length - 1];
+}
+
+/**
+ * Expand an 8-digit UPC-E (number system, six digits, check digit) to its 11-digit UPC-A body
+ */
+export function expandUpcE(data: string): string | null {
+  if (!/^[01]\d{7}$/.test(data)) return null;
+  const ns = data[0];
+  const [d1, d2, d3, d4, d5, d6] = data.substring(1, 7);
+
+  switch (d6) {
+    case '0':
+    case '1':
+    case '2':
+      return `${ns}${d1}${d2}${d6}0000${d3}${d4}${d5}`;
+    case '3':
+      return `${ns}${d1}${d2}${d3}00000${d4}${d5}`;
+    case '4':
+      return `${ns}${d1}${d2}${d3}${d4}00000${d5}`;
+    default:
+      return `${ns}${d1}${d2}${d3}${d4}${d5}0000${d6}`;
+  }
+}
+
+/**
+ * Main number of an EAN/UPC read sent with a 2 or 5 digit add-on (AIM modifier 3); other reads are unchanged
+ */
+function withoutAddOn(symbology: Symbology, data: string, aimId: string | undefined): string {
+  const length = ADD_ON_HOSTS[symbology];
+  if (aimId !== ']E3' || length === undefined || !/^\d+$/.test(data)) return data;
+  return data.length === length + 2 || data.length === length + 5 ? data.substring(0, length) : data;
+}
+
+function checkGs1Number(data: string, lengths: number[], label: string): string | null {
+  if (!/^\d+$/.test(data) || !lengths.includes(data.length)) {
+    return `${label} must be ${lengths.join(', ')} digits`;
+  }
+  return isValidGs1CheckDigit(data) ? null : `${label} check digit does not match`;
+}
+
+function checkUpcE(data: string): string | null {
+  // Scanners may send only the six data digits, which carry no check digit
+  if (/^\d{6}$/.test(data)) return null;
+
+  const body = expandUpcE(data);
+  if (!body) {
+    return 'UPC-E must be 6 digits, or 8 digits starting with 0 or 1';
+  }
+  return gs1CheckDigit(body) === Number(data[7]) ? null : 'UPC-E check digit does not match';
+}
+
+function simplify(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/^label-type-/, '')
+    .replace(/[^a-z0-9]/g, '');
+}
@@ -0,0 +1,228 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { TabSharingTransport, type LockManagerLike } from './tabs';
+import { CleverenceEdge } from './client';
+import { MockEdge } from '../testing/mockEdge';
+
+/**
+ * In-memory exclusive lock manager standing in for navigator.locks. Like the real one, it grants
+ * locks asynchronously and answers `ifAvailable` requests with null while the lock is taken.
+ */
+function createLocks(): LockManagerLike {
+  const queues = new Map<string, Array<(lock: unknown) => Promise<void>>>();
+
+  const run = (name: string) => {
+    const queue = queues.get(name)!;
+    const callback = queue[0];
+    if (!callback) return;
+    queueMicrotask(() => {
+      callback({ name }).finally(() => {
+        queue.shift();
+        run(name);
+      });
+    });
+  };
+
+  return {
+    request(name: string, ...args: unknown[]) {
+      const callback = args[args.length - 1] as (lock: unknown) => Promise<void>;
+      const options = (args.length > 1 ? args[0] : {}) as { ifAvailable?: boolean };
+      const queue = queues.get(name) ?? [];
+      queues.set(name, queue);
+
+      if (options.ifAvailable && queue.length > 0) {
+        return Promise.resolve().then(() => callback(null));
+      }
+      queue.push(callback);
+      if (queue.length === 1) run(name);
+      return Promise.resolve();
+    },
+  } as LockManagerLike;
+}
+
+let channelCount = 0;
+const transports: TabSharingTransport[] = [];
+
+function createTab(mock: MockEdge, locks: LockManagerLike, channel: string, options = {}) {
+  const transport = new TabSharingTransport({ transport: mock.transport, locks, channel, joinTimeout: 100 });
+  transports.push(transport);
+  const edge = new CleverenceEdge({ autoConnect: false, reconnectDelay: 10, transport, ...options });
+  return { edge, transport };
+}
+
+async function settle(mock: MockEdge) {
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  await mock.settle();
+}
+
+describe('TabSharingTransport', () => {
+  afterEach(() => {
+    transports.splice(0).forEach((transport) => transport.dispose());
+  });
+
+  it('should share a single connection between tabs', async () => {
+    const mock = new MockEdge({ capabilities: { deviceModel: 'CT60' } });
+    const locks = createLocks();
+    const channel = `tabs-${++channelCount}`;
+    const leader = createTab(mock, locks, channel);
+    await leader.edge.connect();
+    const follower = createTab(mock, locks, channel);
+    await follower.edge.connect();
+    await settle(mock);
+
+    expect(leader.transport.isLeader).toBe(true);
+    expect(follower.transport.isLeader).toBe(false);
+    expect(mock.connectionCount).toBe(1);
+    expect(follower.edge.protocol).toMatchObject({ version: 2, legacy: false });
+    expect(follower.edge.capabilities?.deviceModel).toBe('CT60');
+
+    leader.edge.disconnect();
+    follower.edge.disconnect();
+  });
+
+  it('should answer a follower that joins during the leader handshake', async () => {
+    const mock = new MockEdge({ latency: 20 });
+    const locks = createLocks();
+    const channel = `tabs-${++channelCount}`;
+    const leader = createTab(mock, locks, channel);
+    const leaderConnected = leader.edge.connect();
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const follower = createTab(mock, locks, channel, { handshakeTimeout: 1000 });
+
+    const startedAt = Date.now();
+    await Promise.all([leaderConnected, follower.edge.connect()]);
+
+    expect(Date.now() - startedAt).toBeLessThan(500);
+    expect(follower.transport.isLeader).toBe(false);
+    expect(follower.edge.protocol).toMatchObject({ version: 2, legacy: false });
+
+    leader.edge.disconnect();
+    follower.edge.disconnect();
+  });
+
+  it('should pass a legacy handshake on to followers', async () => {
+    const mock = new MockEdge({ legacy: true });
+    const locks = createLocks();
+    const channel = `tabs-${++channelCount}`;
+    const leader = createTab(mock, locks, channel);
+    await leader.edge.connect();
+    const follower = createTab(mock, locks, channel);
+
+    const startedAt = Date.now();
+    await follower.edge.connect();
+
+    expect(Date.now() - startedAt).toBeLessThan(500);
+    expect(follower.edge.protocol).toMatchObject({ legacy: true });
+    expect(mock.connectionCount).toBe(1);
+
+    leader.edge.disconnect();
+    follower.edge.disconnect();
+  });
+
+  it('should connect a lone tab as leader on the first attempt', async () => {
+    const mock = new MockEdge();
+    const tab = createTab(mock, createLocks(), `tabs-${++channelCount}`);
+    const errorHandler = vi.fn();
+    tab.edge.on('error', errorHandler);
+
+    await tab.edge.connect();
+
+    expect(tab.transport.isLeader).toBe(true);
+    expect(tab.edge.isConnected).toBe(true);
+    expect(errorHandler).not.toHaveBeenCalled();
+
+    tab.edge.disconnect();
+  });
+
+  it('should relay events and answer follower requests', async () => {
+    const mock = new MockEdge();
+    const locks = createLocks();
+    const channel = `tabs-${++channelCount}`;
+    const leader = createTab(mock, locks, channel);
+    await leader.edge.connect();
+    const follower = createTab(mock, locks, channel);
+    await follower.edge.connect();
+    await settle(mock);
+
+    const leaderScans = vi.fn();
+    const followerScans = vi.fn();
+    leader.edge.on('scan', leaderScans);
+    follower.edge.on('scan', followerScans);
+
+    mock.scan('shared');
+    await settle(mock);
+    expect(leaderScans).toHaveBeenCalledWith(expect.objectContaining({ data: 'shared' }));
+    expect(followerScans).toHaveBeenCalledWith(expect.objectContaining({ data: 'shared' }));
+
+    await expect(follower.edge.getStatus()).resolves.toMatchObject({ connected: true });
+    await expect(follower.edge.setSymbologies(['qrcode'])).resolves.toEqual({ enabledSymbologies: ['qrcode'] });
+    expect(mock.commands).toHaveLength(1);
+
+    leader.edge.disconnect();
+    follower.edge.disconnect();
+  });
+
+  it('should hand the connection over when the leader tab goes away', async () => {
+    const mock = new MockEdge();
+    const locks = createLocks();
+    const channel = `tabs-${++channelCount}`;
+    const leader = createTab(mock, locks, channel);
+    await leader.edge.connect();
+    const follower = createTab(mock, locks, channel);
+    await follower.edge.connect();
+    await settle(mock);
+
+    leader.edge.disconnect();
+    leader.transport.dispose();
+    await vi.waitFor(() => expect(follower.transport.isLeader).toBe(true));
+    await vi.waitFor(() => expect(mock.connectionCount).toBe(1));
+    await vi.waitFor(() => expect(follower.edge.isConnected).toBe(true));
+
+    const scanHandler = vi.fn();
+    follower.edge.on('scan', scanHandler);
+    mock.scan('after-handover');
+    await settle(mock);
+    expect(scanHandler).toHaveBeenCalledWith(expect.objectContaining({ data: 'after-handover' }));
+
+    follower.edge.disconnect();
+  });
+
+  it('should keep separate connections without Web Locks', async () => {
+    const mock = new MockEdge();
+    const transport = new TabSharingTransport({ transport: mock.transport });
+    const edge = new CleverenceEdge({ autoConnect: false, transport });
+
+    await edge.connect();
+    expect(transport.isLeader).toBe(true);
+    expect(mock.connectionCount).toBe(1);
+
+    edge.disconnect();
+  });
+});
+
+describe('scanDelivery', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should only emit scans in the focused tab', async () => {
+    const mock = new MockEdge();
+    const edge = new CleverenceEdge({ autoConnect: false, transport: mock.transport, scanDelivery: 'focused' });
+    await edge.connect();
+    const scanHandler = vi.fn();
+    edge.on('scan', scanHandler);
+
+    let focused = false;
+    vi.stubGlobal('document', { visibilityState: 'visible', hasFocus: () => focused });
+
+    mock.scan('background');
+    await mock.settle();
+    focused = true;
+    mock.scan('foreground');
+    await mock.settle();
+
+    expect(scanHandler.mock.calls.map(([event]) => event.data)).toEqual(['foreground']);
+    expect(edge.lastSequence).toBe(2);
+
+    edge.disconnect();
+  });
+});
@@ -0,0 +1,440 @@
+import { WebSocketTransport } from './transport';
+import { ConnectionError, NotConnectedError } from './errors';
+import type { Transport, TransportConnection, TransportHandlers } from '../types';
+
+/**
+ * Minimal Web Locks surface used for leader election (`navigator.locks` in browsers)
+ */
+export interface LockManagerLike {
+  request(name: string, callback: (lock: unknown) => Promise<void>): Promise<unknown>;
+  request(name: string, options: { ifAvailable?: boolean }, callback: (lock: unknown) => Promise<void>): Promise<unknown>;
+}
+
+/**
+ * Options for TabSharingTransport
+ */
+export interface TabSharingTransportOptions {
+  /** Transport the leader tab uses to reach the Edge service. Default: WebSocketTransport */
+  transport?: Transport;
+  /** Name shared by all tabs that should share a connection. Default: 'cleverence-edge' */
+  channel?: string;
+  /** How long a follower waits for the leader to accept it, in ms. Default: 3000 */
+  joinTimeout?: number;
+  /** Called when this tab becomes (or stops being) the leader */
+  onLeaderChange?: (isLeader: boolean) => void;
+  /** Lock manager used for the election. Default: `navigator.locks` */
+  locks?: LockManagerLike;
+}
+
+/** How long connect() waits for the lock probe before joining as a follower, in ms */
+const ELECTION_TIMEOUT = 1000;
+
+type TabMessage =
+  | { kind: 'join'; tabId: string }
+  | { kind: 'welcome'; tabId: string }
+  | { kind: 'down' }
+  | { kind: 'send'; tabId: string; data: string }
+  | { kind: 'deliver'; tabId?: string; data: string };
+
+type ParsedMessage = { type?: unknown; id?: unknown };
+
+interface RelayConnection {
+  handlers: TransportHandlers;
+  open: boolean;
+  close: () => void;
+}
+
+/**
+ * Shares one Edge connection between all tabs of the same origin.
+ * Tabs elect a leader with Web Locks; only the leader opens a socket. Events, capabilities and
+ * responses to their requests are relayed to the other tabs over a BroadcastChannel. When the
+ * leader tab closes, another tab takes over and reconnects.
+ *
+ * Without Web Locks or BroadcastChannel every tab keeps its own connection.
+ *
+ * @example
+ * ```typescript
+ * const edge = new CleverenceEdge({
+ *   transport: new TabSharingTransport(),
+ *   scanDelivery: 'focused', // only the tab the operator is looking at reacts to scans
+ * });
+ * ```
+ */
+export class TabSharingTransport implements Transport {
+  private inner: Transport;
+  private options: TabSharingTransportOptions;
+  private channel: BroadcastChannel | null = null;
+  private tabId = Math.random().toString(36).substring(2, 11);
+  private _isLeader = false;
+  /** Settles once this tab knows whether it leads (null until the first connect) */
+  private election: Promise<void> | null = null;
+  private releaseLock: (() => void) | null = null;
+  /** Handlers of the latest connect(), told about election failures */
+  private handlers: TransportHandlers | null = null;
+
+  // Leader side
+  private leaderConnection: TransportConnection | null = null;
+  private helloId: string | null = null;
+  private helloResponse: ParsedMessage | null = null;
+  /** Whether the service answered the leader's handshake probe without answering its hello */
+  private legacyService = false;
+  /** Follower messages received before the leader's handshake settled, in order */
+  private heldMessages: Array<Extract<TabMessage, { kind: 'send' }>> = [];
+  private relayedRequests: Map<string, string> = new Map();
+  private waitingTabs: Set<string> = new Set();
+
+  // Follower side
+  private relays: Set<RelayConnection> = new Set();
+  private pendingJoins: Map<RelayConnection, () => void> = new Map();
+
+  constructor(options: TabSharingTransportOptions = {}) {
+    this.options = options;
+    this.inner = options.transport ?? new WebSocketTransport();
+  }
+
+  /** Whether this tab currently holds the shared connection */
+  get isLeader(): boolean {
+    return this._isLeader || !this.canShare();
+  }
+
+  connect(url: string, handlers: TransportHandlers): TransportConnection {
+    if (!this.canShare()) {
+      return this.connectAsLeader(url, handlers);
+    }
+
+    this.handlers = handlers;
+    // Lock requests are granted asynchronously, so pick a role only once the election has settled
+    let target: TransportConnection | null = null;
+    let closed = false;
+    this.startElection().then(() => {
+      if (closed) return;
+      try {
+        target = this.isLeader ? this.connectAsLeader(url, handlers) : this.connectAsFollower(handlers);
+      } catch (error) {
+        closed = true;
+        handlers.onError(error instanceof Error ? error : new ConnectionError(String(error)));
+        handlers.onClose();
+      }
+    });
+
+    return {
+      get isOpen() {
+        return target?.isOpen ?? false;
+      },
+      send: (data) => {
+        if (!target) {
+          throw new NotConnectedError('Tab connection is not open');
+        }
+        target.send(data);
+      },
+      close: () => {
+        if (closed) return;
+        closed = true;
+        if (target) {
+          target.close();
+        } else {
+          handlers.onClose();
+        }
+      },
+    };
+  }
+
+  /**
+   * Leave the election and stop relaying. Another tab takes over the connection
+   */
+  dispose(): void {
+    this.relays.forEach((relay) => relay.close());
+    this.releaseLock?.();
+    this.releaseLock = null;
+    this._isLeader = false;
+    this.channel?.close();
+    this.channel = null;
+  }
+
+  private canShare(): boolean {
+    return typeof BroadcastChannel !== 'undefined' && this.lockManager() !== undefined;
+  }
+
+  private lockManager(): LockManagerLike | undefined {
+    return this.options.locks ?? (globalThis.navigator as { locks?: LockManagerLike } | undefined)?.locks;
+  }
+
+  /**
+   * Join the election. Settles once a probe for the free lock has answered: this tab then either leads
+   * or waits in line to take over from the current leader.
+   */
+  private startElection(): Promise<void> {
+    if (this.election) return this.election;
+
+    const name = this.options.channel ?? 'cleverence-edge';
+    const lockName = `${name}:leader`;
+    const locks = this.lockManager()!;
+    this.channel = new BroadcastChannel(name);
+    this.channel.onmessage = (event: MessageEvent<TabMessage>) => this.handleTabMessage(event.data);
+
+    this.election = new Promise<void>((settle) => {
+      const timer = setTimeout(settle, ELECTION_TIMEOUT);
+      const settled = () => {
+        clearTimeout(timer);
+        settle();
+      };
+
+      locks
+        .request(lockName, { ifAvailable: true }, (lock) => {
+          if (lock) return this.lead(settled);
+          settled();
+          locks.request(lockName, () => this.lead()).catch((error) => {
+            this.handlers?.onError(error instanceof Error ? error : new ConnectionError(String(error)));
+          });
+          return Promise.resolve();
+        })
+        .catch(settled);
+    });
+    return this.election;
+  }
+
+  /**
+   * Hold the leader lock until this tab closes or dispose() is called
+   */
+  private lead(onLead?: () => void): Promise<void> {
+    return new Promise<void>((release) => {
+      if (!this.channel) {
+        release();
+        onLead?.();
+        return;
+      }
+      this.releaseLock = release;
+      this._isLeader = true;
+      this.options.onLeaderChange?.(true);
+      // Followers reconnect, and this tab's own relay is replaced by a real connection
+      this.relays.forEach((relay) => relay.close());
+      onLead?.();
+    });
+  }
+
+  private post(message: TabMessage): void {
+    this.channel?.postMessage(message);
+  }
+
+  private handleTabMessage(message: TabMessage): void {
+    if (this._isLeader) {
+      this.handleAsLeader(message);
+    } else {
+      this.handleAsFollower(message);
+    }
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Leader
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  private connectAsLeader(url: string, handlers: TransportHandlers): TransportConnection {
+    const connection = this.inner.connect(url, {
+      onOpen: () => {
+        this.leaderConnection = connection;
+        handlers.onOpen();
+        this.waitingTabs.forEach((tabId) => this.post({ kind: 'welcome', tabId }));
+        this.waitingTabs.clear();
+      },
+      onMessage: (data) => {
+        if (this.leaderConnection !== connection) {
+          handlers.onMessage(data);
+          return;
+        }
+        if (this.routeFromService(data)) {
+          handlers.onMessage(data);
+        }
+      },
+      onClose: () => {
+        if (this.leaderConnection === connection) {
+          this.leaderConnection = null;
+          this.helloId = null;
+          this.helloResponse = null;
+          this.legacyService = false;
+          this.heldMessages = [];
+          this.relayedRequests.clear();
+          this.post({ kind: 'down' });
+        }
+        handlers.onClose();
+      },
+      onError: (error) => handlers.onError(error),
+    });
+
+    return {
+      get isOpen() {
+        return connection.isOpen;
+      },
+      send: (data) => {
+        const message = parse(data);
+        if (message?.type === 'hello' && typeof message.id === 'string') {
+          this.helloId = message.id;
+        } else if (message && message.type !== 'ping' && this.helloId !== null && this.awaitingHello()) {
+          // The leader's hello timed out and its client went on as with a legacy service
+          this.legacyService = true;
+          this.releaseHeldMessages();
+        }
+        connection.send(data);
+      },
+      close: () => connection.close(),
+    };
+  }
+
+  /**
+   * Relay a message from the Edge service to other tabs. Returns false when it belongs to another tab
+   */
+  private routeFromService(data: string): boolean {
+    const message = parse(data);
+    if (!message) return true;
+
+    if (message.type === 'response' && typeof message.id === 'string') {
+      const tabId = this.relayedRequests.get(message.id);
+      if (tabId) {
+        this.relayedRequests.delete(message.id);
+        this.post({ kind: 'deliver', tabId, data });
+        return false;
+      }
+      if (message.id === this.helloId) {
+        this.helloResponse = message;
+        this.releaseHeldMessages();
+      }
+      return true;
+    }
+
+    // A legacy service answers the ping sent after hello (or rejects the hello) without answering it
+    if ((message.type === 'pong' || message.type === 'error') && this.awaitingHello()) {
+      this.legacyService = true;
+      this.releaseHeldMessages();
+    }
+
+    if (message.type !== 'pong') {
+      this.post({ kind: 'deliver', data });
+    }
+    return true;
+  }
+
+  private handleAsLeader(message: TabMessage): void {
+    if (message.kind === 'join') {
+      if (this.leaderConnection) {
+        this.post({ kind: 'welcome', tabId: message.tabId });
+      } else {
+        this.waitingTabs.add(message.tabId);
+      }
+      return;
+    }
+
+    if (message.kind !== 'send' || !this.leaderConnection) return;
+
+    // Answer followers the way the service answered the leader's handshake, so hold them until it has
+    if (this.awaitingHello()) {
+      this.heldMessages.push(message);
+      return;
+    }
+
+    const request = parse(message.data);
+    if (request?.type === 'ping') {
+      // The leader keeps its own socket alive
+      this.post({ kind: 'deliver', tabId: message.tabId, data: JSON.stringify({ type: 'pong' }) });
+      return;
+    }
+    if (!request || typeof request.id !== 'string') return;
+
+    if (request.type === 'hello') {
+      // The socket is already authenticated; answer with the leader's negotiated protocol
+      if (this.helloResponse) {
+        const data = JSON.stringify({ ...this.helloResponse, id: request.id });
+        this.post({ kind: 'deliver', tabId: message.tabId, data });
+      }
+      return;
+    }
+
+    this.relayedRequests.set(request.id, message.tabId);
+    try {
+      this.leaderConnection.send(message.data);
+    } catch {
+      this.relayedRequests.delete(request.id);
+    }
+  }
+
+  private awaitingHello(): boolean {
+    return this.helloResponse === null && !this.legacyService;
+  }
+
+  private releaseHeldMessages(): void {
+    const held = this.heldMessages;
+    this.heldMessages = [];
+    held.forEach((message) => this.handleAsLeader(message));
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Follower
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  private connectAsFollower(handlers: TransportHandlers): TransportConnection {
+    let closed = false;
+    const relay: RelayConnection = {
+      handlers,
+      open: false,
+      close: () => {
+        if (closed) return;
+        closed = true;
+        relay.open = false;
+        this.relays.delete(relay);
+        this.pendingJoins.delete(relay);
+        handlers.onClose();
+      },
+    };
+    this.relays.add(relay);
+
+    // Ask the leader to accept this tab; give up (and let the client retry) if it does not answer
+    const timer = setTimeout(() => relay.close(), this.options.joinTimeout ?? 3000);
+    this.pendingJoins.set(relay, () => {
+      clearTimeout(timer);
+      if (closed) return;
+      relay.open = true;
+      handlers.onOpen();
+    });
+    this.post({ kind: 'join', tabId: this.tabId });
+
+    return {
+      get isOpen() {
+        return relay.open;
+      },
+      send: (data) => {
+        if (!relay.open) {
+          throw new NotConnectedError('Tab relay is not open');
+        }
+        this.post({ kind: 'send', tabId: this.tabId, data });
+      },
+      close: () => {
+        clearTimeout(timer);
+        relay.close();
+      },
+    };
+  }
+
+  private handleAsFollower(message: TabMessage): void {
+    switch (message.kind) {
+      case 'welcome':
+        if (message.tabId !== this.tabId) return;
+        this.pendingJoins.forEach((accept) => accept());
+        this.pendingJoins.clear();
+        return;
+      case 'down':
+        this.relays.forEach((relay) => relay.close());
+        return;
+      case 'deliver':
+        if (message.tabId !== undefined && message.tabId !== this.tabId) return;
+        this.relays.forEach((relay) => relay.open && relay.handlers.onMessage(message.data));
+        return;
+    }
+  }
+}
+
+function parse(data: string): ParsedMessage | null {
+  try {
+    const message = JSON.parse(data) as unknown;
+    return typeof message === 'object' && message !== null ? (message as ParsedMessage) : null;
+  } catch {
+    return null;
+  }
+}
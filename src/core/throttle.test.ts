@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RfidThrottle } from './throttle';
+import { CleverenceEdge } from './client';
+import { MockEdge } from '../testing/mockEdge';
+import type { RfidEvent } from '../types';
+
+function read(epc: string, rssi = -50): RfidEvent {
+  return { type: 'rfid', id: `${epc}-${rssi}`, timestamp: new Date(), epc, rssi, antenna: 1 };
+}
+
+describe('RfidThrottle', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should emit each EPC once per window and drop repeats', () => {
+    const throttle = new RfidThrottle({ perEpcWindow: 500 }, vi.fn());
+
+    expect(throttle.push([read('A'), read('B'), read('A')]).map((event) => event.epc)).toEqual(['A', 'B']);
+    vi.advanceTimersByTime(200);
+    expect(throttle.push([read('A')])).toEqual([]);
+    vi.advanceTimersByTime(300);
+    expect(throttle.push([read('A')])).toHaveLength(1);
+
+    expect(throttle.stats).toEqual({ received: 5, emitted: 3, dropped: 2, pending: 0 });
+  });
+
+  it('should release the latest held read when the window closes', () => {
+    const release = vi.fn();
+    const throttle = new RfidThrottle({ perEpcWindow: 500, policy: 'keepLatest' }, release);
+
+    throttle.push([read('A', -60)]);
+    throttle.push([read('A', -55), read('A', -40)]);
+    expect(throttle.stats).toMatchObject({ pending: 1, dropped: 1 });
+
+    vi.advanceTimersByTime(500);
+    expect(release).toHaveBeenCalledTimes(1);
+    expect(release.mock.calls[0][0]).toEqual([expect.objectContaining({ epc: 'A', rssi: -40 })]);
+    expect(throttle.stats).toEqual({ received: 3, emitted: 2, dropped: 1, pending: 0 });
+  });
+
+  it('should cap events per second across tags', () => {
+    const release = vi.fn();
+    const throttle = new RfidThrottle({ maxEventsPerSecond: 2, policy: 'keepLatest' }, release);
+
+    expect(throttle.push([read('A'), read('B'), read('C'), read('D')])).toHaveLength(2);
+    expect(throttle.stats.pending).toBe(2);
+
+    vi.advanceTimersByTime(1000);
+    expect(release.mock.calls[0][0].map((event: RfidEvent) => event.epc)).toEqual(['C', 'D']);
+  });
+
+  it('should release held reads on flush', () => {
+    const release = vi.fn();
+    const throttle = new RfidThrottle({ perEpcWindow: 1000, policy: 'keepLatest' }, release);
+
+    throttle.push([read('A'), read('A')]);
+    throttle.flush();
+
+    expect(release).toHaveBeenCalledWith([expect.objectContaining({ epc: 'A' })]);
+    vi.advanceTimersByTime(1000);
+    expect(release).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('CleverenceEdge rfidThrottle', () => {
+  it('should throttle reads before rfid and rfidBatch events', async () => {
+    const mock = new MockEdge();
+    const edge = new CleverenceEdge({ autoConnect: false, transport: mock.transport, rfidThrottle: { perEpcWindow: 1000 } });
+    await edge.connect();
+    const rfidHandler = vi.fn();
+    const batchHandler = vi.fn();
+    edge.on('rfid', rfidHandler);
+    edge.on('rfidBatch', batchHandler);
+
+    mock.rfid('EPC-1');
+    mock.rfidBatch(['EPC-1', 'EPC-2', 'EPC-2']);
+    await mock.settle();
+
+    expect(rfidHandler.mock.calls.map(([event]) => event.epc)).toEqual(['EPC-1', 'EPC-2']);
+    expect(batchHandler.mock.calls.map(([events]) => events.length)).toEqual([1, 1]);
+    expect(edge.rfidThrottleStats).toEqual({ received: 4, emitted: 2, dropped: 2, pending: 0 });
+
+    edge.disconnect();
+  });
+});
@@ -0,0 +1,156 @@
+import type { RfidEvent, RfidThrottleOptions, RfidThrottleStats } from '../types';
+
+const RATE_WINDOW_MS = 1000;
+
+/**
+ * Coalesces and rate-limits RFID reads during high-volume inventories.
+ * Reads that pass are returned from `push()`; with the 'keepLatest' policy, held reads are handed to
+ * `release` once the per-EPC window or the rate limit allows.
+ */
+export class RfidThrottle {
+  private perEpcWindow: number;
+  private maxEventsPerSecond: number;
+  private policy: 'drop' | 'keepLatest';
+  private release: (events: RfidEvent[]) => void;
+
+  private lastEmitted: Map<string, number> = new Map();
+  private pending: Map<string, RfidEvent> = new Map();
+  private rateWindowStart = 0;
+  private rateWindowCount = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private counters = { received: 0, emitted: 0, dropped: 0 };
+
+  constructor(options: RfidThrottleOptions, release: (events: RfidEvent[]) => void) {
+    this.perEpcWindow = options.perEpcWindow ?? 0;
+    this.maxEventsPerSecond = options.maxEventsPerSecond ?? 0;
+    this.policy = options.policy ?? 'drop';
+    this.release = release;
+  }
+
+  /** Counters since the throttle was created */
+  get stats(): RfidThrottleStats {
+    return { ...this.counters, pending: this.pending.size };
+  }
+
+  /**
+   * Filter incoming reads; returns the reads to emit now
+   */
+  push(events: RfidEvent[]): RfidEvent[] {
+    const now = Date.now();
+    const passed: RfidEvent[] = [];
+
+    events.forEach((event) => {
+      this.counters.received++;
+
+      if (this.pending.has(event.epc)) {
+        // A newer read supersedes the held one
+        this.pending.set(event.epc, event);
+        this.counters.dropped++;
+        return;
+      }
+      if (this.admit(event.epc, now)) {
+        passed.push(event);
+        return;
+      }
+      if (this.policy === 'keepLatest') {
+        this.pending.set(event.epc, event);
+      } else {
+        this.counters.dropped++;
+      }
+    });
+
+    this.schedule(now);
+    return passed;
+  }
+
+  /**
+   * Release every held read immediately, ignoring the limits
+   */
+  flush(): void {
+    this.clearTimer();
+    const held = Array.from(this.pending.values());
+    this.pending.clear();
+    if (held.length > 0) {
+      this.counters.emitted += held.length;
+      this.release(held);
+    }
+  }
+
+  private admit(epc: string, now: number): boolean {
+    const last = this.lastEmitted.get(epc);
+    if (this.perEpcWindow > 0 && last !== undefined && now - last < this.perEpcWindow) {
+      return false;
+    }
+
+    if (this.maxEventsPerSecond > 0) {
+      if (now - this.rateWindowStart >= RATE_WINDOW_MS) {
+        this.rateWindowStart = now;
+        this.rateWindowCount = 0;
+      }
+      if (this.rateWindowCount >= this.maxEventsPerSecond) {
+        return false;
+      }
+      this.rateWindowCount++;
+    }
+
+    if (this.perEpcWindow > 0) {
+      this.lastEmitted.set(epc, now);
+      this.pruneEmitted(now);
+    }
+    this.counters.emitted++;
+    return true;
+  }
+
+  /**
+   * Forget EPCs whose window has long passed so the map does not grow with every tag ever seen
+   */
+  private pruneEmitted(now: number): void {
+    if (this.lastEmitted.size < 10000) return;
+    this.lastEmitted.forEach((at, epc) => {
+      if (now - at >= this.perEpcWindow) this.lastEmitted.delete(epc);
+    });
+  }
+
+  private schedule(now: number): void {
+    if (this.timer || this.pending.size === 0) return;
+
+    const rateDue =
+      this.maxEventsPerSecond > 0 && this.rateWindowCount >= this.maxEventsPerSecond
+        ? this.rateWindowStart + RATE_WINDOW_MS
+        : now;
+    let due = Infinity;
+    this.pending.forEach((_event, epc) => {
+      const epcDue = (this.lastEmitted.get(epc) ?? now) + this.perEpcWindow;
+      due = Math.min(due, Math.max(epcDue, rateDue));
+    });
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.releaseDue();
+    }, Math.max(0, due - now));
+  }
+
+  private releaseDue(): void {
+    const now = Date.now();
+    const released: RfidEvent[] = [];
+
+    this.pending.forEach((event, epc) => {
+      if (this.admit(epc, now)) {
+        this.pending.delete(epc);
+        released.push(event);
+      }
+    });
+
+    if (released.length > 0) {
+      this.release(released);
+    }
+    this.schedule(now);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
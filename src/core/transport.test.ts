@@ -0,0 +1,180 @@
+import { describe, it, expect, vi } from 'vitest';
+import { WebSocketTransport, BridgeTransport } from './transport';
+import { WebSocketManager } from './websocket';
+import { CleverenceEdge } from './client';
+import { ConnectionError, NotConnectedError } from './errors';
+
+// Minimal WebSocket implementation injected instead of the global one
+class FakeWebSocket {
+  static instances: FakeWebSocket[] = [];
+
+  readyState = 0;
+  url: string;
+  sent: string[] = [];
+
+  private listeners: Map<string, Set<Function>> = new Map();
+
+  constructor(url: string) {
+    this.url = url;
+    FakeWebSocket.instances.push(this);
+  }
+
+  addEventListener(event: string, listener: Function) {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(listener);
+  }
+
+  send(data: string) {
+    this.sent.push(data);
+  }
+
+  close() {
+    this.readyState = 3;
+    this.fire('close', {});
+  }
+
+  open() {
+    this.readyState = 1;
+    this.fire('open', {});
+  }
+
+  fire(event: string, data: unknown) {
+    this.listeners.get(event)?.forEach((listener) => listener(data));
+  }
+}
+
+function createBridge() {
+  let listener: ((data: string) => void) | null = null;
+  const posted: string[] = [];
+  const unsubscribe = vi.fn(() => {
+    listener = null;
+  });
+  const transport = new BridgeTransport({
+    post: (data) => {
+      const msg = JSON.parse(data);
+      if (msg.type === 'hello') {
+        setTimeout(() => deliver({
+          type: 'response',
+          id: msg.id,
+          success: true,
+          data: { hello: true, result: { authenticated: false, protocolVersion: 2, features: ['command_ack'] } },
+        }), 0);
+        return;
+      }
+      posted.push(data);
+    },
+    subscribe: (l) => {
+      listener = l;
+      return unsubscribe;
+    },
+  });
+  const deliver = (message: unknown) => listener?.(JSON.stringify(message));
+  return { transport, posted, unsubscribe, deliver };
+}
+
+describe('WebSocketTransport', () => {
+  it('should use an injected WebSocket constructor', () => {
+    const transport = new WebSocketTransport(FakeWebSocket);
+    const handlers = { onOpen: vi.fn(), onMessage: vi.fn(), onClose: vi.fn(), onError: vi.fn() };
+
+    const connection = transport.connect('ws://localhost:9000', handlers);
+    const socket = FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+
+    expect(socket.url).toBe('ws://localhost:9000');
+    expect(connection.isOpen).toBe(false);
+
+    socket.open();
+    expect(handlers.onOpen).toHaveBeenCalled();
+    expect(connection.isOpen).toBe(true);
+
+    connection.send('hello');
+    expect(socket.sent).toEqual(['hello']);
+
+    socket.fire('message', { data: '{"type":"pong"}' });
+    expect(handlers.onMessage).toHaveBeenCalledWith('{"type":"pong"}');
+
+    connection.close();
+    expect(handlers.onClose).toHaveBeenCalled();
+  });
+
+  it('should throw when no WebSocket implementation is available', () => {
+    vi.stubGlobal('WebSocket', undefined);
+    const transport = new WebSocketTransport();
+    const handlers = { onOpen: vi.fn(), onMessage: vi.fn(), onClose: vi.fn(), onError: vi.fn() };
+
+    expect(() => transport.connect('ws://localhost:8585', handlers)).toThrow('WebSocket is not available');
+    expect(() => transport.connect('ws://localhost:8585', handlers)).toThrow(ConnectionError);
+    vi.unstubAllGlobals();
+  });
+});
+
+describe('BridgeTransport', () => {
+  it('should open asynchronously and relay messages', async () => {
+    const bridge = createBridge();
+    const handlers = { onOpen: vi.fn(), onMessage: vi.fn(), onClose: vi.fn(), onError: vi.fn() };
+
+    const connection = bridge.transport.connect('', handlers);
+    expect(connection.isOpen).toBe(false);
+    expect(() => connection.send('early')).toThrow('Bridge is not open');
+    expect(() => connection.send('early')).toThrow(NotConnectedError);
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(handlers.onOpen).toHaveBeenCalled();
+
+    connection.send('{"type":"ping"}');
+    expect(bridge.posted).toEqual(['{"type":"ping"}']);
+
+    bridge.deliver({ type: 'pong' });
+    expect(handlers.onMessage).toHaveBeenCalledWith('{"type":"pong"}');
+
+    connection.close();
+    expect(bridge.unsubscribe).toHaveBeenCalled();
+    expect(handlers.onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it('should share request correlation with WebSocketManager', async () => {
+    const bridge = createBridge();
+    const ws = new WebSocketManager('', { transport: bridge.transport });
+
+    await ws.connect();
+    expect(ws.isConnected).toBe(true);
+
+    const statusPromise = ws.request<{ connected: boolean }>('status');
+    const sent = bridge.posted.map((data) => JSON.parse(data)).find((msg) => msg.type === 'query');
+    bridge.deliver({
+      type: 'response',
+      id: sent.id,
+      success: true,
+      data: { query: 'status', result: { connected: true } },
+    });
+
+    await expect(statusPromise).resolves.toEqual({ connected: true });
+    ws.disconnect();
+  });
+
+  it('should be accepted by CleverenceEdge through options', async () => {
+    const bridge = createBridge();
+    const scanHandler = vi.fn();
+    const edge = new CleverenceEdge({ autoConnect: false, transport: bridge.transport });
+    edge.on('scan', scanHandler);
+
+    await edge.connect();
+    bridge.deliver({
+      type: 'event',
+      event: {
+        type: 'scan',
+        id: 'scan-1',
+        timestamp: '2024-01-15T10:30:00Z',
+        data: '012345678905',
+        symbology: 'ean13',
+        source: 'camera',
+        vendor: 'zebra',
+      },
+    });
+
+    expect(scanHandler).toHaveBeenCalledWith(expect.objectContaining({ data: '012345678905' }));
+    edge.disconnect();
+  });
+});
@@ -0,0 +1,158 @@
+import { ConnectionError, NotConnectedError } from './errors';
+import type {
+  Transport,
+  TransportConnection,
+  TransportHandlers,
+  WebSocketConstructor,
+  WebSocketLike,
+} from '../types';
+
+// WebSocket readyState values (identical across browser WebSocket and the `ws` package)
+const WS_CONNECTING = 0;
+const WS_OPEN = 1;
+
+/**
+ * Transport over a WebSocket.
+ * Uses the global WebSocket by default; pass a constructor to use another implementation
+ * (e.g. the `ws` package in Node).
+ *
+ * @example
+ * ```typescript
+ * import WebSocket from 'ws';
+ *
+ * const edge = new CleverenceEdge({ transport: new WebSocketTransport(WebSocket) });
+ * ```
+ */
+export class WebSocketTransport implements Transport {
+  private WebSocketImpl?: WebSocketConstructor;
+
+  constructor(WebSocketImpl?: WebSocketConstructor) {
+    this.WebSocketImpl = WebSocketImpl;
+  }
+
+  connect(url: string, handlers: TransportHandlers): TransportConnection {
+    const WebSocketImpl = this.WebSocketImpl ?? (globalThis.WebSocket as unknown as WebSocketConstructor | undefined);
+    if (!WebSocketImpl) {
+      throw new ConnectionError('WebSocket is not available in this environment. Pass a WebSocket implementation.');
+    }
+
+    const ws: WebSocketLike = new WebSocketImpl(url);
+
+    ws.addEventListener('open', () => handlers.onOpen());
+    ws.addEventListener('message', (event: { data: unknown }) => {
+      handlers.onMessage(typeof event.data === 'string' ? event.data : String(event.data));
+    });
+    ws.addEventListener('close', () => handlers.onClose());
+    ws.addEventListener('error', () => handlers.onError(new ConnectionError('WebSocket error')));
+
+    return {
+      get isOpen() {
+        return ws.readyState === WS_OPEN;
+      },
+      send: (data) => ws.send(data),
+      close: () => {
+        // Only close if not already closed/closing
+        if (ws.readyState === WS_OPEN || ws.readyState === WS_CONNECTING) {
+          ws.close();
+        }
+      },
+    };
+  }
+}
+
+/**
+ * Options for BridgeTransport
+ */
+export interface BridgeTransportOptions {
+  /** Deliver an outgoing message to the native side */
+  post: (data: string) => void;
+  /** Subscribe to incoming messages from the native side. Returns an unsubscribe function */
+  subscribe: (listener: (data: string) => void) => () => void;
+}
+
+/**
+ * Transport over a JavaScript bridge or `postMessage` channel, for apps embedded in
+ * Android WebViews, Capacitor shells or iframes where the Edge service is reached through
+ * the host instead of a socket. The bridge is considered open as soon as it is connected.
+ *
+ * @example
+ * ```typescript
+ * const edge = new CleverenceEdge({
+ *   transport: new BridgeTransport({
+ *     post: (data) => window.EdgeBridge.postMessage(data),
+ *     subscribe: (listener) => {
+ *       window.onEdgeMessage = listener;
+ *       return () => { window.onEdgeMessage = undefined; };
+ *     },
+ *   }),
+ * });
+ * ```
+ */
+export class BridgeTransport implements Transport {
+  private options: BridgeTransportOptions;
+
+  constructor(options: BridgeTransportOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Create a bridge that talks to another window (parent frame, opener or iframe) via postMessage
+   */
+  static fromWindow(target: Window, targetOrigin: string): BridgeTransport {
+    return new BridgeTransport({
+      post: (data) => target.postMessage(data, targetOrigin),
+      subscribe: (listener) => {
+        const onMessage = (event: MessageEvent) => {
+          if (event.source !== target) return;
+          if (targetOrigin !== '*' && event.origin !== targetOrigin) return;
+          if (typeof event.data === 'string') {
+            listener(event.data);
+          }
+        };
+        window.addEventListener('message', onMessage);
+        return () => window.removeEventListener('message', onMessage);
+      },
+    });
+  }
+
+  connect(_url: string, handlers: TransportHandlers): TransportConnection {
+    let open = false;
+    let closed = false;
+    let unsubscribe: (() => void) | null = null;
+
+    const connection: TransportConnection = {
+      get isOpen() {
+        return open;
+      },
+      send: (data) => {
+        if (!open) {
+          throw new NotConnectedError('Bridge is not open');
+        }
+        this.options.post(data);
+      },
+      close: () => {
+        if (closed) return;
+        closed = true;
+        open = false;
+        unsubscribe?.();
+        unsubscribe = null;
+        handlers.onClose();
+      },
+    };
+
+    // Open asynchronously so callers can finish wiring up before the first callback
+    setTimeout(() => {
+      if (closed) return;
+      try {
+        unsubscribe = this.options.subscribe((data) => handlers.onMessage(data));
+        open = true;
+        handlers.onOpen();
+      } catch (err) {
+        handlers.onError(err instanceof Error ? err : new ConnectionError(String(err)));
+        connection.close();
+      }
+    }, 0);
+
+    return connection;
+  }
+}
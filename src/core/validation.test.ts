@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { validateServerMessage } from './validation';
+import { ProtocolError } from './errors';
+
+const rfid = (epc: string, extra: Record<string, unknown> = {}) => ({
+  type: 'rfid',
+  id: `rfid-${epc}`,
+  timestamp: '2024-01-15T10:30:00Z',
+  epc,
+  rssi: -45,
+  antenna: 1,
+  ...extra,
+});
+
+describe('validateServerMessage', () => {
+  it('should accept well-formed messages', () => {
+    const message = { type: 'event', event: rfid('A') };
+    expect(validateServerMessage(message, 'strict')).toEqual({ message, errors: [] });
+    expect(validateServerMessage({ type: 'pong' }, 'strict').message).toEqual({ type: 'pong' });
+    expect(validateServerMessage({ type: 'gap', fromSeq: 1, toSeq: 3 }, 'strict').errors).toEqual([]);
+  });
+
+  it('should reject events with missing required fields in both modes', () => {
+    const payload = { type: 'event', event: { type: 'scan', id: 'scan-1', data: 'x' } };
+
+    for (const mode of ['strict', 'lenient'] as const) {
+      const result = validateServerMessage(payload, mode);
+      expect(result.message).toBeNull();
+      expect(result.errors[0]).toBeInstanceOf(ProtocolError);
+      expect(result.errors[0].message).toContain('timestamp');
+      expect(result.errors[0].payload).toBe(payload);
+    }
+  });
+
+  it('should strip malformed optional fields only in lenient mode', () => {
+    const payload = { type: 'event', event: rfid('A', { phase: 'n/a', seq: 4 }) };
+
+    expect(validateServerMessage(payload, 'strict').message).toBeNull();
+
+    const lenient = validateServerMessage(payload, 'lenient');
+    expect(lenient.message).toEqual({ type: 'event', event: rfid('A', { seq: 4 }) });
+    expect(lenient.errors).toHaveLength(1);
+    expect(lenient.errors[0].message).toContain('phase');
+  });
+
+  it('should report a malformed error code dropped in lenient mode', () => {
+    const payload = { type: 'error', message: 'Scanner busy', code: 42 };
+
+    expect(validateServerMessage(payload, 'strict').message).toBeNull();
+
+    const lenient = validateServerMessage(payload, 'lenient');
+    expect(lenient.message).toEqual({ type: 'error', message: 'Scanner busy' });
+    expect(lenient.errors[0].message).toContain('code');
+  });
+
+  it('should keep the valid part of an rfid batch in lenient mode', () => {
+    const payload = { type: 'rfid_batch', events: [rfid('A'), { type: 'rfid', id: 'broken' }, rfid('B')] };
+
+    expect(validateServerMessage(payload, 'strict').message).toBeNull();
+
+    const lenient = validateServerMessage(payload, 'lenient');
+    expect(lenient.message).toEqual({ type: 'rfid_batch', events: [rfid('A'), rfid('B')] });
+    expect(lenient.errors).toHaveLength(1);
+    expect(lenient.errors[0].payload).toEqual({ type: 'rfid', id: 'broken' });
+  });
+
+  it('should ignore unknown message types only in lenient mode', () => {
+    expect(validateServerMessage({ type: 'telemetry' }, 'lenient')).toEqual({ message: null, errors: [] });
+    expect(validateServerMessage({ type: 'telemetry' }, 'strict').errors).toHaveLength(1);
+    expect(validateServerMessage([1, 2], 'lenient').errors).toHaveLength(1);
+  });
+
+  it('should validate response envelopes', () => {
+    expect(validateServerMessage({ type: 'response', id: 'a', success: true }, 'lenient').message).toBeNull();
+    expect(validateServerMessage({ type: 'response', id: 'a', success: false, error: 'nope' }, 'lenient').message)
+      .toEqual({ type: 'response', id: 'a', success: false, error: 'nope' });
+  });
+
+  it('should check the result of successful responses', () => {
+    const response = (data: unknown) => ({ type: 'response', id: 'a', success: true, data });
+
+    const accepted = [
+      { command: 'stop_rfid_inventory', result: { tagCount: 3 } },
+      { command: 'trigger_scan' },
+      { resume: true, result: { replayed: 0, reset: false } },
+      { pair: true, result: { token: 'device-token' } },
+    ];
+    accepted.forEach((data) => expect(validateServerMessage(response(data), 'strict').errors).toEqual([]));
+
+    const rejected = [
+      { command: 'stop_rfid_inventory', result: { tagCount: 'many' } },
+      { hello: true, result: { authenticated: 'yes', protocolVersion: 2, features: [] } },
+      { query: 'rfid_tags', result: {} },
+      { result: {} },
+    ];
+    rejected.forEach((data) => expect(validateServerMessage(response(data), 'lenient').message).toBeNull());
+  });
+
+  it('should validate capabilities', () => {
+    const capabilities = {
+      edgeVersion: '1.0.0',
+      vendor: 'zebra',
+      deviceModel: 'TC52',
+      barcode: null,
+      rfid: { type: 'sled', canToggle: true, canConfigurePower: true, canConfigureSession: true, supportedMemoryBanks: [] },
+      nfc: null,
+    };
+    expect(validateServerMessage({ type: 'capabilities', data: capabilities }, 'strict').errors).toEqual([]);
+
+    const brokenScanner = { ...capabilities, barcode: { type: 'builtIn' } };
+    expect(validateServerMessage({ type: 'capabilities', data: brokenScanner }, 'lenient').message).toBeNull();
+
+    const badRange = { ...capabilities, rfid: { ...capabilities.rfid, powerRange: '0-30' } };
+    const payload = { type: 'response', id: 'a', success: true, data: { query: 'capabilities', result: badRange } };
+    expect(validateServerMessage(payload, 'strict').message).toBeNull();
+
+    const lenient = validateServerMessage(payload, 'lenient');
+    expect(lenient.message).toEqual({ ...payload, data: { query: 'capabilities', result: capabilities } });
+    expect(lenient.errors[0].message).toContain('result.rfid.powerRange');
+  });
+});
@@ -0,0 +1,405 @@
+import { ProtocolError } from './errors';
+import type {
+  ServerMessage,
+  ScanEvent,
+  RfidEvent,
+  ValidationMode,
+  DeviceCapabilities,
+  ResponseData,
+} from '../types';
+
+/**
+ * Outcome of validating a single incoming message
+ */
+export interface ValidationResult {
+  /** The message to dispatch, or null when it was rejected or ignored */
+  message: ServerMessage | null;
+  /** Problems found in the payload (non-empty even in lenient mode when parts were dropped) */
+  errors: ProtocolError[];
+}
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
+const isTimestamp = (value: unknown): boolean =>
+  (isString(value) && !Number.isNaN(Date.parse(value))) || value instanceof Date;
+
+const isNullableString = (value: unknown): boolean => value === null || isString(value);
+
+const isStringArray = (value: unknown): boolean => Array.isArray(value) && value.every(isString);
+
+type FieldCheck = (value: unknown) => boolean;
+
+const SCAN_FIELDS: Record<string, FieldCheck> = {
+  id: isString,
+  timestamp: isTimestamp,
+  data: isString,
+  symbology: isString,
+  source: isString,
+  vendor: isString,
+};
+
+const SCAN_RAW_FIELDS: Record<string, FieldCheck> = {
+  bytesHex: isString,
+  symbologyId: isString,
+  aimId: isString,
+  signalStrength: (value) => value === null || isNumber(value),
+  scanDurationMs: isNumber,
+};
+
+const SCAN_OPTIONAL_FIELDS: Record<string, FieldCheck> = {
+  seq: isNumber,
+  epoch: isString,
+  raw: (value) => isObject(value) && invalidFields(value, SCAN_RAW_FIELDS).length === 0,
+};
+
+const RFID_FIELDS: Record<string, FieldCheck> = {
+  id: isString,
+  timestamp: isTimestamp,
+  epc: isString,
+  rssi: isNumber,
+  antenna: isNumber,
+};
+
+const RFID_OPTIONAL_FIELDS: Record<string, FieldCheck> = {
+  seq: isNumber,
+  epoch: isString,
+  tid: isNullableString,
+  userData: isNullableString,
+  phase: isNumber,
+  channel: isNumber,
+  readCount: isNumber,
+  pc: isString,
+  crc: isString,
+  inventorySession: isString,
+  transmitPowerDbm: isNumber,
+};
+
+const CAPABILITY_FIELDS: Record<string, FieldCheck> = {
+  edgeVersion: isString,
+  vendor: isString,
+  deviceModel: isString,
+};
+
+const CAPABILITY_OPTIONAL_FIELDS: Record<string, FieldCheck> = {
+  firmwareVersion: isString,
+  serialNumber: isString,
+};
+
+interface SectionFields {
+  fields: Record<string, FieldCheck>;
+  optional: Record<string, FieldCheck>;
+}
+
+/** Required and optional fields of each hardware section; a section may also be null */
+const CAPABILITY_SECTIONS: Record<string, SectionFields> = {
+  barcode: {
+    fields: {
+      type: isString,
+      canToggle: isBoolean,
+      canReportSymbology: isBoolean,
+      canToggleSymbologies: isBoolean,
+      supportedSymbologies: isStringArray,
+    },
+    optional: { vendor: isString, model: isString },
+  },
+  rfid: {
+    fields: {
+      type: isString,
+      canToggle: isBoolean,
+      canConfigurePower: isBoolean,
+      canConfigureSession: isBoolean,
+      supportedMemoryBanks: isStringArray,
+    },
+    optional: {
+      vendor: isString,
+      model: isString,
+      powerRange: (value) => isObject(value) && isNumber(value.min) && isNumber(value.max),
+    },
+  },
+  nfc: {
+    fields: { canToggle: isBoolean },
+    optional: {},
+  },
+};
+
+/** Checks for the `result` of successful responses, by the query or command they answer */
+const QUERY_RESULTS: Record<string, FieldCheck> = {
+  status: isObject,
+  config: isObject,
+  rfid_tags: Array.isArray,
+};
+
+const COMMAND_RESULTS: Record<string, FieldCheck> = {
+  trigger_scan: (value) => value === undefined || isObject(value),
+  set_symbologies: (value) => isObject(value) && isStringArray(value.enabledSymbologies),
+  start_rfid_inventory: (value) => isObject(value) && isString(value.inventorySession),
+  stop_rfid_inventory: (value) => isObject(value) && isNumber(value.tagCount),
+};
+
+const HELLO_RESULT_FIELDS: Record<string, FieldCheck> = {
+  authenticated: isBoolean,
+  protocolVersion: isNumber,
+  minProtocolVersion: (value) => value === undefined || isNumber(value),
+  features: isStringArray,
+};
+
+const RESUME_RESULT_FIELDS: Record<string, FieldCheck> = {
+  replayed: isNumber,
+  reset: isBoolean,
+};
+
+/**
+ * Outcome of validating part of a message: the value to keep (null when rejected), why it was
+ * rejected, and the optional fields removed in lenient mode
+ */
+interface Checked<T> {
+  value: T | null;
+  problem: string | null;
+  dropped: string[];
+}
+
+/**
+ * Collects the names of required fields that are missing or have the wrong type
+ */
+function invalidFields(value: Json, fields: Record<string, FieldCheck>): string[] {
+  return Object.keys(fields).filter((name) => !fields[name](value[name]));
+}
+
+/**
+ * Removes optional fields that are present but malformed and returns their names
+ */
+function dropMalformed(value: Json, fields: Record<string, FieldCheck>, prefix = ''): string[] {
+  return Object.keys(fields).filter((name) => {
+    if (value[name] === undefined || fields[name](value[name])) return false;
+    delete value[name];
+    return true;
+  }).map((name) => prefix + name);
+}
+
+/**
+ * Validate a scan or RFID event payload.
+ * Required fields must always be valid. Malformed optional fields fail in strict mode and are
+ * removed in lenient mode.
+ */
+function validateEvent(
+  value: unknown,
+  mode: ValidationMode,
+  allowed: Array<'scan' | 'rfid'>
+): Checked<ScanEvent | RfidEvent> {
+  if (!isObject(value) || !allowed.includes(value.type as 'scan' | 'rfid')) {
+    return { value: null, problem: `expected a ${allowed.join(' or ')} event`, dropped: [] };
+  }
+
+  const event: Json = { ...value };
+  const missing = invalidFields(event, event.type === 'scan' ? SCAN_FIELDS : RFID_FIELDS);
+  if (missing.length > 0) {
+    return { value: null, problem: `invalid ${event.type} event fields: ${missing.join(', ')}`, dropped: [] };
+  }
+
+  const dropped = dropMalformed(event, event.type === 'scan' ? SCAN_OPTIONAL_FIELDS : RFID_OPTIONAL_FIELDS);
+  if (dropped.length > 0 && mode === 'strict') {
+    return { value: null, problem: `invalid ${event.type} event fields: ${dropped.join(', ')}`, dropped: [] };
+  }
+  return { value: event as unknown as ScanEvent | RfidEvent, problem: null, dropped };
+}
+
+/**
+ * Validate device capabilities. Required fields and hardware sections must always be valid;
+ * malformed optional fields fail in strict mode and are removed in lenient mode.
+ */
+function validateCapabilities(value: unknown, mode: ValidationMode): Checked<DeviceCapabilities> {
+  if (!isObject(value)) {
+    return { value: null, problem: 'capabilities are not an object', dropped: [] };
+  }
+
+  const capabilities: Json = { ...value };
+  const invalid = invalidFields(capabilities, CAPABILITY_FIELDS);
+  const dropped = dropMalformed(capabilities, CAPABILITY_OPTIONAL_FIELDS);
+  Object.keys(CAPABILITY_SECTIONS).forEach((name) => {
+    const section = capabilities[name];
+    const { fields, optional } = CAPABILITY_SECTIONS[name];
+    if (section === null) return;
+    if (!isObject(section) || invalidFields(section, fields).length > 0) {
+      invalid.push(name);
+      return;
+    }
+    const copy = { ...section };
+    dropped.push(...dropMalformed(copy, optional, `${name}.`));
+    capabilities[name] = copy;
+  });
+
+  if (invalid.length > 0) {
+    return { value: null, problem: `invalid capabilities fields: ${invalid.join(', ')}`, dropped: [] };
+  }
+  if (dropped.length > 0 && mode === 'strict') {
+    return { value: null, problem: `invalid capabilities fields: ${dropped.join(', ')}`, dropped: [] };
+  }
+  return { value: capabilities as unknown as DeviceCapabilities, problem: null, dropped };
+}
+
+/**
+ * Validate the data of a successful response against the query, command or handshake it answers.
+ * Unknown queries and commands are accepted as they are in lenient mode.
+ */
+function validateResponseData(value: unknown, mode: ValidationMode): Checked<ResponseData> {
+  const invalid = (problem: string): Checked<ResponseData> => ({ value: null, problem, dropped: [] });
+  const valid = (data: Json, dropped: string[] = []): Checked<ResponseData> => ({
+    value: data as unknown as ResponseData,
+    problem: null,
+    dropped: dropped.map((name) => `result.${name}`),
+  });
+
+  if (!isObject(value)) {
+    return invalid('successful response without data');
+  }
+
+  if (value.query === 'capabilities') {
+    const { value: result, problem, dropped } = validateCapabilities(value.result, mode);
+    return result ? valid({ query: value.query, result }, dropped) : invalid(problem!);
+  }
+  if (isString(value.query) || isString(value.command)) {
+    const name = (value.query ?? value.command) as string;
+    const check = isString(value.query) ? QUERY_RESULTS[name] : COMMAND_RESULTS[name];
+    if (!check) {
+      return mode === 'strict' ? invalid(`response to unknown request "${name}"`) : valid(value);
+    }
+    return check(value.result) ? valid(value) : invalid(`invalid result for "${name}"`);
+  }
+
+  if (value.hello === true || value.resume === true) {
+    const fields = value.hello === true ? HELLO_RESULT_FIELDS : RESUME_RESULT_FIELDS;
+    return isObject(value.result) && invalidFields(value.result, fields).length === 0
+      ? valid(value)
+      : invalid(`invalid ${value.hello === true ? 'hello' : 'resume'} result`);
+  }
+  if (value.pair === true) {
+    return isObject(value.result) && isString(value.result.token) ? valid(value) : invalid('invalid pair result');
+  }
+  return invalid('response data without query, command or handshake');
+}
+
+/**
+ * Check the optional error `code`; lenient mode drops a malformed code. Returns null to reject.
+ */
+function validateErrorCode(code: unknown, mode: ValidationMode): Checked<string | undefined> | null {
+  if (code === undefined || isString(code)) {
+    return { value: code, problem: null, dropped: [] };
+  }
+  return mode === 'strict' ? null : { value: undefined, problem: null, dropped: ['code'] };
+}
+
+/**
+ * Report the optional fields lenient mode removed from a payload
+ */
+function droppedFields(what: string, dropped: string[], payload: unknown): ProtocolError[] {
+  if (dropped.length === 0) return [];
+  return [new ProtocolError(`Invalid server message: dropped malformed ${what} fields: ${dropped.join(', ')}`, payload)];
+}
+
+/**
+ * Validate the envelope of a message and its event payloads
+ */
+export function validateServerMessage(payload: unknown, mode: ValidationMode): ValidationResult {
+  const reject = (problem: string): ValidationResult => ({
+    message: null,
+    errors: [new ProtocolError(`Invalid server message: ${problem}`, payload)],
+  });
+  // Lenient mode keeps the message but still reports what it removed
+  const accept = (message: ServerMessage, dropped: string[], what: string): ValidationResult => ({
+    message,
+    errors: droppedFields(what, dropped, payload),
+  });
+
+  if (!isObject(payload) || !isString(payload.type)) {
+    return reject('missing message type');
+  }
+
+  switch (payload.type) {
+    case 'event': {
+      const { value: event, problem, dropped } = validateEvent(payload.event, mode, ['scan', 'rfid']);
+      return event ? accept({ type: 'event', event }, dropped, `${event.type} event`) : reject(problem!);
+    }
+
+    case 'rfid_batch': {
+      if (!Array.isArray(payload.events)) {
+        return reject('rfid_batch without events');
+      }
+      const events: RfidEvent[] = [];
+      const errors: ProtocolError[] = [];
+      for (const item of payload.events) {
+        const { value: event, problem, dropped } = validateEvent(item, mode, ['rfid']);
+        if (event) {
+          events.push(event as RfidEvent);
+          errors.push(...droppedFields('rfid event', dropped, item));
+        } else if (mode === 'strict') {
+          return reject(problem!);
+        } else {
+          // Keep the rest of the batch usable
+          errors.push(new ProtocolError(`Invalid server message: ${problem}`, item));
+        }
+      }
+      return { message: { type: 'rfid_batch', events }, errors };
+    }
+
+    case 'capabilities': {
+      const { value: data, problem, dropped } = validateCapabilities(payload.data, mode);
+      return data ? accept({ type: 'capabilities', data }, dropped, 'capabilities') : reject(problem!);
+    }
+
+    case 'response': {
+      if (!isString(payload.id) || !isBoolean(payload.success)) {
+        return reject('response without id or success flag');
+      }
+      if (payload.success) {
+        const { value: data, problem, dropped } = validateResponseData(payload.data, mode);
+        return data
+          ? accept({ type: 'response', id: payload.id, success: true, data }, dropped, 'response')
+          : reject(problem!);
+      }
+      if (!isString(payload.error)) {
+        return reject('failed response without error');
+      }
+      const checked = validateErrorCode(payload.code, mode);
+      if (!checked) {
+        return reject('error code is not a string');
+      }
+      const response: ServerMessage = { type: 'response', id: payload.id, success: false, error: payload.error };
+      if (isString(checked.value)) response.code = checked.value;
+      return accept(response, checked.dropped, 'response');
+    }
+
+    case 'error': {
+      if (!isString(payload.message)) {
+        return reject('error without message');
+      }
+      const checked = validateErrorCode(payload.code, mode);
+      if (!checked) {
+        return reject('error code is not a string');
+      }
+      const error: ServerMessage = { type: 'error', message: payload.message };
+      if (isString(checked.value)) error.code = checked.value;
+      return accept(error, checked.dropped, 'error');
+    }
+
+    case 'gap':
+      return isNumber(payload.fromSeq) && isNumber(payload.toSeq)
+        ? { message: { type: 'gap', fromSeq: payload.fromSeq, toSeq: payload.toSeq }, errors: [] }
+        : reject('gap without sequence range');
+
+    case 'pong':
+      return { message: { type: 'pong' }, errors: [] };
+
+    default:
+      // Newer services may send message types this SDK does not know yet
+      return mode === 'strict' ? reject(`unknown message type "${payload.type}"`) : { message: null, errors: [] };
+  }
+}
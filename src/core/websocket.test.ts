@@ -1,5 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { WebSocketManager } from './websocket';
+import { AuthError, ConnectionError, EdgeServerError, IncompatibleServerError, ProtocolError } from './errors';
+import { MockEdge } from '../testing/mockEdge';
+import type { Transport, TransportHandlers } from '../types';
 
 // Mock WebSocket
 class MockWebSocket {
@@ -41,6 +44,10 @@ class MockWebSocket {
     if (this.readyState !== MockWebSocket.OPEN) {
       throw new Error('WebSocket is not open');
     }
+    const msg = JSON.parse(data);
+    if (msg.type === 'hello' && helloResult) {
+      this.simulateMessage({ type: 'response', id: msg.id, success: true, data: { hello: true, result: helloResult } });
+    }
   }
 
   close() {
@@ -58,6 +65,10 @@ class MockWebSocket {
     this.emit('message', { data: JSON.stringify(data) });
   }
 
+  simulateRawMessage(data: string) {
+    this.emit('message', { data });
+  }
+
   simulateClose() {
     this.readyState = MockWebSocket.CLOSED;
     this.emit('close', {});
@@ -72,16 +83,28 @@ class MockWebSocket {
   }
 }
 
+const FULL_HELLO_RESULT = {
+  authenticated: true,
+  protocolVersion: 2,
+  features: ['command_ack', 'resume', 'auth', 'pairing', 'rfid_batch'],
+};
+
 // Store mock instances for testing
 let mockWebSocketInstance: MockWebSocket | null = null;
+let mockWebSocketInstances: MockWebSocket[] = [];
+// Automatic answer to the hello handshake (null = test answers manually or not at all)
+let helloResult: Record<string, unknown> | null = FULL_HELLO_RESULT;
 
 // Setup global mock
 beforeEach(() => {
   mockWebSocketInstance = null;
+  mockWebSocketInstances = [];
+  helloResult = FULL_HELLO_RESULT;
   vi.stubGlobal('WebSocket', class extends MockWebSocket {
     constructor(url: string) {
       super(url);
       mockWebSocketInstance = this;
+      mockWebSocketInstances.push(this);
     }
   });
 });
@@ -164,15 +187,39 @@ describe('WebSocketManager', () => {
     setTimeout(() => mockWebSocketInstance?.simulateOpen(), 10);
     await connectPromise;
     
-    mockWebSocketInstance?.simulateMessage({
-      type: 'event',
-      event: { type: 'scan', id: '123', data: 'test' },
-    });
+    const event = {
+      type: 'scan',
+      id: '123',
+      timestamp: '2024-01-15T10:30:00Z',
+      data: 'test',
+      symbology: 'code128',
+      source: 'camera',
+      vendor: 'zebra',
+    };
+    mockWebSocketInstance?.simulateMessage({ type: 'event', event });
     
-    expect(messageHandler).toHaveBeenCalledWith({
-      type: 'event',
-      event: { type: 'scan', id: '123', data: 'test' },
-    });
+    expect(messageHandler).toHaveBeenCalledWith({ type: 'event', event });
+  });
+
+  it('should report malformed messages as protocol errors', async () => {
+    const ws = new WebSocketManager('ws://localhost:8585');
+    const messageHandler = vi.fn();
+    const errorHandler = vi.fn();
+    ws.on('message', messageHandler);
+    ws.on('error', errorHandler);
+
+    const connectPromise = ws.connect();
+    setTimeout(() => mockWebSocketInstance?.simulateOpen(), 10);
+    await connectPromise;
+
+    mockWebSocketInstance?.simulateRawMessage('not json');
+    mockWebSocketInstance?.simulateMessage({ type: 'event', event: { type: 'scan', id: '123' } });
+
+    expect(messageHandler).not.toHaveBeenCalled();
+    expect(errorHandler).toHaveBeenCalledTimes(2);
+    expect(errorHandler.mock.calls[0][0]).toBeInstanceOf(ProtocolError);
+    expect(errorHandler.mock.calls[0][0].payload).toBe('not json');
+    expect(errorHandler.mock.calls[1][0].payload).toEqual({ type: 'event', event: { type: 'scan', id: '123' } });
   });
 
   it('should resolve pending requests', async () => {
@@ -201,6 +248,492 @@ describe('WebSocketManager', () => {
     // Note: This test is simplified; in real scenario we'd need to capture the ID
   });
 
+  it('should resolve commands on a matching response', async () => {
+    const ws = new WebSocketManager('ws://localhost:8585');
+    
+    const connectPromise = ws.connect();
+    setTimeout(() => mockWebSocketInstance?.simulateOpen(), 10);
+    await connectPromise;
+    
+    const sendSpy = vi.spyOn(mockWebSocketInstance!, 'send');
+    const commandPromise = ws.command({ type: 'command', command: 'start_rfid_inventory' });
+    
+    const sent = JSON.parse(sendSpy.mock.calls[0][0]);
+    expect(sent).toMatchObject({ type: 'command', command: 'start_rfid_inventory' });
+    expect(typeof sent.id).toBe('string');
+    
+    mockWebSocketInstance?.simulateMessage({
+      type: 'response',
+      id: sent.id,
+      success: true,
+      data: { command: 'start_rfid_inventory', result: { inventorySession: 'abc' } },
+    });
+    
+    await expect(commandPromise).resolves.toEqual({ inventorySession: 'abc' });
+  });
+
+  it('should reject commands on an error response', async () => {
+    const ws = new WebSocketManager('ws://localhost:8585');
+    
+    const connectPromise = ws.connect();
+    setTimeout(() => mockWebSocketInstance?.simulateOpen(), 10);
+    await connectPromise;
+    
+    const sendSpy = vi.spyOn(mockWebSocketInstance!, 'send');
+    const commandPromise = ws.command({ type: 'command', command: 'set_symbologies', symbologies: ['foo'] });
+    const sent = JSON.parse(sendSpy.mock.calls[0][0]);
+    
+    mockWebSocketInstance?.simulateMessage({
+      type: 'response',
+      id: sent.id,
+      success: false,
+      error: 'Symbology not supported: foo',
+    });
+    
+    await expect(commandPromise).rejects.toThrow('Symbology not supported: foo');
+  });
+
+  it('should reject commands when the acknowledgement times out', async () => {
+    const ws = new WebSocketManager('ws://localhost:8585');
+    
+    const connectPromise = ws.connect();
+    setTimeout(() => mockWebSocketInstance?.simulateOpen(), 10);
+    await connectPromise;
+    
+    await expect(ws.command({ type: 'command', command: 'trigger_scan' }, { timeoutMs: 20 })).rejects.toThrow(
+      'Command timeout: trigger_scan'
+    );
+  });
+
+  it('should queue commands while reconnecting and flush them after open', async () => {
+    const ws = new WebSocketManager('ws://localhost:8585', { queueCommands: true, reconnectDelay: 10 });
+    const queuedHandler = vi.fn();
+    const flushedHandler = vi.fn();
+    ws.on('queued', queuedHandler);
+    ws.on('flushed', flushedHandler);
+    
+    const connectPromise = ws.connect();
+    setTimeout(() => mockWebSocketInstance?.simulateOpen(), 10);
+    await connectPromise;
+    
+    mockWebSocketInstance?.simulateClose();
+    expect(ws.state).toBe('reconnecting');
+    
+    const first = ws.command({ type: 'command', command: 'stop_rfid_inventory' });
+    const second = ws.command({ type: 'command', command: 'trigger_scan' });
+    expect(ws.queuedCount).toBe(2);
+    expect(queuedHandler).toHaveBeenCalledTimes(2);
+    
+    // Wait for the reconnect attempt to create a new socket
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    const reconnected = mockWebSocketInstance!;
+    const sendSpy = vi.spyOn(reconnected, 'send');
+    reconnected.simulateOpen();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    
+    expect(ws.queuedCount).toBe(0);
+    expect(flushedHandler).toHaveBeenCalledTimes(2);
+    const sent = sendSpy.mock.calls
+      .map((call) => JSON.parse(call[0]))
+      .filter((msg) => msg.type === 'command');
+    expect(sent.map((msg) => msg.command)).toEqual(['stop_rfid_inventory', 'trigger_scan']);
+    
+    sent.forEach((msg) => {
+      reconnected.simulateMessage({
+        type: 'response',
+        id: msg.id,
+        success: true,
+        data: { command: msg.command, result: msg.command === 'stop_rfid_inventory' ? { tagCount: 3 } : undefined },
+      });
+    });
+    
+    await expect(first).resolves.toEqual({ tagCount: 3 });
+    await expect(second).resolves.toBeUndefined();
+    ws.disconnect();
+  });
+
+  it('should drop stale queued commands unless told to keep them', async () => {
+    const ws = new WebSocketManager('ws://localhost:8585', {
+      queueCommands: true,
+      queueTtl: 20,
+      reconnectDelay: 1000,
+    });
+    const droppedHandler = vi.fn();
+    ws.on('dropped', droppedHandler);
+    
+    const connectPromise = ws.connect();
+    setTimeout(() => mockWebSocketInstance?.simulateOpen(), 10);
+    await connectPromise;
+    mockWebSocketInstance?.simulateClose();
+    
+    const stale = ws.command({ type: 'command', command: 'trigger_scan' });
+    ws.command({ type: 'command', command: 'set_symbologies', symbologies: ['ean13'] }, { dropIfStale: false })
+      .catch(() => {});
+    
+    await expect(stale).rejects.toThrow('Command dropped while queued: trigger_scan');
+    expect(droppedHandler).toHaveBeenCalledWith(expect.objectContaining({ command: 'trigger_scan', reason: 'stale' }));
+    expect(ws.queuedCount).toBe(1);
+    
+    ws.disconnect();
+    expect(ws.queuedCount).toBe(0);
+    expect(droppedHandler).toHaveBeenCalledWith(
+      expect.objectContaining({ command: 'set_symbologies', reason: 'disconnected' })
+    );
+  });
+
+  it('should drop queued commands when a reconnect cannot be attempted', async () => {
+    let available = true;
+    let handlers: TransportHandlers | null = null;
+    const transport: Transport = {
+      connect: (_url, connectionHandlers) => {
+        if (!available) throw new Error('Transport unavailable');
+        handlers = connectionHandlers;
+        setTimeout(() => connectionHandlers.onOpen(), 0);
+        return { isOpen: true, send: vi.fn(), close: vi.fn() };
+      },
+    };
+    const ws = new WebSocketManager('ws://localhost:8585', {
+      transport,
+      queueCommands: true,
+      reconnectDelay: 10,
+      handshakeTimeout: 10,
+    });
+    ws.on('error', () => {});
+    const droppedHandler = vi.fn();
+    ws.on('dropped', droppedHandler);
+    
+    await ws.connect();
+    available = false;
+    handlers!.onClose();
+    const queued = ws.command({ type: 'command', command: 'trigger_scan' });
+    
+    await expect(queued).rejects.toThrow('Command dropped while queued: trigger_scan');
+    expect(droppedHandler).toHaveBeenCalledWith(
+      expect.objectContaining({ command: 'trigger_scan', reason: 'disconnected' })
+    );
+    expect(ws.state).toBe('disconnected');
+    expect(ws.queuedCount).toBe(0);
+  });
+
+  it('should reject commands when the queue is full', async () => {
+    const ws = new WebSocketManager('ws://localhost:8585', { queueCommands: true, queueMaxSize: 1 });
+    
+    const connectPromise = ws.connect();
+    setTimeout(() => mockWebSocketInstance?.simulateOpen(), 10);
+    await connectPromise;
+    mockWebSocketInstance?.simulateClose();
+    
+    ws.command({ type: 'command', command: 'trigger_scan' }).catch(() => {});
+    const overflow = ws.command({ type: 'command', command: 'trigger_scan' });
+    await expect(overflow).rejects.toThrow('Command queue is full');
+    await expect(overflow).rejects.toMatchObject({ code: 'command_dropped', reason: 'overflow' });
+    
+    ws.disconnect();
+  });
+
+  it('should authenticate with a hello handshake before reporting connected', async () => {
+    helloResult = null;
+    const ws = new WebSocketManager('ws://localhost:8585', { credentials: { apiKey: 'secret' } });
+    const openHandler = vi.fn();
+    ws.on('open', openHandler);
+    
+    const connectPromise = ws.connect();
+    const sendSpy = vi.spyOn(mockWebSocketInstance!, 'send');
+    mockWebSocketInstance?.simulateOpen();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    
+    const hello = JSON.parse(sendSpy.mock.calls[0][0]);
+    expect(hello).toMatchObject({ type: 'hello', apiKey: 'secret' });
+    expect(ws.state).toBe('connecting');
+    expect(openHandler).not.toHaveBeenCalled();
+    
+    mockWebSocketInstance?.simulateMessage({
+      type: 'response',
+      id: hello.id,
+      success: true,
+      data: { hello: true, result: FULL_HELLO_RESULT },
+    });
+    await connectPromise;
+    
+    expect(ws.state).toBe('connected');
+    expect(openHandler).toHaveBeenCalled();
+    ws.disconnect();
+  });
+
+  it('should not reconnect after the handshake is rejected', async () => {
+    helloResult = null;
+    const ws = new WebSocketManager('ws://localhost:8585', {
+      credentials: { token: 'expired' },
+      reconnectDelay: 10,
+    });
+    const errorHandler = vi.fn();
+    ws.on('error', errorHandler);
+    
+    const connectPromise = ws.connect();
+    const sendSpy = vi.spyOn(mockWebSocketInstance!, 'send');
+    mockWebSocketInstance?.simulateOpen();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    const hello = JSON.parse(sendSpy.mock.calls[0][0]);
+    
+    mockWebSocketInstance?.simulateMessage({
+      type: 'response',
+      id: hello.id,
+      success: false,
+      error: 'Invalid token',
+      code: 'auth_failed',
+    });
+    
+    await expect(connectPromise).rejects.toBeInstanceOf(AuthError);
+    expect(errorHandler.mock.calls[0][0]).toMatchObject({ code: 'auth_failed', message: 'Invalid token' });
+    expect(ws.state).toBe('disconnected');
+    
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(ws.state).toBe('disconnected');
+  });
+
+  it('should keep reconnecting after a handshake fails for other reasons', async () => {
+    helloResult = null;
+    const ws = new WebSocketManager('ws://localhost:8585', { reconnectDelay: 10 });
+    
+    const connectPromise = ws.connect();
+    const sendSpy = vi.spyOn(mockWebSocketInstance!, 'send');
+    mockWebSocketInstance?.simulateOpen();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    const hello = JSON.parse(sendSpy.mock.calls[0][0]);
+    
+    mockWebSocketInstance?.simulateMessage({
+      type: 'response',
+      id: hello.id,
+      success: false,
+      error: 'Service is starting',
+      code: 'unavailable',
+    });
+    
+    const error = await connectPromise.catch((err) => err);
+    expect(error).toBeInstanceOf(EdgeServerError);
+    expect(error.code).toBe('unavailable');
+    expect(ws.state).toBe('reconnecting');
+    ws.disconnect();
+  });
+
+  it('should stop reconnecting when the server reports auth_failed', async () => {
+    const ws = new WebSocketManager('ws://localhost:8585', { reconnectDelay: 10 });
+    const errorHandler = vi.fn();
+    ws.on('error', errorHandler);
+    
+    const connectPromise = ws.connect();
+    setTimeout(() => mockWebSocketInstance?.simulateOpen(), 10);
+    await connectPromise;
+    
+    mockWebSocketInstance?.simulateMessage({ type: 'error', code: 'auth_failed', message: 'Token revoked' });
+    mockWebSocketInstance?.simulateClose();
+    
+    expect(errorHandler.mock.calls[0][0]).toBeInstanceOf(AuthError);
+    expect(ws.state).toBe('disconnected');
+  });
+
+  it('should expose the negotiated protocol and features', async () => {
+    helloResult = { authenticated: false, protocolVersion: 2, features: ['command_ack'] };
+    const ws = new WebSocketManager('ws://localhost:8585');
+    
+    const connectPromise = ws.connect();
+    const sendSpy = vi.spyOn(mockWebSocketInstance!, 'send');
+    mockWebSocketInstance?.simulateOpen();
+    await connectPromise;
+    
+    expect(JSON.parse(sendSpy.mock.calls[0][0])).toMatchObject({
+      type: 'hello',
+      protocolVersion: 2,
+      minProtocolVersion: 1,
+      features: ['command_ack', 'resume', 'auth', 'pairing', 'rfid_batch'],
+    });
+    expect(ws.protocol).toEqual({ version: 2, features: ['command_ack'], legacy: false });
+    expect(ws.supportsFeature('command_ack')).toBe(true);
+    expect(ws.supportsFeature('resume')).toBe(false);
+    ws.disconnect();
+  });
+
+  it('should fall back to the legacy protocol when hello is not answered', async () => {
+    helloResult = null;
+    const ws = new WebSocketManager('ws://localhost:8585', { handshakeTimeout: 20 });
+    
+    const connectPromise = ws.connect();
+    mockWebSocketInstance?.simulateOpen();
+    await connectPromise;
+    
+    expect(ws.protocol).toEqual({ version: 1, features: [], legacy: true });
+    
+    // Legacy services do not acknowledge commands
+    await expect(ws.command({ type: 'command', command: 'trigger_scan' })).resolves.toBeUndefined();
+    ws.disconnect();
+  });
+
+  it('should detect a legacy server without waiting for the handshake timeout', async () => {
+    const mock = new MockEdge({ legacy: true, latency: 5 });
+    const ws = new WebSocketManager('ws://localhost:8585', { transport: mock.transport });
+    
+    const startedAt = Date.now();
+    await ws.connect();
+    
+    expect(Date.now() - startedAt).toBeLessThan(500);
+    expect(ws.protocol).toEqual({ version: 1, features: [], legacy: true });
+    ws.disconnect();
+  });
+
+  it('should treat an error reply to hello as a legacy server', async () => {
+    helloResult = null;
+    const ws = new WebSocketManager('ws://localhost:8585');
+    const errorHandler = vi.fn();
+    ws.on('error', errorHandler);
+    
+    const connectPromise = ws.connect();
+    mockWebSocketInstance?.simulateOpen();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    mockWebSocketInstance?.simulateMessage({ type: 'error', message: 'Unknown message type: hello' });
+    await connectPromise;
+    
+    expect(ws.protocol).toMatchObject({ legacy: true });
+    expect(errorHandler).not.toHaveBeenCalled();
+    ws.disconnect();
+  });
+
+  it('should reject incompatible servers without reconnecting', async () => {
+    helloResult = { authenticated: false, protocolVersion: 3, minProtocolVersion: 3, features: [] };
+    const ws = new WebSocketManager('ws://localhost:8585', { reconnectDelay: 10 });
+    
+    const connectPromise = ws.connect();
+    mockWebSocketInstance?.simulateOpen();
+    
+    await expect(connectPromise).rejects.toBeInstanceOf(IncompatibleServerError);
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(ws.state).toBe('disconnected');
+  });
+
+  it('should reject servers missing required features', async () => {
+    helloResult = { authenticated: false, protocolVersion: 2, features: ['command_ack'] };
+    const ws = new WebSocketManager('ws://localhost:8585', { requiredFeatures: ['command_ack', 'resume'] });
+    
+    const connectPromise = ws.connect();
+    mockWebSocketInstance?.simulateOpen();
+    
+    const error = await connectPromise.catch((err) => err);
+    expect(error).toBeInstanceOf(IncompatibleServerError);
+    expect(error.missingFeatures).toEqual(['resume']);
+  });
+
+  it('should measure round-trip latency from pongs', async () => {
+    const ws = new WebSocketManager('ws://localhost:8585');
+    const latencyHandler = vi.fn();
+    ws.on('latency', latencyHandler);
+    
+    const connectPromise = ws.connect();
+    setTimeout(() => mockWebSocketInstance?.simulateOpen(), 10);
+    await connectPromise;
+    
+    expect(ws.latency).toBeNull();
+    await new Promise((resolve) => setTimeout(resolve, 15));
+    mockWebSocketInstance?.simulateMessage({ type: 'pong' });
+    
+    expect(latencyHandler).toHaveBeenCalledTimes(1);
+    expect(ws.latency).toBeGreaterThanOrEqual(10);
+    ws.disconnect();
+  });
+
+  it('should keep pinging after a lost pong when the pong timeout is disabled', async () => {
+    const ws = new WebSocketManager('ws://localhost:8585', { pingInterval: 10, pongTimeout: 0 });
+    
+    const connectPromise = ws.connect();
+    setTimeout(() => mockWebSocketInstance?.simulateOpen(), 10);
+    await connectPromise;
+    const sendSpy = vi.spyOn(mockWebSocketInstance!, 'send');
+    
+    await new Promise((resolve) => setTimeout(resolve, 35));
+    
+    const pings = sendSpy.mock.calls.filter(([data]) => JSON.parse(data).type === 'ping');
+    expect(pings.length).toBeGreaterThanOrEqual(2);
+    ws.disconnect();
+  });
+
+  it('should reconnect when pongs stop arriving', async () => {
+    const ws = new WebSocketManager('ws://localhost:8585', { pongTimeout: 20, reconnectDelay: 1000 });
+    const errorHandler = vi.fn();
+    const closeHandler = vi.fn();
+    ws.on('error', errorHandler);
+    ws.on('close', closeHandler);
+    
+    const connectPromise = ws.connect();
+    setTimeout(() => mockWebSocketInstance?.simulateOpen(), 10);
+    await connectPromise;
+    const deadSocket = mockWebSocketInstance!;
+    const closeSpy = vi.spyOn(deadSocket, 'close');
+    
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    
+    expect(errorHandler.mock.calls[0][0].message).toContain('Pong timeout');
+    expect(closeSpy).toHaveBeenCalled();
+    expect(closeHandler).toHaveBeenCalledTimes(1);
+    expect(ws.state).toBe('reconnecting');
+    ws.disconnect();
+  });
+
+  it('should fail over to the next candidate URL', async () => {
+    const ws = new WebSocketManager(['ws://localhost:8585', 'wss://localhost:8586'], { reconnectDelay: 10 });
+    
+    const connectPromise = ws.connect();
+    expect(mockWebSocketInstances.map((socket) => socket.url)).toEqual(['ws://localhost:8585']);
+    
+    mockWebSocketInstances[0].simulateClose();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(mockWebSocketInstances[1].url).toBe('wss://localhost:8586');
+    
+    mockWebSocketInstances[1].simulateOpen();
+    await connectPromise;
+    expect(ws.url).toBe('wss://localhost:8586');
+    
+    // Reconnects start with the last URL that worked
+    mockWebSocketInstances[1].simulateClose();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(mockWebSocketInstances[2].url).toBe('wss://localhost:8586');
+    ws.disconnect();
+  });
+
+  it('should race candidate URLs and keep the first to open', async () => {
+    const ws = new WebSocketManager(['ws://localhost:8585', 'ws://localhost:8586'], { endpointStrategy: 'race' });
+    
+    const connectPromise = ws.connect();
+    expect(mockWebSocketInstances).toHaveLength(2);
+    const [slow, fast] = mockWebSocketInstances;
+    const closeSpy = vi.spyOn(slow, 'close');
+    
+    fast.simulateOpen();
+    await connectPromise;
+    expect(ws.url).toBe('ws://localhost:8586');
+    
+    slow.simulateOpen();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(closeSpy).toHaveBeenCalled();
+    expect(ws.isConnected).toBe(true);
+    ws.disconnect();
+  });
+
+  it('should reject and schedule a reconnect when no candidate opens', async () => {
+    const ws = new WebSocketManager(['ws://localhost:8585', 'ws://localhost:8586'], { reconnectDelay: 1000 });
+    const errorHandler = vi.fn();
+    ws.on('error', errorHandler);
+    
+    const connectPromise = ws.connect();
+    mockWebSocketInstances[0].simulateClose();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    mockWebSocketInstances[1].simulateClose();
+    
+    await expect(connectPromise).rejects.toThrow('WebSocket connection failed');
+    expect(errorHandler).toHaveBeenCalledTimes(1);
+    expect(errorHandler.mock.calls[0][0]).toBeInstanceOf(ConnectionError);
+    expect(errorHandler.mock.calls[0][0].code).toBe('connection_failed');
+    expect(ws.state).toBe('reconnecting');
+    ws.disconnect();
+  });
+
   it('should handle state changes', async () => {
     const ws = new WebSocketManager('ws://localhost:8585');
     const stateHandler = vi.fn();
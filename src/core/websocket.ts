@@ -1,5 +1,37 @@
 import { EventEmitter } from './events';
-import type { ClientMessage, ServerMessage, ConnectionState } from '../types';
+import { WebSocketTransport } from './transport';
+import {
+  AuthError,
+  CommandDroppedError,
+  ConnectionError,
+  EdgeServerError,
+  IncompatibleServerError,
+  NotConnectedError,
+  ProtocolError,
+  RequestTimeoutError,
+} from './errors';
+import { validateServerMessage } from './validation';
+import { PROTOCOL_VERSION, MIN_PROTOCOL_VERSION, SDK_FEATURES } from '../types';
+import type {
+  ClientMessage,
+  ServerMessage,
+  ConnectionState,
+  CommandRequest,
+  CommandName,
+  CommandResults,
+  QueuedCommandInfo,
+  DroppedCommandInfo,
+  ResumeResult,
+  Transport,
+  TransportConnection,
+  AuthCredentials,
+  HelloResult,
+  PairResult,
+  ProtocolFeature,
+  ProtocolInfo,
+  EndpointStrategy,
+  ValidationMode,
+} from '../types';
 
 interface WSManagerEvents {
   message: ServerMessage;
@@ -7,6 +39,10 @@ interface WSManagerEvents {
   close: void;
   error: Error;
   statechange: ConnectionState;
+  latency: number;
+  queued: QueuedCommandInfo;
+  flushed: QueuedCommandInfo;
+  dropped: DroppedCommandInfo;
 }
 
 interface WSManagerOptions {
@@ -14,37 +50,103 @@ interface WSManagerOptions {
   reconnectDelay?: number;
   maxReconnectDelay?: number;
   pingInterval?: number;
+  pongTimeout?: number;
+  queueCommands?: boolean;
+  queueMaxSize?: number;
+  queueTtl?: number;
+  handshakeTimeout?: number;
+  requiredFeatures?: ProtocolFeature[];
+  endpointStrategy?: EndpointStrategy;
+  validation?: ValidationMode;
+  transport?: Transport;
+  credentials?: AuthCredentials | null;
 }
 
-const DEFAULT_WS_OPTIONS: Required<WSManagerOptions> = {
+interface OpenFailure {
+  error: Error;
+  /** False when the transport could not even be created (retrying will not help) */
+  retryable: boolean;
+}
+
+interface CommandSendOptions {
+  timeoutMs?: number;
+  dropIfStale?: boolean;
+}
+
+interface QueuedCommand {
+  message: ClientMessage & { id: string };
+  command: CommandName;
+  queuedAt: number;
+  timeoutMs: number;
+  staleTimer: ReturnType<typeof setTimeout> | null;
+  resolve: (data: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+const DEFAULT_WS_OPTIONS: Required<Omit<WSManagerOptions, 'transport' | 'credentials'>> = {
   reconnect: true,
   reconnectDelay: 1000,
   maxReconnectDelay: 30000,
   pingInterval: 30000,
+  pongTimeout: 10000,
+  queueCommands: false,
+  queueMaxSize: 100,
+  queueTtl: 30000,
+  handshakeTimeout: 5000,
+  requiredFeatures: [],
+  endpointStrategy: 'sequential',
+  validation: 'lenient',
 };
 
+// Assumed for Edge builds that do not answer the hello handshake
+const LEGACY_PROTOCOL: ProtocolInfo = { version: 1, features: [], legacy: true };
+
+// Handshake and pairing failures are only credential problems when the server says so
+function toAuthError(message: string, code?: string): Error {
+  return code === 'auth_failed' ? new AuthError(message) : new EdgeServerError(message, code);
+}
+
 /**
- * WebSocket connection manager with auto-reconnect and request/response correlation
+ * Connection manager with auto-reconnect, keepalive pings and request/response correlation.
+ * The underlying connection is created by a pluggable Transport (WebSocket by default).
  */
 export class WebSocketManager extends EventEmitter<WSManagerEvents> {
-  private ws: WebSocket | null = null;
-  private url: string;
-  private options: Required<WSManagerOptions>;
+  private transport: Transport;
+  private connection: TransportConnection | null = null;
+  /** Connections being opened that have not been adopted yet, with their abort callbacks */
+  private probes: Map<TransportConnection, () => void> = new Map();
+  private urls: string[];
+  private lastGoodUrl: string | null = null;
+  private connectAttempt = 0;
+  private options: Required<Omit<WSManagerOptions, 'transport' | 'credentials'>>;
+  private credentials: AuthCredentials | null;
   private _state: ConnectionState = 'disconnected';
   private reconnectAttempts = 0;
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
   private pingTimer: ReturnType<typeof setInterval> | null = null;
+  private pongTimer: ReturnType<typeof setTimeout> | null = null;
+  private pingSentAt: number | null = null;
+  /** Settles the pending handshake as legacy (set while the hello is unanswered) */
+  private legacyProbe: (() => void) | null = null;
+  private _latency: number | null = null;
   private pendingRequests: Map<string, {
     resolve: (data: unknown) => void;
     reject: (error: Error) => void;
     timeout: ReturnType<typeof setTimeout>;
+    toError?: (message: string, code?: string) => Error;
   }> = new Map();
+  private commandQueue: QueuedCommand[] = [];
   private intentionalClose = false;
+  private reconnectBlocked = false;
+  private _protocol: ProtocolInfo | null = null;
 
-  constructor(url: string, options: WSManagerOptions = {}) {
+  constructor(url: string | string[], options: WSManagerOptions = {}) {
     super();
-    this.url = url;
-    this.options = { ...DEFAULT_WS_OPTIONS, ...options };
+    const { transport, credentials, ...rest } = options;
+    this.urls = Array.isArray(url) ? url : [url];
+    this.transport = transport ?? new WebSocketTransport();
+    this.credentials = credentials ?? null;
+    this.options = { ...DEFAULT_WS_OPTIONS, ...rest };
   }
 
   /**
@@ -62,47 +164,92 @@ export class WebSocketManager extends EventEmitter<WSManagerEvents> {
   }
 
   /**
-   * Connect to the WebSocket server
+   * URL of the active connection, or the last one that worked
    */
-  connect(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (this._state === 'connected' || this._state === 'connecting') {
-        resolve();
-        return;
-      }
+  get url(): string {
+    return this.lastGoodUrl ?? this.urls[0] ?? '';
+  }
 
-      this.intentionalClose = false;
-      this.setState('connecting');
+  /**
+   * Last measured ping/pong round-trip time in ms (null until the first pong)
+   */
+  get latency(): number | null {
+    return this._latency;
+  }
 
-      try {
-        this.ws = new WebSocket(this.url);
-
-        const onOpen = () => {
-          this.ws?.removeEventListener('error', onError);
-          this.reconnectAttempts = 0;
-          this.setState('connected');
-          this.startPing();
-          this.emit('open', undefined);
-          resolve();
-        };
-
-        const onError = (_event: Event) => {
-          this.ws?.removeEventListener('open', onOpen);
-          const error = new Error('WebSocket connection failed');
-          reject(error);
-        };
-
-        this.ws.addEventListener('open', onOpen, { once: true });
-        this.ws.addEventListener('error', onError, { once: true });
-
-        this.ws.addEventListener('message', this.handleMessage.bind(this));
-        this.ws.addEventListener('close', this.handleClose.bind(this));
-        this.ws.addEventListener('error', this.handleError.bind(this));
-      } catch (err) {
-        this.setState('disconnected');
-        reject(err instanceof Error ? err : new Error(String(err)));
+  /**
+   * Whether commands sent now would be queued rather than rejected
+   */
+  get isQueueing(): boolean {
+    return this.options.queueCommands && (this._state === 'reconnecting' || this._state === 'connecting');
+  }
+
+  /**
+   * Number of commands waiting in the outbound queue
+   */
+  get queuedCount(): number {
+    return this.commandQueue.length;
+  }
+
+  /**
+   * Protocol negotiated for the current connection (null until the handshake completes)
+   */
+  get protocol(): ProtocolInfo | null {
+    return this._protocol;
+  }
+
+  /**
+   * Whether the connected Edge service supports an optional protocol feature
+   */
+  supportsFeature(feature: ProtocolFeature): boolean {
+    return this._protocol?.features.includes(feature) ?? false;
+  }
+
+  /**
+   * Replace the credentials presented in the handshake (takes effect on the next connect)
+   */
+  setCredentials(credentials: AuthCredentials | null): void {
+    this.credentials = credentials;
+  }
+
+  /**
+   * Connect to the WebSocket server.
+   * With several candidate URLs, they are tried in order (or raced), starting with the last one that worked.
+   */
+  connect(): Promise<void> {
+    if (this._state === 'connected' || this._state === 'connecting') {
+      return Promise.resolve();
+    }
+
+    this.intentionalClose = false;
+    this.reconnectBlocked = false;
+    this.setState('connecting');
+    const attempt = ++this.connectAttempt;
+
+    return this.openCandidates(this.candidateUrls()).then(
+      ({ url, connection }) => {
+        if (attempt !== this.connectAttempt) {
+          // disconnect() was called while probing
+          connection.close();
+          throw new ConnectionError('WebSocket disconnected', 'disconnected');
+        }
+        this.connection = connection;
+        this.lastGoodUrl = url;
+        return this.completeHandshake(connection);
+      },
+      (failure: OpenFailure) => {
+        if (attempt === this.connectAttempt) {
+          this.emit('error', failure.error);
+          if (failure.retryable) {
+            this.handleClose();
+          } else {
+            this.dropQueue('disconnected');
+            this.setState('disconnected');
+          }
+        }
+        throw failure.error;
       }
-    });
+    );
   }
 
   /**
@@ -110,7 +257,9 @@ export class WebSocketManager extends EventEmitter<WSManagerEvents> {
    */
   disconnect(): void {
     this.intentionalClose = true;
+    this.connectAttempt++;
     this.cleanup();
+    this.dropQueue('disconnected');
     this.setState('disconnected');
     this.emit('close', undefined);
   }
@@ -119,32 +268,298 @@ export class WebSocketManager extends EventEmitter<WSManagerEvents> {
    * Send a message to the server
    */
   send(message: ClientMessage): void {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-      throw new Error('WebSocket is not connected');
+    if (!this.connection || !this.connection.isOpen) {
+      throw new NotConnectedError('WebSocket is not connected');
     }
-    this.ws.send(JSON.stringify(message));
+    this.connection.send(JSON.stringify(message));
   }
 
   /**
    * Send a query and wait for response (request/response pattern)
    */
   request<T>(query: 'status' | 'capabilities' | 'config' | 'rfid_tags', timeoutMs = 10000): Promise<T> {
+    const id = this.generateId();
+    return this.sendAndAwait<T>({ type: 'query', id, query }, query, timeoutMs);
+  }
+
+  /**
+   * Send a command and wait for the Edge service to acknowledge it.
+   * While reconnecting with queueing enabled, the command is buffered and sent after reconnect.
+   * Edge services without the `command_ack` feature resolve with `undefined` once the command is sent.
+   */
+  command<M extends CommandRequest>(
+    message: M,
+    options: CommandSendOptions = {}
+  ): Promise<CommandResults[M['command']]> {
+    const { timeoutMs = 10000, dropIfStale = true } = options;
+    const outgoing = { ...message, id: this.generateId() } as ClientMessage & { id: string };
+
+    if (!this.isConnected && this.isQueueing) {
+      return this.enqueue<CommandResults[M['command']]>(outgoing, message.command, timeoutMs, dropIfStale);
+    }
+
+    return this.dispatchCommand<CommandResults[M['command']]>(outgoing, message.command, timeoutMs);
+  }
+
+  /**
+   * Exchange a one-time pairing code for a persistent device token
+   */
+  pair(code: string, clientName?: string, timeoutMs = 10000): Promise<PairResult> {
+    const id = this.generateId();
+    return this.sendAndAwait<PairResult>({ type: 'pair', id, code, clientName }, 'pair', timeoutMs, {
+      toError: toAuthError,
+    });
+  }
+
+  /**
+   * Ask the Edge service to replay events after the given sequence number of a service run
+   */
+  resume(lastSeq: number, epoch: string | null, timeoutMs = 10000): Promise<ResumeResult> {
+    const id = this.generateId();
+    const message = { type: 'resume' as const, id, lastSeq, ...(epoch !== null ? { epoch } : {}) };
+    return this.sendAndAwait<ResumeResult>(message, 'resume', timeoutMs);
+  }
+
+  private completeHandshake(connection: TransportConnection): Promise<void> {
+    return this.handshake().then(
+      (protocol) => {
+        if (this.connection !== connection) {
+          throw new ConnectionError('WebSocket disconnected', 'disconnected');
+        }
+        this._protocol = protocol;
+        this.reconnectAttempts = 0;
+        this.setState('connected');
+        this.startPing();
+        this.flushQueue();
+        this.emit('open', undefined);
+      },
+      (error: Error) => {
+        if (this.connection === connection) {
+          if (error instanceof AuthError || error instanceof IncompatibleServerError) {
+            this.reconnectBlocked = true;
+            this.emit('error', error);
+          }
+          // Reconnects unless the failure is permanent
+          this.connection = null;
+          connection.close();
+          this.handleClose();
+        }
+        throw error;
+      }
+    );
+  }
+
+  private candidateUrls(): string[] {
+    if (!this.lastGoodUrl) {
+      return this.urls;
+    }
+    return [this.lastGoodUrl, ...this.urls.filter((url) => url !== this.lastGoodUrl)];
+  }
+
+  private openCandidates(urls: string[]): Promise<{ url: string; connection: TransportConnection }> {
+    if (this.options.endpointStrategy === 'race' && urls.length > 1) {
+      return this.raceCandidates(urls);
+    }
+
+    return this.openSequential(urls);
+  }
+
+  private async openSequential(urls: string[]): Promise<{ url: string; connection: TransportConnection }> {
+    let failure: OpenFailure = {
+      error: new ConnectionError('No Edge service URL configured', 'no_endpoint'),
+      retryable: false,
+    };
+
+    // Try each candidate in turn until one opens
+    for (const url of urls) {
+      try {
+        return { url, connection: await this.openTransport(url) };
+      } catch (err) {
+        const next = err as OpenFailure;
+        failure = { error: next.error, retryable: failure.retryable || next.retryable };
+      }
+      if (this.intentionalClose) break;
+    }
+
+    throw failure;
+  }
+
+  private raceCandidates(urls: string[]): Promise<{ url: string; connection: TransportConnection }> {
     return new Promise((resolve, reject) => {
-      const id = this.generateId();
-      
+      let remaining = urls.length;
+      let settled = false;
+      let retryable = false;
+
+      urls.forEach((url) => {
+        this.openTransport(url).then(
+          (connection) => {
+            if (settled) {
+              connection.close();
+              return;
+            }
+            settled = true;
+            resolve({ url, connection });
+          },
+          (failure: OpenFailure) => {
+            retryable = retryable || failure.retryable;
+            remaining--;
+            if (remaining === 0 && !settled) {
+              reject({ error: failure.error, retryable });
+            }
+          }
+        );
+      });
+    });
+  }
+
+  /**
+   * Open a transport connection, resolving once it is ready.
+   * Messages and closes are routed to the manager only after it adopts the connection.
+   */
+  private openTransport(url: string): Promise<TransportConnection> {
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      let connection: TransportConnection | null = null;
+
+      const fail = () => {
+        if (settled) return;
+        settled = true;
+        if (connection) this.probes.delete(connection);
+        reject({ error: new ConnectionError('WebSocket connection failed'), retryable: true });
+      };
+
+      try {
+        connection = this.transport.connect(url, {
+          onOpen: () => {
+            if (settled || !connection) return;
+            settled = true;
+            this.probes.delete(connection);
+            resolve(connection);
+          },
+          onMessage: (data) => {
+            if (this.connection !== connection) return;
+            this.handleMessage(data);
+          },
+          onClose: () => {
+            if (this.connection === connection) {
+              this.handleClose();
+            } else {
+              fail();
+            }
+          },
+          onError: (error) => {
+            if (this.connection === connection) {
+              this.emit('error', error);
+            } else {
+              fail();
+            }
+          },
+        });
+        this.probes.set(connection, fail);
+      } catch (err) {
+        settled = true;
+        const message = err instanceof Error ? err.message : String(err);
+        reject({ error: new ConnectionError(message), retryable: false });
+      }
+    });
+  }
+
+  private handshake(): Promise<ProtocolInfo> {
+    const id = this.generateId();
+    const credentials = this.credentials;
+
+    const hello = this.sendAndAwait<HelloResult>(
+      {
+        type: 'hello',
+        id,
+        protocolVersion: PROTOCOL_VERSION,
+        minProtocolVersion: MIN_PROTOCOL_VERSION,
+        features: SDK_FEATURES,
+        ...credentials,
+      },
+      'hello',
+      this.options.handshakeTimeout,
+      { toError: toAuthError }
+    );
+
+    // Edge builds that predate negotiation ignore hello (or answer it with an error) but answer pings.
+    // Messages are answered in order, so a pong that arrives before the hello answer means a legacy build.
+    const legacy = new Promise<null>((resolve) => {
+      this.legacyProbe = () => {
+        this.abandonRequest(id);
+        resolve(null);
+      };
+    });
+    try {
+      this.send({ type: 'ping' });
+    } catch {
+      // The hello timeout still applies
+    }
+
+    return Promise.race([hello, legacy])
+      .finally(() => {
+        this.legacyProbe = null;
+      })
+      .then(
+        (result): ProtocolInfo => {
+          if (result === null) {
+            return LEGACY_PROTOCOL;
+          }
+          if (credentials && !result.authenticated) {
+            throw new AuthError();
+          }
+          if (result.minProtocolVersion !== undefined && result.minProtocolVersion > PROTOCOL_VERSION) {
+            throw new IncompatibleServerError(
+              `Edge service requires protocol v${result.minProtocolVersion}, SDK supports v${PROTOCOL_VERSION}`,
+              result.protocolVersion
+            );
+          }
+          return { version: result.protocolVersion, features: result.features ?? [], legacy: false };
+        },
+        (error: Error): ProtocolInfo => {
+          // No answer at all: assume a legacy build as long as the socket is still open
+          if (!(error instanceof RequestTimeoutError) || !this.connection?.isOpen) {
+            throw error;
+          }
+          return LEGACY_PROTOCOL;
+        }
+      )
+      .then((protocol) => {
+        const missing = this.options.requiredFeatures.filter((feature) => !protocol.features.includes(feature));
+        if (missing.length > 0) {
+          throw new IncompatibleServerError(
+            `Edge service does not support required features: ${missing.join(', ')}`,
+            protocol.version,
+            missing
+          );
+        }
+        return protocol;
+      });
+  }
+
+  private sendAndAwait<T>(
+    message: ClientMessage & { id: string },
+    request: string,
+    timeoutMs: number,
+    options: { toError?: (message: string, code?: string) => Error; timeoutMessage?: string } = {}
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const id = message.id;
+
       const timeout = setTimeout(() => {
         this.pendingRequests.delete(id);
-        reject(new Error(`Request timeout: ${query}`));
+        reject(new RequestTimeoutError(request, timeoutMs, options.timeoutMessage));
       }, timeoutMs);
 
       this.pendingRequests.set(id, {
         resolve: resolve as (data: unknown) => void,
         reject,
         timeout,
+        toError: options.toError,
       });
 
       try {
-        this.send({ type: 'query', id, query });
+        this.send(message);
       } catch (err) {
         clearTimeout(timeout);
         this.pendingRequests.delete(id);
@@ -154,42 +569,156 @@ export class WebSocketManager extends EventEmitter<WSManagerEvents> {
   }
 
   /**
-   * Send a command (fire and forget, but throws if not connected)
+   * Stop waiting for a response; a late answer is ignored
    */
-  command(message: Exclude<ClientMessage, { type: 'query' } | { type: 'ping' }>): void {
-    this.send(message);
+  private abandonRequest(id: string): void {
+    const pending = this.pendingRequests.get(id);
+    if (pending) {
+      clearTimeout(pending.timeout);
+      this.pendingRequests.delete(id);
+    }
+  }
+
+  private dispatchCommand<T>(message: ClientMessage & { id: string }, command: CommandName, timeoutMs: number): Promise<T> {
+    // Edge services without command acknowledgements never respond; resolve once sent
+    if (this._protocol && !this.supportsFeature('command_ack')) {
+      try {
+        this.send(message);
+        return Promise.resolve(undefined as T);
+      } catch (err) {
+        return Promise.reject(err);
+      }
+    }
+
+    return this.sendAndAwait<T>(message, command, timeoutMs, { timeoutMessage: `Command timeout: ${command}` });
+  }
+
+  private enqueue<T>(
+    message: ClientMessage & { id: string },
+    command: CommandName,
+    timeoutMs: number,
+    dropIfStale: boolean
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const info: QueuedCommandInfo = { id: message.id, command, queuedAt: Date.now() };
+
+      if (this.commandQueue.length >= this.options.queueMaxSize) {
+        this.emit('dropped', { ...info, reason: 'overflow' });
+        reject(new CommandDroppedError(`Command queue is full: ${command}`, command, 'overflow'));
+        return;
+      }
+
+      const entry: QueuedCommand = {
+        message,
+        command,
+        queuedAt: info.queuedAt,
+        timeoutMs,
+        staleTimer: null,
+        resolve: resolve as (data: unknown) => void,
+        reject,
+      };
+
+      if (dropIfStale) {
+        entry.staleTimer = setTimeout(() => {
+          this.commandQueue = this.commandQueue.filter((queued) => queued !== entry);
+          this.emit('dropped', { ...info, reason: 'stale' });
+          reject(new CommandDroppedError(`Command dropped while queued: ${command}`, command, 'stale'));
+        }, this.options.queueTtl);
+      }
+
+      this.commandQueue.push(entry);
+      this.emit('queued', info);
+    });
   }
 
-  private handleMessage(event: MessageEvent): void {
+  private flushQueue(): void {
+    const queue = this.commandQueue;
+    this.commandQueue = [];
+
+    for (const entry of queue) {
+      if (entry.staleTimer) {
+        clearTimeout(entry.staleTimer);
+      }
+      this.dispatchCommand(entry.message, entry.command, entry.timeoutMs).then(entry.resolve, entry.reject);
+      this.emit('flushed', { id: entry.message.id, command: entry.command, queuedAt: entry.queuedAt });
+    }
+  }
+
+  private dropQueue(reason: DroppedCommandInfo['reason']): void {
+    const queue = this.commandQueue;
+    this.commandQueue = [];
+
+    for (const entry of queue) {
+      if (entry.staleTimer) {
+        clearTimeout(entry.staleTimer);
+      }
+      this.emit('dropped', { id: entry.message.id, command: entry.command, queuedAt: entry.queuedAt, reason });
+      entry.reject(new CommandDroppedError(`Command dropped while queued: ${entry.command}`, entry.command, reason));
+    }
+  }
+
+  private handleMessage(data: string): void {
+    let payload: unknown;
     try {
-      const message = JSON.parse(event.data) as ServerMessage;
-
-      // Handle response to pending request
-      if (message.type === 'response') {
-        const pending = this.pendingRequests.get(message.id);
-        if (pending) {
-          clearTimeout(pending.timeout);
-          this.pendingRequests.delete(message.id);
-          
-          if (message.success) {
-            pending.resolve(message.data.result);
-          } else {
-            pending.reject(new Error(message.error));
-          }
-          return;
+      payload = JSON.parse(data);
+    } catch {
+      this.emit('error', new ProtocolError('Failed to parse server message', data));
+      return;
+    }
+
+    const { message, errors } = validateServerMessage(payload, this.options.validation);
+    errors.forEach((error) => this.emit('error', error));
+    if (message) {
+      this.dispatchMessage(message);
+    }
+  }
+
+  private dispatchMessage(message: ServerMessage): void {
+    // Handle response to pending request
+    if (message.type === 'response') {
+      const pending = this.pendingRequests.get(message.id);
+      if (pending) {
+        clearTimeout(pending.timeout);
+        this.pendingRequests.delete(message.id);
+        
+        if (message.success) {
+          pending.resolve(message.data.result);
+        } else {
+          pending.reject(
+            pending.toError
+              ? pending.toError(message.error, message.code)
+              : new EdgeServerError(message.error, message.code)
+          );
         }
+        return;
       }
+    }
 
-      // Handle pong
-      if (message.type === 'pong') {
-        return; // Keepalive response, no action needed
-      }
+    // Credentials revoked or rejected by the server: do not keep reconnecting
+    if (message.type === 'error' && message.code === 'auth_failed') {
+      this.reconnectBlocked = true;
+      this.emit('error', new AuthError(message.message));
+      return;
+    }
+
+    // A pong or an error that overtakes the hello answer comes from a legacy build
+    if ((message.type === 'pong' || message.type === 'error') && this.legacyProbe) {
+      this.legacyProbe();
+      return;
+    }
 
-      // Emit for other handlers
-      this.emit('message', message);
-    } catch (err) {
-      console.error('Failed to parse WebSocket message:', err);
+    // Handle pong: the connection is alive, record the round trip
+    if (message.type === 'pong') {
+      if (this.pingSentAt !== null) {
+        this._latency = Date.now() - this.pingSentAt;
+        this.clearPongTimer();
+        this.emit('latency', this._latency);
+      }
+      return;
     }
+
+    // Emit for other handlers
+    this.emit('message', message);
   }
 
   private handleClose(): void {
@@ -202,18 +731,14 @@ export class WebSocketManager extends EventEmitter<WSManagerEvents> {
 
     this.emit('close', undefined);
 
-    if (this.options.reconnect) {
+    if (this.options.reconnect && !this.reconnectBlocked) {
       this.scheduleReconnect();
     } else {
+      this.dropQueue('disconnected');
       this.setState('disconnected');
     }
   }
 
-  private handleError(_event: Event): void {
-    const error = new Error('WebSocket error');
-    this.emit('error', error);
-  }
-
   private scheduleReconnect(): void {
     if (this.reconnectTimer) return;
 
@@ -239,15 +764,48 @@ export class WebSocketManager extends EventEmitter<WSManagerEvents> {
 
   private startPing(): void {
     this.stopPing();
-    this.pingTimer = setInterval(() => {
-      if (this.ws?.readyState === WebSocket.OPEN) {
-        try {
-          this.send({ type: 'ping' });
-        } catch {
-          // Ignore ping errors
-        }
-      }
-    }, this.options.pingInterval);
+    // Measure latency right away instead of waiting a full interval
+    this.sendPing();
+    this.pingTimer = setInterval(() => this.sendPing(), this.options.pingInterval);
+  }
+
+  private sendPing(): void {
+    // Only one ping in flight at a time; without a pong timeout, a lost pong must not stop the pings
+    if (!this.connection?.isOpen || (this.pingSentAt !== null && this.options.pongTimeout > 0)) return;
+
+    try {
+      this.send({ type: 'ping' });
+    } catch {
+      // Ignore ping errors
+      return;
+    }
+
+    this.pingSentAt = Date.now();
+    if (this.options.pongTimeout > 0) {
+      this.pongTimer = setTimeout(() => this.handlePongTimeout(), this.options.pongTimeout);
+    }
+  }
+
+  private handlePongTimeout(): void {
+    this.pongTimer = null;
+    this.pingSentAt = null;
+
+    const connection = this.connection;
+    if (!connection) return;
+
+    // A half-open socket may never deliver a close event: drop it and reconnect ourselves
+    this.emit('error', new ConnectionError('Pong timeout: Edge service is not responding', 'pong_timeout'));
+    this.connection = null;
+    connection.close();
+    this.handleClose();
+  }
+
+  private clearPongTimer(): void {
+    if (this.pongTimer) {
+      clearTimeout(this.pongTimer);
+      this.pongTimer = null;
+    }
+    this.pingSentAt = null;
   }
 
   private stopPing(): void {
@@ -255,10 +813,21 @@ export class WebSocketManager extends EventEmitter<WSManagerEvents> {
       clearInterval(this.pingTimer);
       this.pingTimer = null;
     }
+    this.clearPongTimer();
   }
 
   private cleanup(): void {
     this.stopPing();
+    this.legacyProbe = null;
+    this._protocol = null;
+
+    // Abandon connections still being opened
+    const probes = Array.from(this.probes);
+    this.probes.clear();
+    probes.forEach(([probe, abort]) => {
+      abort();
+      probe.close();
+    });
 
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer);
@@ -268,17 +837,14 @@ export class WebSocketManager extends EventEmitter<WSManagerEvents> {
     // Reject all pending requests
     this.pendingRequests.forEach((pending) => {
       clearTimeout(pending.timeout);
-      pending.reject(new Error('WebSocket disconnected'));
+      pending.reject(new ConnectionError('WebSocket disconnected', 'disconnected'));
     });
     this.pendingRequests.clear();
 
-    if (this.ws) {
-      const ws = this.ws;
-      this.ws = null;
-      // Only close if not already closed/closing
-      if (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING) {
-        ws.close();
-      }
+    if (this.connection) {
+      const connection = this.connection;
+      this.connection = null;
+      connection.close();
     }
   }
 
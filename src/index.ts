@@ -1,19 +1,164 @@
 // Main SDK export
 export { CleverenceEdge } from './core/client';
 
+// Errors
+export {
+  EdgeError,
+  NotConnectedError,
+  ConnectionError,
+  RequestTimeoutError,
+  EdgeServerError,
+  CommandDroppedError,
+  UnsupportedCapabilityError,
+  AuthError,
+  IncompatibleServerError,
+  ProtocolError,
+  MiddlewareError,
+  ListenerError,
+  type ConnectionErrorCode,
+} from './core/errors';
+
+// Protocol
+export { PROTOCOL_VERSION } from './types';
+
+// Multiple devices
+export {
+  EdgeFleet,
+  type EdgeFleetOptions,
+  type FleetScanEvent,
+  type FleetRfidEvent,
+  type FleetConnectionState,
+  type FleetTarget,
+  type FleetResults,
+} from './core/fleet';
+
+// Events
+export {
+  type AnyEventHandler,
+  type ListenerErrorHandler,
+  type ListenerOptions,
+} from './core/events';
+
+// Middleware
+export {
+  type EdgeMiddleware,
+  type MiddlewareResult,
+  type MiddlewareOptions,
+  type MiddlewareTiming,
+} from './core/middleware';
+
+// Streams
+export { type EventStreamOptions, type WaitForEventOptions } from './core/streams';
+
+// Scan routing
+export {
+  ScanRouter,
+  ScanRouteScope,
+  type ScanSource,
+  type ScanRoute,
+  type ScanRouteMatch,
+  type ScanRouteHandler,
+  type ScanRouterOptions,
+} from './core/router';
+
+// Symbologies
+export {
+  normalizeSymbology,
+  symbologyFromAimId,
+  resolveSymbology,
+  registerSymbologyAlias,
+  registerBarcodeValidator,
+  validateBarcode,
+  hasBarcodeValidator,
+  isValidGtin,
+  isValidCode39Mod43,
+  expandUpcE,
+} from './core/symbology';
+
+// Raw bytes
+export { hexToBytes, detectCharset, decodeBytes, showControlCharacters, decodeScanBytes } from './core/bytes';
+
+// GS1
+export { parseGs1, parseGs1Scan, isGs1Scan, gs1CheckDigit, isValidGs1CheckDigit } from './core/gs1';
+
+// AAMVA driver's licenses
+export {
+  parseAamva,
+  parseAamvaScan,
+  isAamvaScan,
+  isAamvaData,
+  normalizeAamvaDate,
+  calculateAge,
+} from './core/aamva';
+
+// Discovery
+export { discover, type DiscoverOptions, type DiscoveredEdge } from './core/discovery';
+
+// Transports
+export { WebSocketTransport, BridgeTransport, type BridgeTransportOptions } from './core/transport';
+export { TabSharingTransport, type TabSharingTransportOptions, type LockManagerLike } from './core/tabs';
+
+// Session recording & replay
+export { SessionRecorder, type SessionRecorderOptions } from './core/recorder';
+export { ReplayTransport, type ReplayTransportOptions } from './core/replay';
+
 // Type exports
 export type {
   // Events
   ScanEvent,
   RfidEvent,
   EdgeEvent,
+  SequenceGap,
   // Capabilities & Status
   DeviceCapabilities,
   EdgeStatus,
   EdgeConfig,
   RfidInventoryOptions,
   RfidTag,
+  // Commands
+  CommandName,
+  CommandResults,
+  CommandOptions,
+  QueuedCommandInfo,
+  DroppedCommandInfo,
   // Connection
   ConnectionState,
   EdgeOptions,
+  EndpointStrategy,
+  ValidationMode,
+  ScanDelivery,
+  RfidThrottleOptions,
+  RfidThrottleStats,
+  ScanDedupMode,
+  ScanDedupRule,
+  ScanDedupOptions,
+  DuplicateScan,
+  AuthCredentials,
+  ProtocolFeature,
+  ProtocolInfo,
+  // Transport
+  Transport,
+  TransportConnection,
+  TransportHandlers,
+  WebSocketLike,
+  WebSocketConstructor,
+  // Symbologies
+  Symbology,
+  BarcodeValidator,
+  // AAMVA driver's licenses
+  AamvaLicense,
+  AamvaHeader,
+  AamvaSubfile,
+  AamvaAddress,
+  // Raw bytes
+  ScanCharset,
+  ScanEncoding,
+  DecodedBytes,
+  // GS1
+  Gs1Data,
+  Gs1Element,
+  Gs1Field,
+  // Recording
+  RecordingEntry,
+  RecordingHeader,
 } from './types';
@@ -5,6 +5,7 @@ export { EdgeProvider, type EdgeProviderProps } from './EdgeContext';
 export { useEdge, type UseEdgeReturn } from './useEdge';
 export { useBarcode, type UseBarcodeOptions, type UseBarcodeReturn } from './useBarcode';
 export { useRfid, type UseRfidOptions, type UseRfidReturn } from './useRfid';
+export { useScanRoute } from './useScanRoute';
 
 // Re-export types for convenience
 export type {
@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useEdgeContext } from './EdgeContext';
+import { NotConnectedError } from '../core/errors';
 import type { ScanEvent } from '../types';
 
 export interface UseBarcodeOptions {
@@ -74,7 +75,7 @@ export function useBarcode(options: UseBarcodeOptions = {}): UseBarcodeReturn {
   }, []);
 
   const triggerScan = useCallback(async () => {
-    if (!edge) throw new Error('Not connected');
+    if (!edge) throw new NotConnectedError('Not connected');
     await edge.triggerScan();
   }, [edge]);
 
@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useEdgeContext } from './EdgeContext';
+import { NotConnectedError } from '../core/errors';
 import type { RfidEvent, RfidTag, RfidInventoryOptions } from '../types';
 
 export interface UseRfidOptions {
@@ -58,54 +59,51 @@ export function useRfid(options: UseRfidOptions = {}): UseRfidReturn {
   useEffect(() => {
     if (!edge) return;
 
-    const handleRfid = (event: RfidEvent) => {
-      setLastRead(event);
-      
-      // Update tags map
-      setTags((prev) => {
-        const newTags = new Map(prev);
-        const existing = newTags.get(event.epc);
-        const now = new Date();
-        
-        if (existing) {
-          newTags.set(event.epc, {
-            ...existing,
-            rssi: event.rssi,
-            antenna: event.antenna,
-            readCount: existing.readCount + 1,
-            lastSeen: now,
-          });
-        } else {
-          newTags.set(event.epc, {
-            epc: event.epc,
-            rssi: event.rssi,
-            antenna: event.antenna,
-            readCount: 1,
-            firstSeen: now,
-            lastSeen: now,
-          });
-        }
-        
-        return newTags;
-      });
-      
-      onRead?.(event);
+    let pending: RfidEvent[] = [];
+    let frame: number | ReturnType<typeof setTimeout> | null = null;
+
+    // Apply all reads received during a frame in a single state update
+    const flush = () => {
+      frame = null;
+      const events = pending;
+      pending = [];
+      if (events.length === 0) return;
+
+      setLastRead(events[events.length - 1]);
+      setTags((prev) => mergeRfidTags(prev, events));
+    };
+
+    const handleRfidBatch = (events: RfidEvent[]) => {
+      pending.push(...events);
+      if (frame === null) {
+        frame = typeof requestAnimationFrame === 'function'
+          ? requestAnimationFrame(flush)
+          : setTimeout(flush, 16);
+      }
+      events.forEach((event) => onRead?.(event));
     };
 
-    edge.on('rfid', handleRfid);
+    edge.on('rfidBatch', handleRfidBatch);
     return () => {
-      edge.off('rfid', handleRfid);
+      edge.off('rfidBatch', handleRfidBatch);
+      if (frame !== null) {
+        if (typeof frame === 'number' && typeof cancelAnimationFrame === 'function') {
+          cancelAnimationFrame(frame);
+        } else {
+          clearTimeout(frame);
+        }
+      }
     };
   }, [edge, onRead]);
 
   const startInventory = useCallback(async (inventoryOptions?: RfidInventoryOptions) => {
-    if (!edge) throw new Error('Not connected');
+    if (!edge) throw new NotConnectedError('Not connected');
     await edge.startRfidInventory(inventoryOptions);
     setIsInventoryActive(true);
   }, [edge]);
 
   const stopInventory = useCallback(async () => {
-    if (!edge) throw new Error('Not connected');
+    if (!edge) throw new NotConnectedError('Not connected');
     await edge.stopRfidInventory();
     setIsInventoryActive(false);
   }, [edge]);
@@ -124,3 +122,32 @@ export function useRfid(options: UseRfidOptions = {}): UseRfidReturn {
     clearTags,
   };
 }
+
+function mergeRfidTags(prev: Map<string, RfidTag>, events: RfidEvent[]): Map<string, RfidTag> {
+  const newTags = new Map(prev);
+  const now = new Date();
+
+  events.forEach((event) => {
+    const existing = newTags.get(event.epc);
+    if (existing) {
+      newTags.set(event.epc, {
+        ...existing,
+        rssi: event.rssi,
+        antenna: event.antenna,
+        readCount: existing.readCount + 1,
+        lastSeen: now,
+      });
+    } else {
+      newTags.set(event.epc, {
+        epc: event.epc,
+        rssi: event.rssi,
+        antenna: event.antenna,
+        readCount: 1,
+        firstSeen: now,
+        lastSeen: now,
+      });
+    }
+  });
+
+  return newTags;
+}
@@ -0,0 +1,40 @@
+import { useEffect, useRef } from 'react';
+import { useEdgeContext } from './EdgeContext';
+import type { ScanRoute } from '../core/router';
+
+/**
+ * Hook that registers a route on the edge's scan router while the component is mounted
+ *
+ * @example
+ * ```tsx
+ * function ReceivingScreen() {
+ *   useScanRoute({
+ *     name: 'location',
+ *     pattern: /^LOC-(?<aisle>\d{2})-(?<bay>\d{3})$/,
+ *     handler: (scan, match) => setLocation(match.groups),
+ *   });
+ *   useScanRoute({ fallback: true, handler: (scan) => addItem(scan.data) });
+ *
+ *   return <ItemList />;
+ * }
+ * ```
+ */
+export function useScanRoute(route: ScanRoute): void {
+  const { edge } = useEdgeContext();
+  // The latest handler is used without re-registering the route on every render
+  const handlerRef = useRef(route.handler);
+  handlerRef.current = route.handler;
+  const key = routeKey(route);
+
+  useEffect(() => {
+    if (!edge) return;
+    return edge.router.route({ ...route, handler: (event, match) => handlerRef.current(event, match) });
+  }, [edge, key]);
+}
+
+/**
+ * Identity of a route's conditions, so inline RegExp and array literals do not re-register it
+ */
+function routeKey(route: ScanRoute): string {
+  return JSON.stringify({ ...route, pattern: route.pattern?.toString(), handler: undefined });
+}
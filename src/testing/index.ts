@@ -0,0 +1,11 @@
+// In-process mock Edge service
+export {
+  MockEdge,
+  type MockEdgeOptions,
+  type MockFailure,
+  type MockEdgePeer,
+  type MockEdgeSession,
+} from './mockEdge';
+
+// Local WebSocket server (Node, requires `ws`)
+export { startMockEdgeServer, type MockEdgeServerOptions, type MockEdgeServer } from './server';
@@ -0,0 +1,230 @@
+import { describe, it, expect, vi } from 'vitest';
+import WebSocket from 'ws';
+import { MockEdge } from './mockEdge';
+import { startMockEdgeServer } from './server';
+import { CleverenceEdge } from '../core/client';
+import { WebSocketTransport } from '../core/transport';
+import { EdgeServerError, RequestTimeoutError } from '../core/errors';
+
+async function connectedClient(mock: MockEdge, options = {}) {
+  const edge = new CleverenceEdge({ autoConnect: false, transport: mock.transport, ...options });
+  await edge.connect();
+  await mock.settle();
+  return edge;
+}
+
+describe('MockEdge', () => {
+  it('should negotiate the protocol and report capabilities', async () => {
+    const mock = new MockEdge({ capabilities: { deviceModel: 'CT60' } });
+    const edge = await connectedClient(mock);
+
+    expect(edge.protocol).toMatchObject({ version: 2, legacy: false });
+    expect(edge.supportsFeature('command_ack')).toBe(true);
+    expect(edge.capabilities?.deviceModel).toBe('CT60');
+    expect(mock.connectionCount).toBe(1);
+
+    edge.disconnect();
+    expect(mock.connectionCount).toBe(0);
+  });
+
+  it('should deliver scripted scans and RFID reads', async () => {
+    const mock = new MockEdge();
+    const edge = await connectedClient(mock);
+    const scanHandler = vi.fn();
+    const batchHandler = vi.fn();
+    edge.on('scan', scanHandler);
+    edge.on('rfidBatch', batchHandler);
+
+    mock.scan('012345678905', { symbology: 'ean13' });
+    mock.rfidBatch(['EPC-1', { epc: 'EPC-2', rssi: -40 }]);
+    await mock.settle();
+
+    expect(scanHandler).toHaveBeenCalledWith(expect.objectContaining({ data: '012345678905', symbology: 'ean13', seq: 1 }));
+    expect(batchHandler.mock.calls[0][0]).toHaveLength(2);
+    expect(edge.lastSequence).toBe(3);
+
+    edge.disconnect();
+  });
+
+  it('should record commands and answer with results', async () => {
+    const mock = new MockEdge();
+    const edge = await connectedClient(mock);
+
+    await edge.startRfidInventory({ power: 20 });
+    mock.rfid('EPC-1');
+    mock.rfid('EPC-1');
+    mock.rfid('EPC-2');
+    await expect(edge.stopRfidInventory()).resolves.toEqual({ tagCount: 2 });
+    await expect(edge.setSymbologies(['qrcode'])).resolves.toEqual({ enabledSymbologies: ['qrcode'] });
+
+    expect(mock.commands).toEqual([
+      { type: 'command', command: 'start_rfid_inventory', options: { power: 20 } },
+      { type: 'command', command: 'stop_rfid_inventory' },
+      { type: 'command', command: 'set_symbologies', symbologies: ['qrcode'] },
+    ]);
+    await expect(edge.getConfig()).resolves.toMatchObject({ enabledSymbologies: ['qrcode'] });
+
+    edge.disconnect();
+  });
+
+  it('should inject failures and unanswered requests', async () => {
+    const mock = new MockEdge();
+    const edge = await connectedClient(mock, { commandTimeout: 30 });
+
+    mock.failNext('trigger_scan', { message: 'Scanner busy', code: 'scanner_busy' });
+    await expect(edge.triggerScan()).rejects.toMatchObject({ code: 'scanner_busy' });
+
+    mock.ignoreNext('trigger_scan');
+    await expect(edge.triggerScan()).rejects.toBeInstanceOf(RequestTimeoutError);
+
+    const errorHandler = vi.fn();
+    edge.on('error', errorHandler);
+    mock.sendError('Reader overheated', 'reader_overheated');
+    await mock.settle();
+    expect(errorHandler.mock.calls[0][0]).toBeInstanceOf(EdgeServerError);
+
+    edge.disconnect();
+  });
+
+  it('should replay missed events after a dropped connection', async () => {
+    const mock = new MockEdge();
+    const edge = await connectedClient(mock, { reconnectDelay: 10 });
+    const scanHandler = vi.fn();
+    edge.on('scan', scanHandler);
+
+    mock.scan('before');
+    await mock.settle();
+    mock.disconnect();
+    mock.scan('during');
+    expect(edge.connectionState).toBe('reconnecting');
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    await mock.settle();
+
+    expect(edge.isConnected).toBe(true);
+    expect(scanHandler.mock.calls.map(([event]) => event.data)).toEqual(['before', 'during']);
+    expect(mock.received.some((message) => message.type === 'resume')).toBe(true);
+
+    edge.disconnect();
+  });
+
+  it('should tell every resuming client that a restart reset the sequence', async () => {
+    const mock = new MockEdge();
+    const edges = [
+      await connectedClient(mock, { reconnectDelay: 10 }),
+      await connectedClient(mock, { reconnectDelay: 10 }),
+    ];
+    const handlers = edges.map((edge) => {
+      const scanHandler = vi.fn();
+      edge.on('scan', scanHandler);
+      return scanHandler;
+    });
+
+    ['A', 'B'].forEach((data) => mock.scan(data));
+    await mock.settle();
+    mock.restart();
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    await mock.settle();
+    mock.scan('C');
+    await mock.settle();
+
+    expect(mock.received.filter((message) => message.type === 'resume')).toHaveLength(2);
+    handlers.forEach((scanHandler) =>
+      expect(scanHandler.mock.calls.map(([event]) => event.data)).toEqual(['A', 'B', 'C'])
+    );
+    edges.forEach((edge) => edge.disconnect());
+  });
+
+  it('should report a reset when the restarted run has passed the client sequence', async () => {
+    const mock = new MockEdge();
+    const edge = await connectedClient(mock, { reconnectDelay: 30 });
+    const scanHandler = vi.fn();
+    edge.on('scan', scanHandler);
+
+    ['A', 'B'].forEach((data) => mock.scan(data));
+    await mock.settle();
+    mock.restart();
+    ['C', 'D', 'E'].forEach((data) => mock.scan(data));
+
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    await mock.settle();
+
+    expect(edge.isConnected).toBe(true);
+    expect(scanHandler.mock.calls.map(([event]) => event.data)).toEqual(['A', 'B', 'C', 'D', 'E']);
+    expect(edge.lastSequence).toBe(3);
+
+    edge.disconnect();
+  });
+
+  it('should start the sequence over after a restart without resume', async () => {
+    const mock = new MockEdge({ features: ['command_ack'] });
+    const edge = await connectedClient(mock, { reconnectDelay: 10 });
+    const scanHandler = vi.fn();
+    edge.on('scan', scanHandler);
+
+    ['A', 'B', 'C'].forEach((data) => mock.scan(data));
+    await mock.settle();
+    mock.restart();
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    await mock.settle();
+    ['D', 'E'].forEach((data) => mock.scan(data));
+    await mock.settle();
+
+    expect(scanHandler.mock.calls.map(([event]) => event.data)).toEqual(['A', 'B', 'C', 'D', 'E']);
+    expect(edge.lastSequence).toBe(2);
+
+    edge.disconnect();
+  });
+
+  it('should require credentials and exchange pairing codes', async () => {
+    const mock = new MockEdge({ pairingCodes: { '123456': 'device-token' } });
+    const edge = await connectedClient(mock);
+
+    await expect(edge.pair('000000')).rejects.toThrow('Invalid pairing code');
+    await expect(edge.pair('123456')).resolves.toBe('device-token');
+    edge.disconnect();
+
+    const stranger = new CleverenceEdge({ autoConnect: false, transport: mock.transport });
+    await expect(stranger.connect()).rejects.toMatchObject({ code: 'auth_failed' });
+
+    const paired = new CleverenceEdge({ autoConnect: false, transport: mock.transport, token: 'device-token' });
+    await expect(paired.connect()).resolves.toBeUndefined();
+    paired.disconnect();
+  });
+
+  it('should wait for commands sent by the code under test', async () => {
+    const mock = new MockEdge({ latency: 5 });
+    const edge = await connectedClient(mock);
+
+    const waiting = mock.waitForCommand('trigger_scan');
+    const sent = edge.triggerScan();
+
+    await expect(waiting).resolves.toEqual({ type: 'command', command: 'trigger_scan' });
+    await sent;
+    edge.disconnect();
+  });
+});
+
+describe('startMockEdgeServer', () => {
+  it('should serve the mock over a real WebSocket', async () => {
+    const server = await startMockEdgeServer();
+    const edge = new CleverenceEdge({
+      url: server.url,
+      autoConnect: false,
+      transport: new WebSocketTransport(WebSocket),
+    });
+    const scanHandler = vi.fn();
+    edge.on('scan', scanHandler);
+
+    await edge.connect();
+    await expect(edge.getStatus()).resolves.toMatchObject({ connected: true, deviceId: 'mock-device' });
+
+    server.edge.scan('over-the-wire');
+    await vi.waitFor(() => expect(scanHandler).toHaveBeenCalled());
+    expect(scanHandler.mock.calls[0][0].data).toBe('over-the-wire');
+
+    edge.disconnect();
+    await server.close();
+  });
+});
@@ -0,0 +1,682 @@
+import { PROTOCOL_VERSION, SDK_FEATURES } from '../types';
+import type {
+  ClientMessage,
+  ServerMessage,
+  CommandRequest,
+  CommandName,
+  CommandResults,
+  ResponseData,
+  DeviceCapabilities,
+  EdgeStatus,
+  EdgeConfig,
+  RfidTag,
+  ScanEvent,
+  RfidEvent,
+  Transport,
+  TransportConnection,
+  TransportHandlers,
+} from '../types';
+
+type QueryName = 'status' | 'capabilities' | 'config' | 'rfid_tags';
+
+/**
+ * Events as sent over the wire (timestamps are ISO strings)
+ */
+type WireEvent<E> = Omit<E, 'timestamp'> & { timestamp: string };
+
+/**
+ * An error response the mock sends instead of the normal result
+ */
+export interface MockFailure {
+  /** Error message sent to the client */
+  message: string;
+  /** Optional error code sent to the client */
+  code?: string;
+}
+
+/**
+ * Options for MockEdge
+ */
+export interface MockEdgeOptions {
+  /** Capabilities reported to clients (merged over a Zebra TC52 with scanner and RFID sled) */
+  capabilities?: Partial<DeviceCapabilities>;
+  /** Status reported for the `status` query */
+  status?: Partial<EdgeStatus>;
+  /** Configuration reported for the `config` query */
+  config?: Partial<EdgeConfig>;
+  /** Protocol version announced in the hello response. Default: PROTOCOL_VERSION */
+  protocolVersion?: number;
+  /** Features announced in the hello response. Default: every feature the SDK implements */
+  features?: string[];
+  /** Behave like an Edge build without protocol negotiation: `hello` is never answered. Default: false */
+  legacy?: boolean;
+  /** API keys accepted in `hello`. When set (or when tokens are issued), credentials are required */
+  apiKeys?: string[];
+  /** One-time pairing codes mapped to the token they are exchanged for */
+  pairingCodes?: Record<string, string>;
+  /** Delay applied to every message in both directions and to opening connections, in ms. Default: 0 */
+  latency?: number;
+  /** Answer `ping` with `pong`. Default: true */
+  respondToPings?: boolean;
+  /** Number of sent events kept for `resume` replays. Default: 1000 */
+  historySize?: number;
+}
+
+/**
+ * The far end of a connection to the mock (an in-process transport connection or a socket)
+ */
+export interface MockEdgePeer {
+  /** Deliver a text message to the client */
+  send(data: string): void;
+  /** Close the connection from the service side */
+  close(): void;
+}
+
+/**
+ * A client connection attached to the mock
+ */
+export interface MockEdgeSession {
+  /** Feed a text message received from the client into the mock */
+  receive(data: string): void;
+  /** Detach the session after the client closed the connection */
+  detach(): void;
+}
+
+interface SessionState {
+  peer: MockEdgePeer;
+  open: boolean;
+}
+
+const DEFAULT_CAPABILITIES: DeviceCapabilities = {
+  edgeVersion: '1.0.0',
+  vendor: 'zebra',
+  deviceModel: 'TC52',
+  barcode: {
+    type: 'builtIn',
+    canToggle: true,
+    canReportSymbology: true,
+    canToggleSymbologies: true,
+    supportedSymbologies: ['ean13', 'ean8', 'upca', 'upce', 'code128', 'code39', 'qrcode', 'datamatrix', 'pdf417'],
+  },
+  rfid: {
+    type: 'sled',
+    model: 'RFD40',
+    canToggle: true,
+    canConfigurePower: true,
+    canConfigureSession: true,
+    powerRange: { min: 0, max: 30 },
+    supportedMemoryBanks: ['epc', 'tid', 'user'],
+  },
+  nfc: null,
+};
+
+const DEFAULT_CONFIG: EdgeConfig = {
+  enabledSymbologies: ['ean13', 'code128', 'qrcode'],
+  deduplicateScans: false,
+  deduplicateWindowMs: 0,
+  soundEnabled: true,
+  vibrationEnabled: true,
+};
+
+/**
+ * In-process Edge service for tests. Speaks the full client/server protocol, including the
+ * hello handshake, command acknowledgements, pairing and event replay after reconnect.
+ *
+ * @example
+ * ```typescript
+ * import { MockEdge } from '@cleverence/edge-js-sdk/testing';
+ *
+ * const mock = new MockEdge();
+ * const edge = new CleverenceEdge({ transport: mock.transport, autoConnect: false });
+ * await edge.connect();
+ *
+ * mock.scan('012345678905', { symbology: 'ean13' });
+ * await mock.settle();
+ *
+ * await edge.startRfidInventory();
+ * expect(mock.commands).toContainEqual(expect.objectContaining({ command: 'start_rfid_inventory' }));
+ * ```
+ */
+export class MockEdge {
+  /** Transport to pass to CleverenceEdge (or WebSocketManager) to connect to this mock */
+  readonly transport: Transport;
+  /** Delay applied to every message in both directions, in ms */
+  latency: number;
+  /** Answer `ping` with `pong` (disable to simulate a half-open connection) */
+  respondToPings: boolean;
+
+  private options: MockEdgeOptions;
+  private _capabilities: DeviceCapabilities;
+  private _config: EdgeConfig;
+  private _received: ClientMessage[] = [];
+  private sessions: Set<SessionState> = new Set();
+  private _online = true;
+  private startedAt = Date.now();
+
+  private seq = 0;
+  /** Identifies this run of the service in events; changes on restart() */
+  private epoch = createEpoch();
+  private history: Array<WireEvent<ScanEvent> | WireEvent<RfidEvent>> = [];
+  private eventCounter = 0;
+
+  private failures: Map<string, MockFailure[]> = new Map();
+  private ignored: Map<string, number> = new Map();
+  private tokens: Set<string> = new Set();
+  private tags: Map<string, RfidTag> = new Map();
+  private inventorySession: string | null = null;
+
+  private pendingDeliveries = 0;
+  private settleWaiters: Array<() => void> = [];
+  private commandWaiters: Array<{ command: CommandName; resolve: (command: CommandRequest) => void }> = [];
+
+  constructor(options: MockEdgeOptions = {}) {
+    this.options = options;
+    this.latency = options.latency ?? 0;
+    this.respondToPings = options.respondToPings ?? true;
+    this._capabilities = { ...DEFAULT_CAPABILITIES, ...options.capabilities };
+    this._config = { ...DEFAULT_CONFIG, ...options.config };
+    this.transport = { connect: (_url, handlers) => this.connectTransport(handlers) };
+  }
+
+  /** Every message received from clients, in order */
+  get received(): ClientMessage[] {
+    return [...this._received];
+  }
+
+  /** Commands received from clients, in order (without correlation ids) */
+  get commands(): CommandRequest[] {
+    return this._received
+      .filter((message): message is CommandRequest & { id: string } => message.type === 'command')
+      .map(({ id: _id, ...command }) => command as CommandRequest);
+  }
+
+  /** Number of currently open client connections */
+  get connectionCount(): number {
+    return this.sessions.size;
+  }
+
+  /** Capabilities currently reported to clients */
+  get capabilities(): DeviceCapabilities {
+    return this._capabilities;
+  }
+
+  /** Whether new connections are accepted */
+  get isOnline(): boolean {
+    return this._online;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Scripting
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Emit a barcode scan to all connected clients
+   */
+  scan(data: string, overrides: Partial<Omit<ScanEvent, 'type' | 'timestamp'>> & { timestamp?: Date } = {}): ScanEvent {
+    const { timestamp = new Date(), ...rest } = overrides;
+    const event: WireEvent<ScanEvent> = {
+      type: 'scan',
+      id: `scan-${++this.eventCounter}`,
+      data,
+      symbology: 'code128',
+      source: 'integrated-laser',
+      vendor: this._capabilities.vendor,
+      ...rest,
+      seq: ++this.seq,
+      epoch: this.epoch,
+      timestamp: timestamp.toISOString(),
+    };
+    this.record(event);
+    this.broadcast({ type: 'event', event: event as unknown as ScanEvent });
+    return { ...event, timestamp };
+  }
+
+  /**
+   * Emit a single RFID read to all connected clients
+   */
+  rfid(epc: string, overrides: Partial<Omit<RfidEvent, 'type' | 'timestamp'>> & { timestamp?: Date } = {}): RfidEvent {
+    const event = this.createRfidEvent(epc, overrides);
+    this.broadcast({ type: 'event', event: event as unknown as RfidEvent });
+    return { ...event, timestamp: new Date(event.timestamp) };
+  }
+
+  /**
+   * Emit several RFID reads as one `rfid_batch` message
+   */
+  rfidBatch(reads: Array<string | (Partial<Omit<RfidEvent, 'type' | 'timestamp'>> & { epc: string })>): RfidEvent[] {
+    const events = reads.map((read) =>
+      typeof read === 'string' ? this.createRfidEvent(read, {}) : this.createRfidEvent(read.epc, read)
+    );
+    this.broadcast({ type: 'rfid_batch', events: events as unknown as RfidEvent[] });
+    return events.map((event) => ({ ...event, timestamp: new Date(event.timestamp) }));
+  }
+
+  /**
+   * Change the reported capabilities and push them to connected clients
+   */
+  setCapabilities(capabilities: Partial<DeviceCapabilities>): void {
+    this._capabilities = { ...this._capabilities, ...capabilities };
+    this.broadcast({ type: 'capabilities', data: this._capabilities });
+  }
+
+  /**
+   * Send a server `error` message to all connected clients
+   */
+  sendError(message: string, code?: string): void {
+    this.broadcast({ type: 'error', message, code });
+  }
+
+  /**
+   * Send an arbitrary message to all connected clients. Strings are sent verbatim (e.g. malformed JSON)
+   */
+  send(message: ServerMessage | string): void {
+    this.broadcast(message);
+  }
+
+  /**
+   * Answer the next request of this kind with an error response
+   */
+  failNext(request: CommandName | QueryName | 'pair' | 'resume', failure: string | MockFailure): void {
+    const queue = this.failures.get(request) ?? [];
+    queue.push(typeof failure === 'string' ? { message: failure } : failure);
+    this.failures.set(request, queue);
+  }
+
+  /**
+   * Never answer the next request of this kind (the client sees a timeout)
+   */
+  ignoreNext(request: CommandName | QueryName | 'pair' | 'resume' | 'hello'): void {
+    this.ignored.set(request, (this.ignored.get(request) ?? 0) + 1);
+  }
+
+  /**
+   * Drop every open connection, as if the network went away
+   */
+  disconnect(): void {
+    Array.from(this.sessions).forEach((session) => this.closeSession(session));
+  }
+
+  /**
+   * Accept or refuse new connections. Going offline also drops open connections
+   */
+  setOnline(online: boolean): void {
+    this._online = online;
+    if (!online) {
+      this.disconnect();
+    }
+  }
+
+  /**
+   * Simulate a service restart: connections drop and the event sequence starts over.
+   * Clients that resume with an event from before the restart get `reset: true` and this run's events.
+   */
+  restart(): void {
+    this.disconnect();
+    this.seq = 0;
+    this.epoch = createEpoch();
+    this.history = [];
+    this.startedAt = Date.now();
+  }
+
+  /**
+   * Wait until every message in flight (in both directions) has been delivered
+   */
+  settle(): Promise<void> {
+    return new Promise((resolve) => {
+      // Let transports that open on a timer finish first
+      setTimeout(() => {
+        if (this.pendingDeliveries === 0) {
+          resolve();
+        } else {
+          this.settleWaiters.push(resolve);
+        }
+      }, 0);
+    });
+  }
+
+  /**
+   * Resolve with the next command of the given name received from a client
+   */
+  waitForCommand(command: CommandName, timeoutMs = 1000): Promise<CommandRequest> {
+    return new Promise((resolve, reject) => {
+      const waiter = {
+        command,
+        resolve: (request: CommandRequest) => {
+          clearTimeout(timer);
+          resolve(request);
+        },
+      };
+      const timer = setTimeout(() => {
+        this.commandWaiters = this.commandWaiters.filter((entry) => entry !== waiter);
+        reject(new Error(`No ${command} command received within ${timeoutMs}ms`));
+      }, timeoutMs);
+      this.commandWaiters.push(waiter);
+    });
+  }
+
+  /**
+   * Forget received messages (scripted failures and state are kept)
+   */
+  clearReceived(): void {
+    this._received = [];
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Connections
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Attach a client connection. Used by the in-process transport and by startMockEdgeServer()
+   */
+  accept(peer: MockEdgePeer): MockEdgeSession {
+    const session: SessionState = { peer, open: true };
+    this.sessions.add(session);
+
+    return {
+      receive: (data) => this.delay(() => {
+        if (session.open) this.handleClientMessage(session, data);
+      }),
+      detach: () => {
+        session.open = false;
+        this.sessions.delete(session);
+      },
+    };
+  }
+
+  private connectTransport(handlers: TransportHandlers): TransportConnection {
+    let state: 'opening' | 'open' | 'closed' = 'opening';
+    let session: MockEdgeSession | null = null;
+
+    const close = () => {
+      if (state === 'closed') return;
+      state = 'closed';
+      session?.detach();
+      handlers.onClose();
+    };
+
+    setTimeout(() => {
+      if (state !== 'opening') return;
+      if (!this._online) {
+        // Refused: the open fails
+        close();
+        return;
+      }
+      state = 'open';
+      session = this.accept({
+        send: (data) => {
+          if (state === 'open') handlers.onMessage(data);
+        },
+        close,
+      });
+      handlers.onOpen();
+    }, this.latency);
+
+    return {
+      get isOpen() {
+        return state === 'open';
+      },
+      send: (data) => {
+        if (state !== 'open') {
+          throw new Error('Mock connection is not open');
+        }
+        session?.receive(data);
+      },
+      close,
+    };
+  }
+
+  private closeSession(session: SessionState): void {
+    session.open = false;
+    this.sessions.delete(session);
+    session.peer.close();
+  }
+
+  private broadcast(message: ServerMessage | string): void {
+    this.sessions.forEach((session) => this.deliver(session, message));
+  }
+
+  private deliver(session: SessionState, message: ServerMessage | string): void {
+    const data = typeof message === 'string' ? message : JSON.stringify(message);
+    this.delay(() => {
+      if (session.open) session.peer.send(data);
+    });
+  }
+
+  /** Run a callback after the configured latency, tracking it for settle() */
+  private delay(callback: () => void): void {
+    this.pendingDeliveries++;
+    setTimeout(() => {
+      try {
+        callback();
+      } finally {
+        this.pendingDeliveries--;
+        if (this.pendingDeliveries === 0) {
+          const waiters = this.settleWaiters;
+          this.settleWaiters = [];
+          waiters.forEach((resolve) => resolve());
+        }
+      }
+    }, this.latency);
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Protocol
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  private handleClientMessage(session: SessionState, data: string): void {
+    let message: ClientMessage;
+    try {
+      message = JSON.parse(data) as ClientMessage;
+    } catch {
+      this.deliver(session, { type: 'error', message: 'Invalid JSON', code: 'invalid_message' });
+      return;
+    }
+    this._received.push(message);
+
+    switch (message.type) {
+      case 'ping':
+        if (this.respondToPings) this.deliver(session, { type: 'pong' });
+        return;
+      case 'hello':
+        this.handleHello(session, message);
+        return;
+      case 'pair':
+        this.respond(session, message.id, 'pair', () => this.handlePair(message.code));
+        return;
+      case 'resume':
+        this.respond(session, message.id, 'resume', () => this.handleResume(session, message.lastSeq, message.epoch));
+        return;
+      case 'query':
+        this.respond(session, message.id, message.query, () => this.handleQuery(message.query));
+        return;
+      case 'command': {
+        const { id, ...command } = message;
+        this.respond(session, id, message.command, () => this.handleCommand(command as CommandRequest));
+        this.commandWaiters = this.commandWaiters.filter((waiter) => {
+          if (waiter.command !== message.command) return true;
+          waiter.resolve(command as CommandRequest);
+          return false;
+        });
+        return;
+      }
+    }
+  }
+
+  private handleHello(session: SessionState, message: Extract<ClientMessage, { type: 'hello' }>): void {
+    if (this.options.legacy || this.consumeIgnored('hello')) return;
+
+    const requiresAuth = (this.options.apiKeys?.length ?? 0) > 0 || this.tokens.size > 0;
+    const presented = Boolean(message.apiKey || message.token);
+    const valid =
+      (message.apiKey !== undefined && (this.options.apiKeys ?? []).includes(message.apiKey)) ||
+      (message.token !== undefined && this.tokens.has(message.token));
+
+    if (requiresAuth && !valid) {
+      this.deliver(session, {
+        type: 'response',
+        id: message.id,
+        success: false,
+        error: 'Authentication failed',
+        code: 'auth_failed',
+      });
+      return;
+    }
+
+    this.deliver(session, {
+      type: 'response',
+      id: message.id,
+      success: true,
+      data: {
+        hello: true,
+        result: {
+          authenticated: presented,
+          protocolVersion: this.options.protocolVersion ?? PROTOCOL_VERSION,
+          features: this.options.features ?? [...SDK_FEATURES],
+        },
+      },
+    });
+  }
+
+  private handlePair(code: string): ResponseData | MockFailure {
+    const token = this.options.pairingCodes?.[code];
+    if (!token) {
+      return { message: 'Invalid pairing code', code: 'auth_failed' };
+    }
+    this.tokens.add(token);
+    return { pair: true, result: { token } };
+  }
+
+  private handleResume(session: SessionState, lastSeq: number, epoch: string | undefined): ResponseData {
+    // The client's last event came from before a restart (clients that do not name the run can only
+    // be caught when the new run has not reached their sequence number yet)
+    if (epoch !== undefined ? epoch !== this.epoch : lastSeq > this.seq) {
+      this.history.forEach((event) =>
+        this.deliver(session, { type: 'event', event: event as unknown as ScanEvent | RfidEvent })
+      );
+      return { resume: true, result: { replayed: this.history.length, reset: true } };
+    }
+
+    const oldest = this.history.length > 0 ? this.history[0].seq! : this.seq + 1;
+    if (lastSeq + 1 < oldest) {
+      this.deliver(session, { type: 'gap', fromSeq: lastSeq + 1, toSeq: oldest - 1 });
+    }
+
+    const missed = this.history.filter((event) => event.seq! > lastSeq);
+    missed.forEach((event) =>
+      this.deliver(session, { type: 'event', event: event as unknown as ScanEvent | RfidEvent })
+    );
+    return { resume: true, result: { replayed: missed.length, reset: false } };
+  }
+
+  private handleQuery(query: QueryName): ResponseData {
+    switch (query) {
+      case 'status':
+        return {
+          query,
+          result: {
+            connected: true,
+            deviceId: 'mock-device',
+            version: this._capabilities.edgeVersion,
+            uptime: Math.floor((Date.now() - this.startedAt) / 1000),
+            ...this.options.status,
+          },
+        };
+      case 'capabilities':
+        return { query, result: this._capabilities };
+      case 'config':
+        return { query, result: this._config };
+      case 'rfid_tags':
+        return { query, result: Array.from(this.tags.values()) };
+    }
+  }
+
+  private handleCommand(command: CommandRequest): ResponseData {
+    switch (command.command) {
+      case 'trigger_scan':
+        return { command: 'trigger_scan' };
+      case 'set_symbologies':
+        this._config = { ...this._config, enabledSymbologies: command.symbologies };
+        return { command: 'set_symbologies', result: { enabledSymbologies: command.symbologies } };
+      case 'start_rfid_inventory':
+        this.tags.clear();
+        this.inventorySession = `mock-session-${this.eventCounter + 1}`;
+        return { command: 'start_rfid_inventory', result: { inventorySession: this.inventorySession } };
+      case 'stop_rfid_inventory': {
+        const result: CommandResults['stop_rfid_inventory'] = { tagCount: this.tags.size };
+        this.inventorySession = null;
+        return { command: 'stop_rfid_inventory', result };
+      }
+    }
+  }
+
+  private respond(
+    session: SessionState,
+    id: string,
+    request: string,
+    handler: () => ResponseData | MockFailure
+  ): void {
+    if (this.consumeIgnored(request)) return;
+
+    const result = this.failures.get(request)?.shift() ?? handler();
+    if ('message' in result) {
+      this.deliver(session, { type: 'response', id, success: false, error: result.message, code: result.code });
+      return;
+    }
+    this.deliver(session, { type: 'response', id, success: true, data: result });
+  }
+
+  private consumeIgnored(request: string): boolean {
+    const count = this.ignored.get(request) ?? 0;
+    if (count === 0) return false;
+    this.ignored.set(request, count - 1);
+    return true;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Events
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  private createRfidEvent(
+    epc: string,
+    overrides: Partial<Omit<RfidEvent, 'type' | 'timestamp'>> & { timestamp?: Date }
+  ): WireEvent<RfidEvent> {
+    const { timestamp = new Date(), ...rest } = overrides;
+    const event: WireEvent<RfidEvent> = {
+      type: 'rfid',
+      id: `rfid-${++this.eventCounter}`,
+      epc,
+      rssi: -50,
+      antenna: 1,
+      ...(this.inventorySession ? { inventorySession: this.inventorySession } : {}),
+      ...rest,
+      seq: ++this.seq,
+      epoch: this.epoch,
+      timestamp: timestamp.toISOString(),
+    };
+
+    const existing = this.tags.get(epc);
+    this.tags.set(epc, {
+      epc,
+      rssi: event.rssi,
+      antenna: event.antenna,
+      readCount: (existing?.readCount ?? 0) + 1,
+      firstSeen: existing?.firstSeen ?? timestamp,
+      lastSeen: timestamp,
+    });
+
+    this.record(event);
+    return event;
+  }
+
+  private record(event: WireEvent<ScanEvent> | WireEvent<RfidEvent>): void {
+    this.history.push(event);
+    const limit = this.options.historySize ?? 1000;
+    if (this.history.length > limit) {
+      this.history.splice(0, this.history.length - limit);
+    }
+  }
+}
+
+function createEpoch(): string {
+  return Math.random().toString(36).substring(2, 10);
+}
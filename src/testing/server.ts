@@ -0,0 +1,78 @@
+import { MockEdge, type MockEdgeOptions } from './mockEdge';
+
+/**
+ * Options for startMockEdgeServer()
+ */
+export interface MockEdgeServerOptions extends MockEdgeOptions {
+  /** Port to listen on. Default: 0 (a free port is picked) */
+  port?: number;
+  /** Interface to bind. Default: '127.0.0.1' */
+  host?: string;
+  /** Serve an existing mock instead of creating one from the options */
+  edge?: MockEdge;
+}
+
+/**
+ * A running local mock Edge server
+ */
+export interface MockEdgeServer {
+  /** WebSocket URL clients connect to */
+  readonly url: string;
+  /** The mock answering the connections; use it to script events and inspect commands */
+  readonly edge: MockEdge;
+  /** Drop all connections and stop listening */
+  close(): Promise<void>;
+}
+
+/**
+ * Start a real WebSocket server backed by a MockEdge, for end-to-end tests in Node
+ * (browser tests, Playwright, other processes). Requires the `ws` package.
+ *
+ * @example
+ * ```typescript
+ * import { startMockEdgeServer } from '@cleverence/edge-js-sdk/testing';
+ *
+ * const server = await startMockEdgeServer({ port: 8585 });
+ * server.edge.scan('012345678905');
+ * await server.close();
+ * ```
+ */
+export async function startMockEdgeServer(options: MockEdgeServerOptions = {}): Promise<MockEdgeServer> {
+  const { port = 0, host = '127.0.0.1', edge: existing, ...mockOptions } = options;
+  const edge = existing ?? new MockEdge(mockOptions);
+  const { WebSocketServer } = await import('ws');
+
+  const wss = new WebSocketServer({ port, host });
+  await new Promise<void>((resolve, reject) => {
+    wss.once('listening', () => resolve());
+    wss.once('error', reject);
+  });
+
+  wss.on('connection', (socket) => {
+    if (!edge.isOnline) {
+      socket.terminate();
+      return;
+    }
+
+    const session = edge.accept({
+      send: (data) => socket.send(data),
+      close: () => socket.terminate(),
+    });
+    socket.on('message', (data) => session.receive(data.toString()));
+    socket.on('close', () => session.detach());
+  });
+
+  const address = wss.address();
+  const boundPort = typeof address === 'object' && address !== null ? address.port : port;
+
+  return {
+    url: `ws://${host}:${boundPort}`,
+    edge,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        edge.disconnect();
+        wss.clients.forEach((socket) => socket.terminate());
+        wss.close((err) => (err ? reject(err) : resolve()));
+      }),
+  };
+}
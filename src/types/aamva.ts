@@ -0,0 +1,86 @@
+/**
+ * AAMVA file header
+ */
+export interface AamvaHeader {
+  /** Issuer Identification Number of the jurisdiction, e.g. '636014' for California */
+  issuerId: string;
+  /** AAMVA standard version (1 for the 2000 standard, 10 for 2020) */
+  version: number;
+  /** Jurisdiction version (not present in version 1 files) */
+  jurisdictionVersion: number | null;
+  /** Number of subfiles declared in the header */
+  entries: number;
+}
+
+/**
+ * One subfile: 'DL' or 'ID' for the card data, 'Z' + jurisdiction letter for jurisdiction-specific data
+ */
+export interface AamvaSubfile {
+  /** Subfile type from its designator, e.g. 'DL', 'ID' or 'ZC' */
+  type: string;
+  /** Offset declared in the designator */
+  offset: number;
+  /** Length declared in the designator */
+  length: number;
+  /** Data elements keyed by element id, e.g. { DAQ: 'D1234567', DBB: '01151990' } */
+  elements: Record<string, string>;
+}
+
+/**
+ * Mailing address printed on the card
+ */
+export interface AamvaAddress {
+  /** (DAG) Street address */
+  street?: string;
+  /** (DAH) Second line of the street address */
+  street2?: string;
+  /** (DAI) City */
+  city?: string;
+  /** (DAJ) State or province code, e.g. 'CA' or 'ON' */
+  state?: string;
+  /** (DAK) Postal code: 'NNNNN' or 'NNNNN-NNNN' in the US */
+  postalCode?: string;
+}
+
+/**
+ * Decoded AAMVA driver's license or ID card with the common elements as typed fields
+ */
+export interface AamvaLicense {
+  /** File header (null when the payload has none) */
+  header: AamvaHeader | null;
+  /** Every subfile found, in designator order */
+  subfiles: AamvaSubfile[];
+  /** Elements of the DL or ID subfile */
+  elements: Record<string, string>;
+  /** True when the header and card subfile parsed and every typed field validated */
+  valid: boolean;
+  /** Why parts of the payload could not be decoded */
+  errors: string[];
+
+  /** 'DL' for a driver's license, 'ID' for an identification card */
+  documentType?: 'DL' | 'ID';
+  /** (DAJ) Issuing state or province code */
+  jurisdiction?: string;
+  /** (DCG) Country: 'USA' or 'CAN' */
+  country?: string;
+  /** (DAQ) License or ID number */
+  licenseNumber?: string;
+  /** (DCS, DAB) Family name */
+  lastName?: string;
+  /** (DAC, DCT) First name */
+  firstName?: string;
+  /** (DAD, DCT) Middle names */
+  middleName?: string;
+  /** (DCU) Name suffix, e.g. 'JR' */
+  suffix?: string;
+  /** (DBB) Date of birth (YYYY-MM-DD) */
+  dateOfBirth?: string;
+  /** (DBA) Expiration date (YYYY-MM-DD) */
+  expiryDate?: string;
+  /** (DBD) Issue date (YYYY-MM-DD) */
+  issueDate?: string;
+  /** (DBC) Sex */
+  sex?: 'male' | 'female' | 'unspecified';
+  /** Mailing address */
+  address?: AamvaAddress;
+}
@@ -0,0 +1,24 @@
+/**
+ * Character sets scan bytes can be decoded with. 'binary' maps each byte to the code point of the same
+ * value, so no information is lost.
+ */
+export type ScanCharset = 'utf-8' | 'shift_jis' | 'windows-1252' | 'binary';
+
+/**
+ * A character set, or 'auto' to detect it from the bytes
+ */
+export type ScanEncoding = ScanCharset | 'auto';
+
+/**
+ * Raw scan bytes and their decoded text
+ */
+export interface DecodedBytes {
+  /** The raw bytes */
+  bytes: Uint8Array;
+  /** Character set used to decode them (detected when 'auto' was requested) */
+  encoding: ScanCharset;
+  /** Decoded text, control characters included */
+  text: string;
+  /** Decoded text with control characters shown as `<GS>`, `<RS>`, `<EOT>`... */
+  display: string;
+}
@@ -1,3 +1,7 @@
+import type { Gs1Data } from './gs1';
+import type { Symbology } from './symbology';
+import type { ScanCharset } from './encoding';
+
 /**
  * Barcode scan event - simplified API surface for easy consumption
  */
@@ -8,6 +12,12 @@ export interface ScanEvent {
   id: string;
   /** When the scan occurred */
   timestamp: Date;
+  /** Monotonic sequence number assigned by the Edge service (shared by scan and RFID events) */
+  seq?: number;
+  /** Identifier of the Edge service run that assigned `seq`; a new value means the sequence started over */
+  epoch?: string;
+  /** Application data attached by middleware, e.g. the current user or workflow step */
+  meta?: Record<string, unknown>;
 
   // Primary fields (flat for easy access)
   /** Decoded barcode data string */
@@ -32,6 +42,21 @@ export interface ScanEvent {
     /** How long the scan took in milliseconds */
     scanDurationMs: number;
   };
+
+  /** Raw barcode bytes, attached when the `clientDecoding` option decoded `data` from `raw.bytesHex` */
+  bytes?: Uint8Array;
+  /** Character set `data` was decoded with on the client (`clientDecoding` option) */
+  encoding?: ScanCharset;
+
+  /** Canonical symbology from the AIM identifier and vendor name (`resolveSymbologies` option) */
+  canonicalSymbology?: Symbology;
+  /** False when the read fails its symbology's check, e.g. an EAN-13 check digit (`resolveSymbologies` option) */
+  valid?: boolean;
+  /** Why the read failed validation */
+  invalidReason?: string;
+
+  /** Decoded GS1 element string, attached when the `parseGs1` option is enabled and the scan is GS1 */
+  gs1?: Gs1Data;
 }
 
 /**
@@ -44,6 +69,12 @@ export interface RfidEvent {
   id: string;
   /** When the read occurred */
   timestamp: Date;
+  /** Monotonic sequence number assigned by the Edge service (shared by scan and RFID events) */
+  seq?: number;
+  /** Identifier of the Edge service run that assigned `seq`; a new value means the sequence started over */
+  epoch?: string;
+  /** Application data attached by middleware, e.g. the current user or workflow step */
+  meta?: Record<string, unknown>;
 
   // Primary fields (flat for easy access)
   /** EPC (Electronic Product Code) tag identifier */
@@ -78,3 +109,13 @@ export interface RfidEvent {
  * Union type for all events
  */
 export type EdgeEvent = ScanEvent | RfidEvent;
+
+/**
+ * Range of event sequence numbers that were missed and could not be replayed
+ */
+export interface SequenceGap {
+  /** First missing sequence number */
+  fromSeq: number;
+  /** Last missing sequence number */
+  toSeq: number;
+}
@@ -0,0 +1,65 @@
+/**
+ * One GS1 Application Identifier and its value
+ */
+export interface Gs1Element {
+  /** Application Identifier, e.g. '01' or '3103' */
+  ai: string;
+  /** GS1 data title, e.g. 'GTIN' or 'NET WEIGHT (kg)' ('UNKNOWN' for AIs without a definition) */
+  title: string;
+  /** Value as encoded in the barcode */
+  raw: string;
+  /** Decoded value: ISO date (YYYY-MM-DD) for dates, number for decimal and count AIs, otherwise the raw string */
+  value: string | number;
+  /** Why the value is invalid (bad check digit, impossible date, wrong length...) */
+  error?: string;
+}
+
+/**
+ * Decoded GS1 element string with the common AIs as typed fields
+ */
+export interface Gs1Data {
+  /** Every element in barcode order */
+  elements: Gs1Element[];
+  /** True when every element parsed and validated */
+  valid: boolean;
+  /** Errors of invalid elements and of the element string itself */
+  errors: string[];
+
+  /** (00) Serial Shipping Container Code */
+  sscc?: string;
+  /** (01) Global Trade Item Number */
+  gtin?: string;
+  /** (02) GTIN of contained trade items */
+  content?: string;
+  /** (10) Batch or lot number */
+  batch?: string;
+  /** (11) Production date (YYYY-MM-DD) */
+  productionDate?: string;
+  /** (13) Packaging date (YYYY-MM-DD) */
+  packagingDate?: string;
+  /** (15) Best before date (YYYY-MM-DD) */
+  bestBefore?: string;
+  /** (16) Sell by date (YYYY-MM-DD) */
+  sellBy?: string;
+  /** (17) Expiration date (YYYY-MM-DD) */
+  expiry?: string;
+  /** (20) Internal product variant */
+  variant?: string;
+  /** (21) Serial number */
+  serial?: string;
+  /** (30) or (37) Count of items */
+  count?: number;
+  /** (310n) Net weight in kilograms */
+  netWeightKg?: number;
+  /** (320n) Net weight in pounds */
+  netWeightLb?: number;
+  /** (330n) Gross weight in kilograms */
+  grossWeightKg?: number;
+  /** (392n) Amount payable in local currency */
+  price?: number;
+}
+
+/**
+ * Fields of Gs1Data filled from a single AI
+ */
+export type Gs1Field = Exclude<keyof Gs1Data, 'elements' | 'valid' | 'errors'>;
@@ -1,5 +1,5 @@
 // Event types
-export type { ScanEvent, RfidEvent, EdgeEvent } from './events';
+export type { ScanEvent, RfidEvent, EdgeEvent, SequenceGap } from './events';
 
 // Capability and status types
 export type {
@@ -14,9 +14,55 @@ export type {
 export type {
   ClientMessage,
   ServerMessage,
+  CommandRequest,
+  CommandName,
+  CommandResults,
+  CommandOptions,
+  QueuedCommandInfo,
+  DroppedCommandInfo,
   ResponseData,
+  ResumeResult,
+  AuthCredentials,
+  HelloResult,
+  PairResult,
+  ProtocolFeature,
+  ProtocolInfo,
   ConnectionState,
   EdgeOptions,
+  EndpointStrategy,
+  ValidationMode,
+  ScanDelivery,
+  RfidThrottleOptions,
+  RfidThrottleStats,
+  ScanDedupMode,
+  ScanDedupRule,
+  ScanDedupOptions,
+  DuplicateScan,
+  ResolvedEdgeOptions,
 } from './messages';
 
-export { DEFAULT_OPTIONS } from './messages';
+// Transport types
+export type {
+  Transport,
+  TransportConnection,
+  TransportHandlers,
+  WebSocketLike,
+  WebSocketConstructor,
+} from './transport';
+
+// Symbology types
+export type { Symbology, BarcodeValidator } from './symbology';
+
+// GS1 types
+export type { Gs1Data, Gs1Element, Gs1Field } from './gs1';
+
+// AAMVA types
+export type { AamvaHeader, AamvaSubfile, AamvaAddress, AamvaLicense } from './aamva';
+
+// Byte decoding types
+export type { ScanCharset, ScanEncoding, DecodedBytes } from './encoding';
+
+// Session recording types
+export type { RecordingEntry, RecordingHeader } from './recording';
+
+export { DEFAULT_OPTIONS, PROTOCOL_VERSION, MIN_PROTOCOL_VERSION, SDK_FEATURES } from './messages';
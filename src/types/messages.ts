@@ -1,18 +1,90 @@
 import type { ScanEvent, RfidEvent } from './events';
 import type { DeviceCapabilities, EdgeStatus, EdgeConfig, RfidInventoryOptions, RfidTag } from './capabilities';
+import type { Transport } from './transport';
+import type { ScanEncoding } from './encoding';
 
 /**
- * Messages sent from SDK (client) to Edge service (server)
+ * Command payloads accepted by the Edge service (before a correlation id is assigned)
  */
-export type ClientMessage =
+export type CommandRequest =
   | { type: 'command'; command: 'trigger_scan' }
   | { type: 'command'; command: 'set_symbologies'; symbologies: string[] }
   | { type: 'command'; command: 'start_rfid_inventory'; options?: RfidInventoryOptions }
-  | { type: 'command'; command: 'stop_rfid_inventory' }
+  | { type: 'command'; command: 'stop_rfid_inventory' };
+
+/**
+ * Command names understood by the Edge service
+ */
+export type CommandName = CommandRequest['command'];
+
+/**
+ * Result payloads returned by the Edge service when it acknowledges a command
+ */
+export interface CommandResults {
+  trigger_scan: void;
+  set_symbologies: { enabledSymbologies: string[] };
+  start_rfid_inventory: { inventorySession: string };
+  stop_rfid_inventory: { tagCount: number };
+}
+
+/**
+ * Per-command delivery options
+ */
+export interface CommandOptions {
+  /** Time to wait for the acknowledgement in ms. Defaults to EdgeOptions.commandTimeout */
+  timeout?: number;
+  /** Drop the command instead of sending it late if it is still queued after the queue TTL. Default: true */
+  dropIfStale?: boolean;
+}
+
+/**
+ * A command held in the outbound queue while the connection is re-established
+ */
+export interface QueuedCommandInfo {
+  /** Correlation id assigned to the command */
+  id: string;
+  /** Command name */
+  command: CommandName;
+  /** When the command was queued (ms since epoch) */
+  queuedAt: number;
+}
+
+/**
+ * A queued command that was discarded without being sent
+ */
+export interface DroppedCommandInfo extends QueuedCommandInfo {
+  /** Why the command was dropped */
+  reason: 'stale' | 'overflow' | 'disconnected';
+}
+
+/**
+ * Credentials presented to the Edge service in the `hello` handshake
+ */
+export interface AuthCredentials {
+  /** Application API key configured on the Edge service */
+  apiKey?: string;
+  /** Device token obtained through pairing */
+  token?: string;
+}
+
+/**
+ * Messages sent from SDK (client) to Edge service (server)
+ */
+export type ClientMessage =
+  | (CommandRequest & { id: string })
   | { type: 'query'; id: string; query: 'status' }
   | { type: 'query'; id: string; query: 'capabilities' }
   | { type: 'query'; id: string; query: 'config' }
   | { type: 'query'; id: string; query: 'rfid_tags' }
+  | { type: 'resume'; id: string; lastSeq: number; epoch?: string }
+  | ({
+      type: 'hello';
+      id: string;
+      protocolVersion: number;
+      minProtocolVersion: number;
+      features: ProtocolFeature[];
+    } & AuthCredentials)
+  | { type: 'pair'; id: string; code: string; clientName?: string }
   | { type: 'ping' };
 
 /**
@@ -20,32 +92,221 @@ export type ClientMessage =
  */
 export type ServerMessage =
   | { type: 'event'; event: ScanEvent | RfidEvent }
+  | { type: 'rfid_batch'; events: RfidEvent[] }
   | { type: 'capabilities'; data: DeviceCapabilities }
   | { type: 'response'; id: string; success: true; data: ResponseData }
-  | { type: 'response'; id: string; success: false; error: string }
+  | { type: 'response'; id: string; success: false; error: string; code?: string }
   | { type: 'error'; message: string; code?: string }
+  | { type: 'gap'; fromSeq: number; toSeq: number }
   | { type: 'pong' };
 
 /**
- * Response data types based on query type
+ * Response data types based on query or command type
  */
 export type ResponseData =
   | { query: 'status'; result: EdgeStatus }
   | { query: 'capabilities'; result: DeviceCapabilities }
   | { query: 'config'; result: EdgeConfig }
-  | { query: 'rfid_tags'; result: RfidTag[] };
+  | { query: 'rfid_tags'; result: RfidTag[] }
+  | { command: 'trigger_scan'; result?: CommandResults['trigger_scan'] }
+  | { command: 'set_symbologies'; result: CommandResults['set_symbologies'] }
+  | { command: 'start_rfid_inventory'; result: CommandResults['start_rfid_inventory'] }
+  | { command: 'stop_rfid_inventory'; result: CommandResults['stop_rfid_inventory'] }
+  | { resume: true; result: ResumeResult }
+  | { hello: true; result: HelloResult }
+  | { pair: true; result: PairResult };
+
+/**
+ * Result of a resume handshake after reconnect
+ */
+export interface ResumeResult {
+  /** Number of missed events the Edge service replayed before responding */
+  replayed: number;
+  /** The Edge service restarted and its sequence numbers no longer continue the previous stream */
+  reset: boolean;
+}
+
+/**
+ * Result of the `hello` handshake
+ */
+export interface HelloResult {
+  /** Whether the presented credentials were accepted */
+  authenticated: boolean;
+  /** Protocol version the Edge service will speak on this connection */
+  protocolVersion: number;
+  /** Oldest protocol version the Edge service still supports */
+  minProtocolVersion?: number;
+  /** Optional protocol features supported by the Edge service */
+  features: string[];
+}
+
+/**
+ * Optional protocol features that may be negotiated with the Edge service
+ */
+export type ProtocolFeature = 'command_ack' | 'resume' | 'auth' | 'pairing' | 'rfid_batch';
+
+/**
+ * Protocol negotiated with the Edge service for the current connection
+ */
+export interface ProtocolInfo {
+  /** Negotiated protocol version */
+  version: number;
+  /** Features supported by the Edge service */
+  features: string[];
+  /** The Edge service predates protocol negotiation (did not answer `hello`) */
+  legacy: boolean;
+}
+
+/**
+ * Protocol version implemented by this SDK
+ */
+export const PROTOCOL_VERSION = 2;
+
+/**
+ * Oldest protocol version this SDK can talk to (1 = Edge builds without `hello`)
+ */
+export const MIN_PROTOCOL_VERSION = 1;
+
+/**
+ * Protocol features implemented by this SDK
+ */
+export const SDK_FEATURES: ProtocolFeature[] = ['command_ack', 'resume', 'auth', 'pairing', 'rfid_batch'];
+
+/**
+ * Result of exchanging a one-time pairing code
+ */
+export interface PairResult {
+  /** Persistent token to present in future `hello` handshakes */
+  token: string;
+}
 
 /**
  * Connection state for the WebSocket
  */
 export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
 
+/**
+ * How candidate URLs are probed: one after another, or all at once keeping the first to open
+ */
+export type EndpointStrategy = 'sequential' | 'race';
+
+/**
+ * How incoming messages are validated.
+ * 'strict' rejects any message that deviates from the protocol; 'lenient' ignores unknown message
+ * types and strips malformed optional fields, rejecting only messages that cannot be used.
+ */
+export type ValidationMode = 'strict' | 'lenient';
+
+/**
+ * Which tabs emit `scan` events: every tab, tabs whose page is visible, or only the focused tab
+ */
+export type ScanDelivery = 'all' | 'visible' | 'focused';
+
+/**
+ * Throttling applied to RFID reads before they are emitted
+ */
+export interface RfidThrottleOptions {
+  /** Emit each EPC at most once per window in ms (0 disables). Default: 0 */
+  perEpcWindow?: number;
+  /** Maximum `rfid` events per second across all tags (0 disables). Default: 0 */
+  maxEventsPerSecond?: number;
+  /**
+   * What happens to reads over the limits: 'drop' discards them; 'keepLatest' holds the most recent
+   * read of each EPC and emits it as soon as the limits allow. Default: 'drop'
+   */
+  policy?: 'drop' | 'keepLatest';
+}
+
+/**
+ * Counters kept by the RFID throttle
+ */
+export interface RfidThrottleStats {
+  /** Reads received from the Edge service */
+  received: number;
+  /** Reads emitted as `rfid` events */
+  emitted: number;
+  /** Reads discarded by the throttle (with 'keepLatest': reads superseded by a newer read of the same EPC) */
+  dropped: number;
+  /** Reads currently held back ('keepLatest' only) */
+  pending: number;
+}
+
+/**
+ * How repeated scans are recognized: 'window' suppresses the same data within `windowMs` of the last
+ * emitted scan; 'untilChanged' suppresses the same data until a different code is scanned
+ */
+export type ScanDedupMode = 'window' | 'untilChanged';
+
+/**
+ * Deduplication policy for a symbology or source
+ */
+export interface ScanDedupRule {
+  /** How repeats are recognized. Default: 'window' */
+  mode?: ScanDedupMode;
+  /** Suppression window in ms for the 'window' mode. Default: 1000 */
+  windowMs?: number;
+}
+
+/**
+ * Client-side scan deduplication. Scans are compared per source, so two scanners reading the same
+ * label are not duplicates of each other. Rules are looked up by symbology, then source, then the
+ * defaults; `false` turns deduplication off for that symbology or source.
+ */
+export interface ScanDedupOptions extends ScanDedupRule {
+  /** Rules keyed by symbology (canonical names, or vendor names the registry knows) */
+  bySymbology?: Record<string, ScanDedupRule | false>;
+  /** Rules keyed by scan source, e.g. 'bluetooth-ring' */
+  bySource?: Record<string, ScanDedupRule | false>;
+}
+
+/**
+ * A scan suppressed by client-side deduplication
+ */
+export interface DuplicateScan {
+  /** The suppressed scan */
+  event: ScanEvent;
+  /** Mode of the rule that suppressed it */
+  mode: ScanDedupMode;
+  /** Time since the matching scan was emitted in ms */
+  sinceMs: number;
+  /** Consecutive duplicates of that scan so far, including this one */
+  count: number;
+}
+
 /**
  * Options for creating a CleverenceEdge instance
  */
 export interface EdgeOptions {
-  /** WebSocket URL. Default: 'ws://localhost:8585' */
-  url?: string;
+  /** WebSocket URL, or candidate URLs tried in order. Default: 'ws://localhost:8585' */
+  url?: string | string[];
+  /** How to pick between several candidate URLs. Default: 'sequential' */
+  endpointStrategy?: EndpointStrategy;
+  /** How strictly incoming messages are validated. Default: 'lenient' */
+  validation?: ValidationMode;
+  /**
+   * Coalesce RFID reads into `rfidBatch` events per time window in ms, or once per animation frame
+   * with 'frame'. 0 emits each server message as its own batch. Default: 0
+   */
+  rfidBatchWindow?: number | 'frame';
+  /** Coalesce and rate-limit RFID reads before they are emitted. Default: no throttling */
+  rfidThrottle?: RfidThrottleOptions;
+  /** Suppress repeated scans and emit them as `duplicate` events instead. Default: no deduplication */
+  scanDedup?: ScanDedupOptions;
+  /**
+   * Decode `data` on the client from the raw bytes (`raw.bytesHex`) with this character set, or 'auto' to
+   * detect it; false keeps the text decoded by the Edge service. Default: false
+   */
+  clientDecoding?: ScanEncoding | false;
+  /** Add `canonicalSymbology` to scans and flag reads that fail their symbology's check. Default: false */
+  resolveSymbologies?: boolean;
+  /** Validate the mod 43 check character of Code 39 reads (with `resolveSymbologies`). Default: false */
+  code39CheckDigit?: boolean;
+  /** Decode GS1 barcodes and attach the result to scan events as `gs1`. Default: false */
+  parseGs1?: boolean;
+  /** Emit scans only while this tab is visible or focused (see TabSharingTransport). Default: 'all' */
+  scanDelivery?: ScanDelivery;
+  /** Where exceptions thrown by event listeners go: `console.error`, or the `error` event. Default: 'console' */
+  listenerErrors?: 'console' | 'emit';
   /** Auto-connect on instantiation. Default: true */
   autoConnect?: boolean;
   /** Initial reconnect delay in ms. Default: 1000 */
@@ -54,15 +315,62 @@ export interface EdgeOptions {
   maxReconnectDelay?: number;
   /** Ping interval for keepalive in ms. Default: 30000 */
   pingInterval?: number;
+  /** Time to wait for a pong before treating the connection as dead in ms (0 disables). Default: 10000 */
+  pongTimeout?: number;
+  /** Time to wait for the Edge service to acknowledge a command in ms. Default: 10000 */
+  commandTimeout?: number;
+  /** Queue commands while reconnecting and send them once the connection is back. Default: false */
+  queueCommands?: boolean;
+  /** Maximum number of queued commands. Default: 100 */
+  commandQueueSize?: number;
+  /** How long a queued command stays fresh in ms. Default: 30000 */
+  commandQueueTtl?: number;
+  /** Transport used to reach the Edge service. Default: WebSocketTransport using the global WebSocket */
+  transport?: Transport;
+  /** API key presented in the connection handshake */
+  apiKey?: string;
+  /** Device token (from pair()) presented in the connection handshake */
+  token?: string;
+  /** Time to wait for the Edge service to answer the `hello` handshake in ms. Default: 5000 */
+  handshakeTimeout?: number;
+  /** Features the Edge service must support; connecting fails with IncompatibleServerError otherwise. Default: [] */
+  requiredFeatures?: ProtocolFeature[];
 }
 
+/**
+ * Options that have no default value
+ */
+type OptionalEdgeOptions = 'transport' | 'apiKey' | 'token' | 'rfidThrottle' | 'scanDedup';
+
+/**
+ * EdgeOptions with defaults applied
+ */
+export type ResolvedEdgeOptions = Required<Omit<EdgeOptions, OptionalEdgeOptions>> &
+  Pick<EdgeOptions, OptionalEdgeOptions>;
+
 /**
  * Default options
  */
-export const DEFAULT_OPTIONS: Required<EdgeOptions> = {
+export const DEFAULT_OPTIONS: Required<Omit<EdgeOptions, OptionalEdgeOptions>> = {
   url: 'ws://localhost:8585',
+  endpointStrategy: 'sequential',
+  validation: 'lenient',
+  rfidBatchWindow: 0,
+  clientDecoding: false,
+  resolveSymbologies: false,
+  code39CheckDigit: false,
+  parseGs1: false,
+  scanDelivery: 'all',
+  listenerErrors: 'console',
   autoConnect: true,
   reconnectDelay: 1000,
   maxReconnectDelay: 30000,
   pingInterval: 30000,
+  pongTimeout: 10000,
+  commandTimeout: 10000,
+  queueCommands: false,
+  commandQueueSize: 100,
+  commandQueueTtl: 30000,
+  handshakeTimeout: 5000,
+  requiredFeatures: [],
 };
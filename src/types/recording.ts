@@ -0,0 +1,21 @@
+/**
+ * One line of a session recording.
+ * `t` is the time in ms since the recording started. Messages are stored parsed; text that
+ * was not valid JSON is stored as a string.
+ */
+export type RecordingEntry =
+  | { t: number; kind: 'open'; url: string }
+  | { t: number; kind: 'close' }
+  | { t: number; kind: 'in'; message: unknown }
+  | { t: number; kind: 'out'; message: unknown };
+
+/**
+ * First line of a JSONL session recording
+ */
+export interface RecordingHeader {
+  kind: 'recording';
+  /** Format version */
+  version: 1;
+  /** When the recording started (ISO 8601) */
+  startedAt: string;
+}
@@ -0,0 +1,43 @@
+/**
+ * Canonical symbology names used across vendors.
+ * These are also the names to pass to `setSymbologies()`.
+ */
+export type Symbology =
+  // Linear, retail
+  | 'ean8'
+  | 'ean13'
+  | 'upca'
+  | 'upce'
+  // Linear, industrial
+  | 'code39'
+  | 'code93'
+  | 'code128'
+  | 'gs1-128'
+  | 'codabar'
+  | 'code11'
+  | 'msi'
+  | 'itf'
+  | 'itf14'
+  | 'code2of5'
+  | 'gs1-databar'
+  | 'gs1-databar-limited'
+  | 'gs1-databar-expanded'
+  // 2D
+  | 'qrcode'
+  | 'gs1-qrcode'
+  | 'microqr'
+  | 'datamatrix'
+  | 'gs1-datamatrix'
+  | 'pdf417'
+  | 'micropdf417'
+  | 'aztec'
+  | 'maxicode'
+  | 'dotcode'
+  | 'hanxin'
+  // Anything the registry cannot map
+  | 'unknown';
+
+/**
+ * Checks the content of a read; returns why it is invalid, or null when it is valid
+ */
+export type BarcodeValidator = (data: string) => string | null;
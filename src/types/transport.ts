@@ -0,0 +1,50 @@
+/**
+ * Callbacks a transport invokes for a single connection
+ */
+export interface TransportHandlers {
+  /** The connection is ready to send and receive messages */
+  onOpen: () => void;
+  /** A text message (JSON-encoded ServerMessage) arrived */
+  onMessage: (data: string) => void;
+  /** The connection closed (for any reason, including failed opens) */
+  onClose: () => void;
+  /** The connection reported an error */
+  onError: (error: Error) => void;
+}
+
+/**
+ * A single open (or opening) connection created by a Transport
+ */
+export interface TransportConnection {
+  /** Whether messages can currently be sent */
+  readonly isOpen: boolean;
+  /** Send a text message (JSON-encoded ClientMessage) */
+  send(data: string): void;
+  /** Close the connection */
+  close(): void;
+}
+
+/**
+ * Creates connections to the Edge service.
+ * Reconnect, ping and request correlation are handled by the SDK on top of the transport.
+ */
+export interface Transport {
+  /** Open a new connection. Called for the initial connect and for every reconnect attempt */
+  connect(url: string, handlers: TransportHandlers): TransportConnection;
+}
+
+/**
+ * Minimal WebSocket surface used by WebSocketTransport (browser WebSocket, `ws` package, etc.)
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  send(data: string): void;
+  close(): void;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  addEventListener(type: 'open' | 'close' | 'error' | 'message', listener: (event: any) => void): void;
+}
+
+/**
+ * Constructor for a WebSocket implementation
+ */
+export type WebSocketConstructor = new (url: string) => WebSocketLike;
@@ -2,6 +2,7 @@
 export { useEdge, type UseEdgeOptions, type UseEdgeReturn } from './useEdge';
 export { useBarcode, type UseBarcodeOptions, type UseBarcodeReturn } from './useBarcode';
 export { useRfid, type UseRfidOptions, type UseRfidReturn } from './useRfid';
+export { useScanRoute, type UseScanRouteOptions } from './useScanRoute';
 
 // Re-export types for convenience
 export type {
@@ -1,4 +1,5 @@
 import { ref, watch, onUnmounted, type Ref, type ShallowRef } from 'vue';
+import { NotConnectedError } from '../core/errors';
 import type { CleverenceEdge } from '../core/client';
 import type { ScanEvent } from '../types';
 
@@ -92,7 +93,7 @@ export function useBarcode(options: UseBarcodeOptions): UseBarcodeReturn {
   };
 
   const triggerScan = async () => {
-    if (!edge.value) throw new Error('Not connected');
+    if (!edge.value) throw new NotConnectedError('Not connected');
     await edge.value.triggerScan();
   };
 
@@ -1,4 +1,5 @@
 import { ref, watch, onUnmounted, type Ref, type ShallowRef } from 'vue';
+import { NotConnectedError } from '../core/errors';
 import type { CleverenceEdge } from '../core/client';
 import type { RfidEvent, RfidTag, RfidInventoryOptions } from '../types';
 
@@ -58,37 +59,58 @@ export function useRfid(options: UseRfidOptions): UseRfidReturn {
   const tags = ref<Map<string, RfidTag>>(new Map());
   const isInventoryActive = ref(false);
 
-  let currentHandler: ((event: RfidEvent) => void) | null = null;
+  let currentHandler: ((events: RfidEvent[]) => void) | null = null;
+  let pending: RfidEvent[] = [];
+  let frameScheduled = false;
 
-  const handleRfid = (event: RfidEvent) => {
-    lastRead.value = event;
+  // Apply all reads received during a frame in a single reactive update
+  const flush = () => {
+    frameScheduled = false;
+    const events = pending;
+    pending = [];
+    if (events.length === 0) return;
+
+    lastRead.value = events[events.length - 1];
 
-    // Update tags map
     const newTags = new Map(tags.value);
-    const existing = newTags.get(event.epc);
     const now = new Date();
 
-    if (existing) {
-      newTags.set(event.epc, {
-        ...existing,
-        rssi: event.rssi,
-        antenna: event.antenna,
-        readCount: existing.readCount + 1,
-        lastSeen: now,
-      });
-    } else {
-      newTags.set(event.epc, {
-        epc: event.epc,
-        rssi: event.rssi,
-        antenna: event.antenna,
-        readCount: 1,
-        firstSeen: now,
-        lastSeen: now,
-      });
-    }
+    events.forEach((event) => {
+      const existing = newTags.get(event.epc);
+      if (existing) {
+        newTags.set(event.epc, {
+          ...existing,
+          rssi: event.rssi,
+          antenna: event.antenna,
+          readCount: existing.readCount + 1,
+          lastSeen: now,
+        });
+      } else {
+        newTags.set(event.epc, {
+          epc: event.epc,
+          rssi: event.rssi,
+          antenna: event.antenna,
+          readCount: 1,
+          firstSeen: now,
+          lastSeen: now,
+        });
+      }
+    });
 
     tags.value = newTags;
-    onRead?.(event);
+  };
+
+  const handleRfidBatch = (events: RfidEvent[]) => {
+    pending.push(...events);
+    if (!frameScheduled) {
+      frameScheduled = true;
+      if (typeof requestAnimationFrame === 'function') {
+        requestAnimationFrame(flush);
+      } else {
+        setTimeout(flush, 16);
+      }
+    }
+    events.forEach((event) => onRead?.(event));
   };
 
   // Watch for edge instance changes
@@ -97,13 +119,13 @@ export function useRfid(options: UseRfidOptions): UseRfidReturn {
     (newEdge, oldEdge) => {
       // Remove old handler
       if (oldEdge && currentHandler) {
-        oldEdge.off('rfid', currentHandler);
+        oldEdge.off('rfidBatch', currentHandler);
       }
 
       // Add new handler
       if (newEdge) {
-        currentHandler = handleRfid;
-        newEdge.on('rfid', currentHandler);
+        currentHandler = handleRfidBatch;
+        newEdge.on('rfidBatch', currentHandler);
       }
     },
     { immediate: true }
@@ -112,23 +134,25 @@ export function useRfid(options: UseRfidOptions): UseRfidReturn {
   onUnmounted(() => {
     stopWatch();
     if (edge.value && currentHandler) {
-      edge.value.off('rfid', currentHandler);
+      edge.value.off('rfidBatch', currentHandler);
     }
+    pending = [];
   });
 
   const startInventory = async (inventoryOptions?: RfidInventoryOptions) => {
-    if (!edge.value) throw new Error('Not connected');
+    if (!edge.value) throw new NotConnectedError('Not connected');
     await edge.value.startRfidInventory(inventoryOptions);
     isInventoryActive.value = true;
   };
 
   const stopInventory = async () => {
-    if (!edge.value) throw new Error('Not connected');
+    if (!edge.value) throw new NotConnectedError('Not connected');
     await edge.value.stopRfidInventory();
     isInventoryActive.value = false;
   };
 
   const clearTags = () => {
+    pending = [];
     lastRead.value = null;
     tags.value = new Map();
   };
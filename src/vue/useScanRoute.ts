@@ -0,0 +1,42 @@
+import { watch, onUnmounted, type Ref, type ShallowRef } from 'vue';
+import type { CleverenceEdge } from '../core/client';
+import type { ScanRoute } from '../core/router';
+
+export interface UseScanRouteOptions extends ScanRoute {
+  /** The edge instance to use (from useEdge) */
+  edge: ShallowRef<CleverenceEdge | null> | Ref<CleverenceEdge | null>;
+}
+
+/**
+ * Vue composable that registers a route on the edge's scan router until the component unmounts
+ *
+ * @example
+ * ```vue
+ * <script setup>
+ * import { useEdge, useScanRoute } from '@cleverence-edge/js-sdk/vue';
+ *
+ * const { edge } = useEdge();
+ * useScanRoute({ edge, name: 'badge', prefix: 'EMP', handler: (scan, match) => login(match.value) });
+ * useScanRoute({ edge, fallback: true, handler: (scan) => addItem(scan.data) });
+ * </script>
+ * ```
+ */
+export function useScanRoute(options: UseScanRouteOptions): void {
+  const { edge, ...route } = options;
+  let removeRoute: (() => void) | null = null;
+
+  // Watch for edge instance changes
+  const stopWatch = watch(
+    edge,
+    (newEdge) => {
+      removeRoute?.();
+      removeRoute = newEdge ? newEdge.router.route(route) : null;
+    },
+    { immediate: true }
+  );
+
+  onUnmounted(() => {
+    stopWatch();
+    removeRoute?.();
+  });
+}
@@ -31,4 +31,14 @@ export default defineConfig([
     treeshake: true,
     external: ['vue', '@cleverence-edge/js-sdk'],
   },
+  // Testing bundle
+  {
+    entry: ['src/testing/index.ts'],
+    outDir: 'dist/testing',
+    format: ['cjs', 'esm'],
+    dts: true,
+    sourcemap: true,
+    treeshake: true,
+    external: ['ws'],
+  },
 ]);